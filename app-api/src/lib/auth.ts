@@ -0,0 +1,48 @@
+// app-api/src/lib/auth.ts
+import type { RequestHandler } from "express";
+import { makeHttpError } from "./errors";
+import { makeProRequiredError, type Caller, type PlanResolver } from "./plans";
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by the access guard before the route handler runs. */
+      caller?: Caller;
+    }
+  }
+}
+
+/** Who a route accepts: anyone, signed-in users, or signed-in users on Pro. */
+export type AccessLevel = "anonymous" | "authenticated" | "pro";
+
+/**
+ * Middleware factory for per-route access rules. Each guard verifies the
+ * Supabase access token the web proxies forward as `Authorization: Bearer`,
+ * sets `req.caller` and rejects callers below `level`. A token that fails
+ * verification is refused even on anonymous routes, so an expired session
+ * surfaces as "sign in again" rather than silently losing the user's plan.
+ */
+export function createAccessGuard(plans: PlanResolver): (level: AccessLevel) => RequestHandler {
+  return (level) => async (req, res, next) => {
+    try {
+      const caller = await plans.resolveCaller(req.get("authorization"));
+      if (level !== "anonymous" && !caller.userId) {
+        throw makeHttpError("Sign in to use this feature.", 401, undefined, "AUTH_REQUIRED");
+      }
+      if (level === "pro" && caller.plan !== "pro") {
+        throw makeProRequiredError("This feature is part of Pro.");
+      }
+      req.caller = caller;
+      return next();
+    } catch (e: any) {
+      const status = Number(e?.statusCode ?? 500);
+      const code = typeof e?.code === "string" ? e.code : undefined;
+      return res.status(status).json({ ok: false, error: e?.message ?? "Server error", code });
+    }
+  };
+}
+
+/** The caller a guard attached; anonymous if the route has no guard. */
+export function callerOf(req: { caller?: Caller }): Caller {
+  return req.caller ?? { userId: null, plan: "free" };
+}
@@ -0,0 +1,118 @@
+// app-api/src/lib/buildDirs.ts
+import fs from "fs";
+import path from "path";
+import { makeHttpError } from "./errors";
+
+export type BuildDirStore = {
+  /**
+   * Run `task` with the persistent build directory of `projectId`. Tasks for
+   * the same project run one at a time; a failed task resets the directory so
+   * a broken .aux can't poison the next compile.
+   */
+  withBuildDir<T>(projectId: string, task: (dirAbs: string) => Promise<T>): Promise<T>;
+  stats(): { dirs: number; busy: number };
+};
+
+type BuildDirEntry = {
+  dirAbs: string;
+  lastUsed: number;
+  busy: number;
+  tail: Promise<unknown>;
+};
+
+export function assertValidBuildKey(projectId: string): string {
+  const key = String(projectId ?? "").trim();
+  if (!/^[A-Za-z0-9_-]{1,64}$/.test(key)) {
+    throw makeHttpError("Invalid 'projectId' for an incremental compile.", 400, undefined, "LATEX_BUILD_KEY_INVALID");
+  }
+  return key;
+}
+
+/**
+ * Per-project build directories under `rootDirAbs` for warm latexmk runs.
+ * Idle directories are removed after `ttlMs`; beyond `maxDirs` the least
+ * recently used idle directory is evicted. The root is wiped on startup since
+ * nothing in it is tracked across restarts.
+ */
+export function createBuildDirStore(opts: { rootDirAbs: string; ttlMs: number; maxDirs: number }): BuildDirStore {
+  const entries = new Map<string, BuildDirEntry>();
+
+  try {
+    fs.rmSync(opts.rootDirAbs, { recursive: true, force: true });
+    fs.mkdirSync(opts.rootDirAbs, { recursive: true });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.warn(`[WARN] Could not initialise build directories at ${opts.rootDirAbs}:`, message);
+  }
+
+  async function evict(key: string) {
+    const entry = entries.get(key);
+    if (!entry || entry.busy > 0) return;
+    entries.delete(key);
+    await fs.promises.rm(entry.dirAbs, { recursive: true, force: true }).catch(() => { });
+  }
+
+  function sweep() {
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+      if (entry.busy === 0 && now - entry.lastUsed > opts.ttlMs) void evict(key);
+    }
+  }
+
+  setInterval(sweep, Math.max(10000, Math.floor(opts.ttlMs / 4))).unref();
+
+  async function makeRoom() {
+    while (entries.size >= opts.maxDirs) {
+      let oldest: [string, BuildDirEntry] | null = null;
+      for (const e of entries) {
+        if (e[1].busy === 0 && (!oldest || e[1].lastUsed < oldest[1].lastUsed)) oldest = e;
+      }
+      // Every directory is in use: go over the cap rather than fail the compile.
+      if (!oldest) return;
+      await evict(oldest[0]);
+    }
+  }
+
+  return {
+    async withBuildDir<T>(projectId: string, task: (dirAbs: string) => Promise<T>): Promise<T> {
+      const key = assertValidBuildKey(projectId);
+      let entry = entries.get(key);
+      if (!entry) {
+        await makeRoom();
+        entry = entries.get(key) ?? {
+          dirAbs: path.join(opts.rootDirAbs, key),
+          lastUsed: Date.now(),
+          busy: 0,
+          tail: Promise.resolve(),
+        };
+        entries.set(key, entry);
+      }
+
+      const current = entry;
+      current.busy++;
+      const run = current.tail.then(async () => {
+        await fs.promises.mkdir(current.dirAbs, { recursive: true });
+        try {
+          return await task(current.dirAbs);
+        } catch (e) {
+          await fs.promises.rm(current.dirAbs, { recursive: true, force: true }).catch(() => { });
+          throw e;
+        }
+      });
+      current.tail = run.catch(() => { });
+
+      try {
+        return await run;
+      } finally {
+        current.busy--;
+        current.lastUsed = Date.now();
+      }
+    },
+
+    stats() {
+      let busy = 0;
+      for (const e of entries.values()) if (e.busy > 0) busy++;
+      return { dirs: entries.size, busy };
+    },
+  };
+}
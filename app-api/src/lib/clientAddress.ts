@@ -0,0 +1,38 @@
+// app-api/src/lib/clientAddress.ts
+import crypto from "crypto";
+import type { Request } from "express";
+
+/*
+ * The browser's address, for metering anonymous callers. Requests reach us via
+ * the web app's proxies, so req.ip is the web server; the proxies pass the
+ * address the platform gave them in X-Client-IP, signed with the secret both
+ * apps share, since anyone can send an X-Forwarded-For.
+ */
+
+export const CLIENT_IP_HEADER = "x-client-ip";
+export const CLIENT_IP_SIGNATURE_HEADER = "x-client-ip-signature";
+
+export type ClientAddressResolver = (req: Request) => string;
+
+export function signClientAddress(ip: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(ip).digest("hex");
+}
+
+/**
+ * A verified X-Client-IP when `secret` is set and the signature matches,
+ * otherwise req.ip (which follows the "trust proxy" setting).
+ */
+export function createClientAddressResolver(opts: { secret: string }): ClientAddressResolver {
+  const { secret } = opts;
+
+  return (req) => {
+    const ip = req.get(CLIENT_IP_HEADER)?.trim();
+    const signature = req.get(CLIENT_IP_SIGNATURE_HEADER)?.trim() ?? "";
+    if (secret && ip) {
+      const given = Buffer.from(signature);
+      const expected = Buffer.from(signClientAddress(ip, secret));
+      if (given.length === expected.length && crypto.timingSafeEqual(given, expected)) return ip;
+    }
+    return req.ip ?? "unknown";
+  };
+}
@@ -0,0 +1,156 @@
+// app-api/src/lib/compileCache.ts
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { applyLatexFallbacks, type PackageSubstitutionApplied, type ProjectFile, type TexEngine } from "./latex";
+
+export type CachedCompile = {
+  pdf: Buffer;
+  log: string;
+  synctex: Buffer | null;
+  substitutions: PackageSubstitutionApplied[];
+};
+
+export type CompileCache = {
+  get(key: string): Promise<CachedCompile | null>;
+  set(key: string, value: CachedCompile): Promise<void>;
+};
+
+type CacheEntry = { bytes: number };
+
+/**
+ * Hash everything that affects the compiled output. .tex files are hashed
+ * AFTER applyLatexFallbacks so sources that only differ in what the fallbacks
+ * would patch anyway share one entry. `standalone` is for a single-file compile
+ * (compileLatexToPdf), whose source gets the whole-document repairs that the
+ * files of a project don't.
+ */
+export function computeCompileCacheKey(args: {
+  files: ProjectFile[];
+  mainFile: string;
+  engine: TexEngine;
+  standalone?: boolean;
+}): string {
+  const hash = crypto.createHash("sha256");
+  const fragment = !args.standalone;
+  hash.update(`engine:${args.engine}\0main:${args.mainFile}\0standalone:${fragment ? 0 : 1}\0`);
+
+  const sorted = [...args.files].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  for (const f of sorted) {
+    const content =
+      !f.isBinary && f.path.endsWith(".tex") ? applyLatexFallbacks(f.content, { engine: args.engine, fragment }) : f.content;
+    hash.update(`file:${f.path}\0binary:${f.isBinary ? 1 : 0}\0len:${content.length}\0`);
+    hash.update(content);
+    hash.update("\0");
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Bounded on-disk LRU of successful compiles: <key>.pdf + <key>.log (+
+ * <key>.synctex.gz when the engine wrote one, <key>.substitutions.json when
+ * missing packages were substituted) in `dirAbs`.
+ * Recency is tracked in memory (Map insertion order) and rebuilt from file
+ * mtimes on startup. Failures are never cached.
+ */
+export function createCompileCache(opts: { dirAbs: string; maxBytes: number; maxEntries: number }): CompileCache {
+  const entries = new Map<string, CacheEntry>();
+  let totalBytes = 0;
+  const enabled = opts.maxBytes > 0 && opts.maxEntries > 0;
+
+  const pdfPath = (key: string) => path.join(opts.dirAbs, `${key}.pdf`);
+  const logPath = (key: string) => path.join(opts.dirAbs, `${key}.log`);
+  const synctexPath = (key: string) => path.join(opts.dirAbs, `${key}.synctex.gz`);
+  const substitutionsPath = (key: string) => path.join(opts.dirAbs, `${key}.substitutions.json`);
+
+  if (enabled) {
+    try {
+      fs.mkdirSync(opts.dirAbs, { recursive: true });
+      const existing = fs
+        .readdirSync(opts.dirAbs)
+        .filter((f) => f.endsWith(".pdf"))
+        .map((f) => {
+          const stat = fs.statSync(path.join(opts.dirAbs, f));
+          return { key: path.basename(f, ".pdf"), bytes: stat.size, mtimeMs: stat.mtimeMs };
+        })
+        .sort((a, b) => a.mtimeMs - b.mtimeMs);
+      for (const e of existing) {
+        entries.set(e.key, { bytes: e.bytes });
+        totalBytes += e.bytes;
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn(`[WARN] Could not initialise compile cache at ${opts.dirAbs}:`, message);
+    }
+  }
+
+  async function remove(key: string) {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    totalBytes -= entry.bytes;
+    await fs.promises.rm(pdfPath(key), { force: true }).catch(() => { });
+    await fs.promises.rm(logPath(key), { force: true }).catch(() => { });
+    await fs.promises.rm(synctexPath(key), { force: true }).catch(() => { });
+    await fs.promises.rm(substitutionsPath(key), { force: true }).catch(() => { });
+  }
+
+  async function evict() {
+    while (entries.size > opts.maxEntries || totalBytes > opts.maxBytes) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) break;
+      await remove(oldest);
+    }
+  }
+
+  return {
+    async get(key) {
+      if (!enabled) return null;
+      const entry = entries.get(key);
+      if (!entry) return null;
+
+      try {
+        const [pdf, log, synctex, substitutions] = await Promise.all([
+          fs.promises.readFile(pdfPath(key)),
+          fs.promises.readFile(logPath(key), "utf8").catch(() => ""),
+          fs.promises.readFile(synctexPath(key)).catch(() => null),
+          fs.promises
+            .readFile(substitutionsPath(key), "utf8")
+            .then((raw) => JSON.parse(raw) as PackageSubstitutionApplied[])
+            .catch(() => []),
+        ]);
+        // Refresh recency
+        entries.delete(key);
+        entries.set(key, entry);
+        const now = new Date();
+        fs.promises.utimes(pdfPath(key), now, now).catch(() => { });
+        return { pdf, log, synctex, substitutions };
+      } catch {
+        await remove(key);
+        return null;
+      }
+    },
+
+    async set(key, value) {
+      if (!enabled) return;
+      const bytes = value.pdf.length + Buffer.byteLength(value.log, "utf8") + (value.synctex?.length ?? 0);
+      if (bytes > opts.maxBytes) return;
+
+      try {
+        await remove(key);
+        await fs.promises.writeFile(pdfPath(key), value.pdf);
+        await fs.promises.writeFile(logPath(key), value.log, "utf8");
+        if (value.synctex) await fs.promises.writeFile(synctexPath(key), value.synctex);
+        if (value.substitutions.length) {
+          await fs.promises.writeFile(substitutionsPath(key), JSON.stringify(value.substitutions), "utf8");
+        }
+        entries.set(key, { bytes });
+        totalBytes += bytes;
+        await evict();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn("[WARN] Could not write compile cache entry:", message);
+      }
+    },
+  };
+}
@@ -0,0 +1,229 @@
+// app-api/src/lib/compileJobs.ts
+import crypto from "crypto";
+import { makeHttpError, trimHugeLog } from "./errors";
+import type { PackageSubstitutionApplied } from "./latex";
+import type { FitResult } from "./fitPages";
+
+/* -------------------------
+   concurrency limiter
+------------------------- */
+
+export type CompileLimiter = {
+  run<T>(task: () => Promise<T>): Promise<T>;
+  stats(): { running: number; waiting: number; maxConcurrent: number };
+};
+
+/**
+ * Simple FIFO semaphore: at most `maxConcurrent` tasks run at once, the rest
+ * wait in order. Used by every compile path so a burst of requests can't fork
+ * an unbounded number of latexmk/pdflatex processes.
+ */
+export function createCompileLimiter(opts: { maxConcurrent: number; maxWaiting: number }): CompileLimiter {
+  const maxConcurrent = Math.max(1, Math.floor(opts.maxConcurrent));
+  const maxWaiting = Math.max(0, Math.floor(opts.maxWaiting));
+  const waiting: Array<() => void> = [];
+  let running = 0;
+
+  function release() {
+    running--;
+    const next = waiting.shift();
+    if (next) next();
+  }
+
+  async function acquire(): Promise<void> {
+    if (running < maxConcurrent) {
+      running++;
+      return;
+    }
+    if (waiting.length >= maxWaiting) {
+      throw makeHttpError(
+        "[LATEX_QUEUE_FULL] Too many compilations in progress. Try again in a moment.",
+        503,
+        undefined,
+        "LATEX_QUEUE_FULL"
+      );
+    }
+    await new Promise<void>((resolve) => {
+      waiting.push(() => {
+        running++;
+        resolve();
+      });
+    });
+  }
+
+  return {
+    async run<T>(task: () => Promise<T>): Promise<T> {
+      await acquire();
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+    stats() {
+      return { running, waiting: waiting.length, maxConcurrent };
+    },
+  };
+}
+
+/* -------------------------
+   async compile jobs
+------------------------- */
+
+export type CompileJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export type CompileJob = {
+  id: string;
+  /** userId of whoever submitted it; null for anonymous callers. */
+  owner: string | null;
+  status: CompileJobStatus;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  log: string;
+  error: string | null;
+  code: string | null;
+  pdf: Buffer | null;
+  cacheHit: boolean;
+  artifactId: string | null;
+  substitutions: PackageSubstitutionApplied[];
+  fit: FitResult | null;
+};
+
+export type CompileJobResult = {
+  pdf: Buffer;
+  log: string;
+  cacheHit?: boolean;
+  artifactId?: string;
+  substitutions?: PackageSubstitutionApplied[];
+  fit?: FitResult;
+};
+
+export type CompileJobStore = {
+  /** `onStart` fires when the job leaves the queue and starts running. */
+  submit(task: () => Promise<CompileJobResult>, opts: { owner: string | null; onStart?: () => void }): CompileJob;
+  /**
+   * The job if `userId` may see it: a signed-in user's jobs only to them,
+   * anonymous ones to anyone holding the (random) id. Null otherwise.
+   */
+  get(id: string, userId: string | null): CompileJob | null;
+  /** Resolves once the job has succeeded or failed. */
+  wait(job: CompileJob): Promise<CompileJob>;
+};
+
+/**
+ * In-memory job registry on top of a CompileLimiter. Finished jobs (and their
+ * PDFs) are kept for `ttlMs` so clients can poll and download, then dropped.
+ * At most `maxPending` jobs may be queued or running at once.
+ */
+export function createCompileJobStore(opts: {
+  limiter: CompileLimiter;
+  ttlMs: number;
+  maxPending: number;
+}): CompileJobStore {
+  const jobs = new Map<string, CompileJob>();
+  const settled = new Map<string, Promise<void>>();
+
+  function sweep() {
+    const now = Date.now();
+    for (const [id, job] of jobs) {
+      if (job.finishedAt !== null && now - job.finishedAt > opts.ttlMs) {
+        jobs.delete(id);
+        settled.delete(id);
+      }
+    }
+  }
+
+  setInterval(sweep, Math.max(10000, Math.floor(opts.ttlMs / 4))).unref();
+
+  return {
+    submit(task, { owner, onStart }) {
+      sweep();
+      let pending = 0;
+      for (const j of jobs.values()) if (j.finishedAt === null) pending++;
+      if (pending >= opts.maxPending) {
+        throw makeHttpError(
+          "[LATEX_QUEUE_FULL] Too many compile jobs pending. Try again in a moment.",
+          503,
+          undefined,
+          "LATEX_QUEUE_FULL"
+        );
+      }
+
+      const job: CompileJob = {
+        id: crypto.randomUUID(),
+        owner,
+        status: "queued",
+        createdAt: Date.now(),
+        startedAt: null,
+        finishedAt: null,
+        log: "",
+        error: null,
+        code: null,
+        pdf: null,
+        cacheHit: false,
+        artifactId: null,
+        substitutions: [],
+        fit: null,
+      };
+      jobs.set(job.id, job);
+
+      const done = opts.limiter
+        .run(async () => {
+          job.status = "running";
+          job.startedAt = Date.now();
+          onStart?.();
+          return task();
+        })
+        .then(({ pdf, log, cacheHit, artifactId, substitutions, fit }) => {
+          job.pdf = pdf;
+          job.log = log;
+          job.cacheHit = Boolean(cacheHit);
+          job.artifactId = artifactId ?? null;
+          job.substitutions = substitutions ?? [];
+          job.fit = fit ?? null;
+          job.status = "succeeded";
+          job.finishedAt = Date.now();
+        })
+        .catch((e: any) => {
+          job.log = typeof e?.log === "string" ? trimHugeLog(e.log) : "";
+          job.error = typeof e?.message === "string" ? e.message : "Compilation failed.";
+          job.code = typeof e?.code === "string" ? e.code : "LATEX_COMPILE_FAILED";
+          job.status = "failed";
+          job.finishedAt = Date.now();
+        });
+      settled.set(job.id, done);
+
+      return job;
+    },
+
+    get(id, userId) {
+      const job = jobs.get(id);
+      if (!job || (job.owner !== null && job.owner !== userId)) return null;
+      return job;
+    },
+
+    async wait(job) {
+      await settled.get(job.id);
+      return job;
+    },
+  };
+}
+
+export function describeCompileJob(job: CompileJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    createdAt: new Date(job.createdAt).toISOString(),
+    startedAt: job.startedAt ? new Date(job.startedAt).toISOString() : null,
+    finishedAt: job.finishedAt ? new Date(job.finishedAt).toISOString() : null,
+    error: job.error,
+    code: job.code,
+    log: job.log,
+    hasPdf: Boolean(job.pdf),
+    cacheHit: job.cacheHit,
+    artifactId: job.artifactId,
+    substitutions: job.substitutions,
+    fit: job.fit,
+  };
+}
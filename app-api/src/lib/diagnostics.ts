@@ -0,0 +1,220 @@
+// app-api/src/lib/diagnostics.ts
+
+export type LatexDiagnosticSeverity = "error" | "warning" | "badbox";
+
+export type LatexDiagnostic = {
+  file: string | null;
+  line: number | null;
+  severity: LatexDiagnosticSeverity;
+  message: string;
+  context: string;
+};
+
+const MAX_CONTEXT_LINES = 4;
+const MAX_DIAGNOSTICS = 200;
+
+// ./main.tex:12: Undefined control sequence.
+const FILE_LINE_ERROR = /^(?:\.\/)?([^\s:()][^:()]*\.(?:tex|sty|cls|bib|ltx|def|cfg|clo)):(\d+): (.+)$/;
+// ! LaTeX Error: Environment foo undefined.
+const BANG_ERROR = /^! (.+)$/;
+// l.12 \foo
+const TEX_LINE_MARKER = /^l\.(\d+)(.*)$/;
+const INPUT_LINE = /on input line (\d+)\.?/;
+const LINES_RANGE = /at lines? (\d+)(?:--(\d+))?/;
+// bibtex: I was expecting a `,' or a `}'---line 12 of file refs.bib
+const BIBTEX_ERROR_AT = /^(.+)---line (\d+) of file (.+\.bib)$/;
+// bibtex: Warning--I didn't find a database entry for "knuth84"
+const BIBTEX_WARNING = /^Warning--(.+)$/;
+// biber: ERROR - BibTeX subsystem: /tmp/x/refs.bib_123.utf8, line 4, syntax error: ...
+const BIBER_MESSAGE = /^(ERROR|WARN) - (.+)$/;
+const BIBER_FILE_LINE = /([^\s/,]+\.bib)(?:_\d+\.utf8)?, line (\d+)/;
+// TeX prints "(./chapters/ch1.tex" when it opens a file and ")" when it closes it.
+const FILE_OPEN_AT = /^\((\.\/[^\s()]+\.(?:tex|ltx))/;
+
+/**
+ * Update the stack of open files from one log line. Non-file parentheses are
+ * pushed as null so they balance with their closing ")".
+ */
+function trackOpenFiles(line: string, stack: Array<string | null>) {
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === "(") {
+      const m = line.slice(i).match(FILE_OPEN_AT);
+      stack.push(m ? normalizeFile(m[1]) : null);
+    } else if (ch === ")" && stack.length) {
+      stack.pop();
+    }
+  }
+}
+
+function currentFileOf(stack: Array<string | null>, fallback: string): string {
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const f = stack[i];
+    if (f) return f;
+  }
+  return fallback;
+}
+
+function normalizeFile(file: string | null): string | null {
+  if (!file) return null;
+  return file.replace(/^\.\//, "");
+}
+
+function collectContext(lines: string[], start: number): string {
+  const out: string[] = [];
+  for (let i = start; i < lines.length && out.length < MAX_CONTEXT_LINES; i++) {
+    const l = lines[i];
+    if (!l.trim()) break;
+    if (FILE_LINE_ERROR.test(l) || BANG_ERROR.test(l)) break;
+    if (BIBTEX_WARNING.test(l) || BIBER_MESSAGE.test(l)) break;
+    out.push(l);
+  }
+  return out.join("\n").trim();
+}
+
+function findTexLineMarker(lines: string[], start: number): { line: number; excerpt: string } | null {
+  for (let i = start; i < lines.length && i < start + 12; i++) {
+    const m = lines[i].match(TEX_LINE_MARKER);
+    if (m) return { line: Number(m[1]), excerpt: lines[i] };
+  }
+  return null;
+}
+
+/**
+ * Collect warning text that TeX wrapped across lines: continuation lines of a
+ * "Package foo Warning:" block start with "(foo)" padding.
+ */
+function joinWrappedWarning(lines: string[], start: number): { text: string; next: number } {
+  let text = lines[start].trim();
+  let i = start + 1;
+  while (i < lines.length && /^\([A-Za-z0-9_-]+\)\s+/.test(lines[i])) {
+    text += " " + lines[i].replace(/^\([A-Za-z0-9_-]+\)\s+/, "").trim();
+    i++;
+  }
+  return { text, next: i };
+}
+
+/**
+ * Turn a latexmk/pdflatex log (with -file-line-error) plus the appended
+ * main.log and bibtex/biber output into structured diagnostics. Errors, undefined references and
+ * citations, undefined control sequences and over/underfull boxes are
+ * recognised; duplicates (the same message printed by latexmk and main.log)
+ * are collapsed.
+ */
+export function parseLatexDiagnostics(log: string, opts?: { mainFile?: string }): LatexDiagnostic[] {
+  if (!log) return [];
+  const mainFile = opts?.mainFile ?? "main.tex";
+  const lines = log.replace(/\r\n?/g, "\n").split("\n");
+  const out: LatexDiagnostic[] = [];
+  const seen = new Set<string>();
+  const openFiles: Array<string | null> = [];
+
+  function push(d: LatexDiagnostic) {
+    const key = `${d.severity}|${d.file ?? ""}|${d.line ?? ""}|${d.message}`;
+    if (seen.has(key) || out.length >= MAX_DIAGNOSTICS) return;
+    seen.add(key);
+    out.push(d);
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    // compileLatexToPdf appends "----- main.log -----": a fresh TeX transcript starts.
+    if (/^----- .+ -----$/.test(line)) openFiles.length = 0;
+    // Diagnostics are attributed to the file open *before* this line's parens.
+    const currentFile = currentFileOf(openFiles, mainFile);
+    trackOpenFiles(line, openFiles);
+
+    const fle = line.match(FILE_LINE_ERROR);
+    if (fle) {
+      const marker = findTexLineMarker(lines, i + 1);
+      push({
+        file: normalizeFile(fle[1]),
+        line: Number(fle[2]),
+        severity: "error",
+        message: fle[3].trim(),
+        context: marker?.excerpt ?? collectContext(lines, i + 1),
+      });
+      continue;
+    }
+
+    const bibtexError = line.match(BIBTEX_ERROR_AT);
+    if (bibtexError) {
+      push({
+        file: normalizeFile(bibtexError[3]),
+        line: Number(bibtexError[2]),
+        severity: "error",
+        message: bibtexError[1].trim(),
+        context: collectContext(lines, i + 1),
+      });
+      continue;
+    }
+
+    const bibtexWarning = line.match(BIBTEX_WARNING);
+    if (bibtexWarning) {
+      push({ file: null, line: null, severity: "warning", message: bibtexWarning[1].trim(), context: "" });
+      continue;
+    }
+
+    const biber = line.match(BIBER_MESSAGE);
+    if (biber) {
+      const at = biber[2].match(BIBER_FILE_LINE);
+      push({
+        file: at ? at[1] : null,
+        line: at ? Number(at[2]) : null,
+        severity: biber[1] === "ERROR" ? "error" : "warning",
+        message: biber[2].trim(),
+        context: "",
+      });
+      continue;
+    }
+
+    const bang = line.match(BANG_ERROR);
+    if (bang) {
+      const marker = findTexLineMarker(lines, i + 1);
+      push({
+        file: currentFile,
+        line: marker?.line ?? null,
+        severity: "error",
+        message: bang[1].trim(),
+        context: marker?.excerpt ?? collectContext(lines, i + 1),
+      });
+      continue;
+    }
+
+    if (/^(Overfull|Underfull) \\[hv]box/.test(line)) {
+      const range = line.match(LINES_RANGE);
+      push({
+        file: currentFile,
+        line: range ? Number(range[1]) : null,
+        severity: "badbox",
+        message: line.trim(),
+        context: collectContext(lines, i + 1),
+      });
+      continue;
+    }
+
+    if (/^(LaTeX|Package [A-Za-z0-9_-]+|Class [A-Za-z0-9_-]+) Warning:/.test(line)) {
+      const { text, next } = joinWrappedWarning(lines, i);
+      const inputLine = text.match(INPUT_LINE);
+      push({
+        file: currentFile,
+        line: inputLine ? Number(inputLine[1]) : null,
+        severity: "warning",
+        message: text,
+        context: "",
+      });
+      for (let j = i + 1; j < next; j++) trackOpenFiles(lines[j], openFiles);
+      i = next - 1;
+    }
+  }
+
+  return out;
+}
+
+export function summarizeDiagnostics(diagnostics: LatexDiagnostic[]) {
+  return {
+    errors: diagnostics.filter((d) => d.severity === "error").length,
+    warnings: diagnostics.filter((d) => d.severity === "warning").length,
+    badboxes: diagnostics.filter((d) => d.severity === "badbox").length,
+  };
+}
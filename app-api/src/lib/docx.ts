@@ -0,0 +1,222 @@
+// app-api/src/lib/docx.ts
+import zlib from "zlib";
+import { escapeXml } from "./mathml";
+import type { Block, Inline, LatexDocument } from "./latexDocument";
+
+/*
+ * Minimal WordprocessingML writer for the built-in DOCX export: one
+ * document.xml with paragraph/run formatting, a styles part for headings, and
+ * the zip container around them. Math is written as Cambria Math text runs of
+ * the TeX source; pandoc (when installed) produces native Word equations instead.
+ */
+
+/* -------------------------
+   zip container
+------------------------- */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buf) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Deflate-compressed zip of `entries` (no directories, no extra fields). */
+export function buildZip(entries: Array<{ name: string; data: Buffer }>): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const compressed = zlib.deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(0, 10); // time/date
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    locals.push(local, name, compressed);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4); // version made by
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(0x0800, 8);
+    header.writeUInt16LE(8, 10);
+    header.writeUInt32LE(0, 12);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(compressed.length, 20);
+    header.writeUInt32LE(entry.data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+    central.push(header, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralSize = central.reduce((n, b) => n + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...central, end]);
+}
+
+/* -------------------------
+   document body
+------------------------- */
+
+type RunStyle = { bold?: boolean; italic?: boolean; code?: boolean; math?: boolean; link?: boolean };
+
+function run(text: string, style: RunStyle): string {
+  const props = [
+    style.bold ? "<w:b/>" : "",
+    style.italic || style.math ? "<w:i/>" : "",
+    style.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/>' : "",
+    style.math ? '<w:rFonts w:ascii="Cambria Math" w:hAnsi="Cambria Math"/>' : "",
+    style.link ? '<w:color w:val="1F4E9E"/><w:u w:val="single"/>' : "",
+  ].join("");
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function runs(inlines: Inline[], style: RunStyle = {}): string {
+  return inlines
+    .map((n) => {
+      switch (n.type) {
+        case "text":
+          return run(n.text, style);
+        case "bold":
+          return runs(n.children, { ...style, bold: true });
+        case "italic":
+          return runs(n.children, { ...style, italic: true });
+        case "code":
+          return run(n.text, { ...style, code: true });
+        case "math":
+          return run(n.tex, { ...style, math: true });
+        case "link":
+          return runs(n.children, { ...style, link: true });
+        case "break":
+          return "<w:r><w:br/></w:r>";
+      }
+    })
+    .join("");
+}
+
+type ParagraphOptions = { style?: string; indent?: number; shaded?: boolean; center?: boolean };
+
+function paragraph(content: string, opts: ParagraphOptions = {}): string {
+  const props = [
+    opts.style ? `<w:pStyle w:val="${opts.style}"/>` : "",
+    opts.shaded ? '<w:pBdr><w:left w:val="single" w:sz="24" w:space="8" w:color="6B7BD6"/></w:pBdr><w:shd w:val="clear" w:color="auto" w:fill="F4F5FC"/>' : "",
+    opts.indent ? `<w:ind w:left="${opts.indent}" w:hanging="${Math.min(opts.indent, 360)}"/>` : "",
+    opts.center ? '<w:jc w:val="center"/>' : "",
+  ].join("");
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}${content}</w:p>`;
+}
+
+function table(rows: Inline[][][]): string {
+  const width = Math.max(0, ...rows.map((r) => r.length));
+  const border = '<w:top w:val="single" w:sz="4" w:color="999999"/><w:left w:val="single" w:sz="4" w:color="999999"/><w:bottom w:val="single" w:sz="4" w:color="999999"/><w:right w:val="single" w:sz="4" w:color="999999"/><w:insideH w:val="single" w:sz="4" w:color="999999"/><w:insideV w:val="single" w:sz="4" w:color="999999"/>';
+  const body = rows
+    .map((row) => `<w:tr>${Array.from({ length: width }, (_, k) => `<w:tc>${paragraph(runs(row[k] ?? []))}</w:tc>`).join("")}</w:tr>`)
+    .join("");
+  return `<w:tbl><w:tblPr><w:tblW w:w="0" w:type="auto"/><w:tblBorders>${border}</w:tblBorders></w:tblPr><w:tblGrid>${"<w:gridCol/>".repeat(width)}</w:tblGrid>${body}</w:tbl>`;
+}
+
+function blocksXml(blocks: Block[], ctx: { indent: number; shaded: boolean }): string {
+  const base: ParagraphOptions = { indent: ctx.indent || undefined, shaded: ctx.shaded };
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "heading":
+          return paragraph(runs(block.children), { style: `Heading${Math.min(block.level, 4)}` });
+        case "paragraph":
+          return paragraph(runs(block.children), base);
+        case "math":
+          return paragraph(run(block.tex, { math: true }), { ...base, center: true });
+        case "code":
+          return block.text
+            .split("\n")
+            .map((line) => paragraph(run(line, { code: true }), base))
+            .join("");
+        case "table":
+          return table(block.rows);
+        case "box":
+          return (
+            paragraph(run(block.title, { bold: true }), { ...base, shaded: true }) +
+            blocksXml(block.children, { ...ctx, shaded: true })
+          );
+        case "list":
+          return block.items
+            .map((item, idx) => {
+              const marker = run(block.ordered ? `${idx + 1}.\t` : "•\t", {});
+              const [first, ...rest] = item;
+              const indent = ctx.indent + 720;
+              const head = first?.type === "paragraph"
+                ? paragraph(marker + runs(first.children), { indent, shaded: ctx.shaded })
+                : paragraph(marker, { indent, shaded: ctx.shaded }) + (first ? blocksXml([first], { ...ctx, indent }) : "");
+              return head + blocksXml(rest, { ...ctx, indent });
+            })
+            .join("");
+      }
+    })
+    .join("");
+}
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+function headingStyle(level: number, size: number): string {
+  return `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+}
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${W_NS}><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>${headingStyle(1, 32)}${headingStyle(2, 28)}${headingStyle(3, 24)}${headingStyle(4, 22)}</w:styles>`;
+
+function coreProperties(title: string, author: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>${escapeXml(title)}</dc:title><dc:creator>${escapeXml(author)}</dc:creator></cp:coreProperties>`;
+}
+
+export function renderDocx(doc: LatexDocument): Buffer {
+  const body = blocksXml(doc.blocks, { indent: 0, shaded: false });
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${W_NS}><w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1417" w:right="1417" w:bottom="1417" w:left="1417" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  return buildZip([
+    { name: "[Content_Types].xml", data: Buffer.from(CONTENT_TYPES, "utf8") },
+    { name: "_rels/.rels", data: Buffer.from(ROOT_RELS, "utf8") },
+    { name: "word/document.xml", data: Buffer.from(document, "utf8") },
+    { name: "word/_rels/document.xml.rels", data: Buffer.from(DOCUMENT_RELS, "utf8") },
+    { name: "word/styles.xml", data: Buffer.from(STYLES, "utf8") },
+    { name: "docProps/core.xml", data: Buffer.from(coreProperties(doc.title, doc.author), "utf8") },
+  ]);
+}
@@ -0,0 +1,198 @@
+// app-api/src/lib/fitPages.ts
+import { makeHttpError } from "./errors";
+
+/*
+ * "Fit to N pages" for cheat-sheet style documents. Instead of letting anything
+ * change, the document is tightened along a fixed ladder of levels: each level
+ * shrinks the font sizes, column gap, page margins and list spacing a little
+ * more. The compile loop binary-searches the ladder for the loosest level whose
+ * PDF fits the page limit.
+ */
+
+export const MAX_TARGET_PAGES = 20;
+
+export type FitParameters = {
+  /** Multiplier on every LaTeX font size command (\normalsize, \footnotesize, ...). */
+  fontScale: number;
+  columnSepCm: number;
+  marginMm: number;
+  /** enumitem itemsep/topsep, in em. */
+  listSpacingEm: number;
+};
+
+/** Level 0 is the document as written; higher levels are strictly tighter. */
+export const FIT_LEVELS: FitParameters[] = [
+  { fontScale: 1, columnSepCm: 0, marginMm: 0, listSpacingEm: 0 },
+  { fontScale: 0.95, columnSepCm: 0.4, marginMm: 8, listSpacingEm: 0.1 },
+  { fontScale: 0.9, columnSepCm: 0.35, marginMm: 6, listSpacingEm: 0.05 },
+  { fontScale: 0.85, columnSepCm: 0.3, marginMm: 5, listSpacingEm: 0 },
+  { fontScale: 0.8, columnSepCm: 0.25, marginMm: 4, listSpacingEm: 0 },
+  { fontScale: 0.75, columnSepCm: 0.2, marginMm: 3, listSpacingEm: 0 },
+  { fontScale: 0.7, columnSepCm: 0.15, marginMm: 2.5, listSpacingEm: 0 },
+];
+
+export type FitResult = {
+  targetPages: number;
+  pages: number;
+  level: number;
+  parameters: FitParameters;
+  /** Levels compiled during the search, in order, with the page count each produced. */
+  attempts: Array<{ level: number; pages: number }>;
+};
+
+// Standard 10pt class sizes; 11pt/12pt documents are scaled from these.
+const SIZE_COMMANDS: Array<[string, number]> = [
+  ["tiny", 5],
+  ["scriptsize", 7],
+  ["footnotesize", 8],
+  ["small", 9],
+  ["normalsize", 10],
+  ["large", 12],
+  ["Large", 14.4],
+  ["LARGE", 17.28],
+  ["huge", 20.74],
+  ["Huge", 24.88],
+];
+
+const FIT_BLOCK_BEGIN = "% betternotes:fit begin (generated, replaced on every fit)";
+const FIT_BLOCK_END = "% betternotes:fit end";
+const FIT_BLOCK_RE = /% betternotes:fit begin[^\n]*\n[\s\S]*?% betternotes:fit end\n?/;
+
+export function parseTargetPages(raw: unknown): number | null {
+  if (raw === undefined || raw === null || raw === "") return null;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 1 || n > MAX_TARGET_PAGES) {
+    throw makeHttpError(
+      `'targetPages' must be a whole number between 1 and ${MAX_TARGET_PAGES}.`,
+      400,
+      undefined,
+      "FIT_TARGET_INVALID"
+    );
+  }
+  return n;
+}
+
+function classFontSize(latex: string): number {
+  const m = latex.match(/\\documentclass\s*\[([^\]]*)\]/);
+  const size = m?.[1].match(/\b(\d{1,2})pt\b/);
+  return size ? Number(size[1]) : 10;
+}
+
+function round(n: number): string {
+  return String(Math.round(n * 100) / 100);
+}
+
+const MM_PER_UNIT: Record<string, number> = { mm: 1, cm: 10, in: 25.4, pt: 0.3515 };
+
+/** Smallest of the lengths `re` captures (value, unit) in the source, in mm. */
+function smallestLengthMm(latex: string, re: RegExp): number | null {
+  const values = [...latex.matchAll(re)]
+    .filter((m) => m[2] in MM_PER_UNIT)
+    .map((m) => Number(m[1]) * MM_PER_UNIT[m[2]]);
+  return values.length ? Math.min(...values) : null;
+}
+
+function buildFitBlock(latex: string, params: FitParameters): string {
+  const base = classFontSize(latex) / 10;
+  // Never loosen what the template already sets tighter than this level.
+  const marginMm = Math.min(
+    params.marginMm,
+    smallestLengthMm(latex, /\b(?:margin|left|right|top|bottom)\s*=\s*([\d.]+)\s*(mm|cm|in|pt)/g) ?? Infinity
+  );
+  const columnSepCm = Math.min(
+    params.columnSepCm,
+    (smallestLengthMm(latex, /\\columnsep\s*\}?\s*\{?\s*([\d.]+)\s*(mm|cm|in|pt)/g) ?? Infinity) / 10
+  );
+  const lines = [FIT_BLOCK_BEGIN, "\\makeatletter"];
+  for (const [cmd, size] of SIZE_COMMANDS) {
+    const pt = size * base * params.fontScale;
+    lines.push(`\\renewcommand\\${cmd}{\\@setfontsize\\${cmd}{${round(pt)}}{${round(pt * 1.2)}}}`);
+  }
+  lines.push("\\makeatother", "\\AtBeginDocument{\\normalsize}");
+  lines.push(`\\setlength{\\columnsep}{${round(columnSepCm)}cm}`);
+
+  const hasGeometry = /\\usepackage\s*(\[[^\]]*\])?\s*\{[^}]*\bgeometry\b[^}]*\}/.test(latex);
+  lines.push(hasGeometry ? `\\geometry{margin=${round(marginMm)}mm}` : `\\usepackage[margin=${round(marginMm)}mm]{geometry}`);
+
+  if (/\\usepackage\s*(\[[^\]]*\])?\s*\{[^}]*\benumitem\b[^}]*\}/.test(latex)) {
+    const em = `${params.listSpacingEm}em`;
+    lines.push(`\\setlist{itemsep=${em},topsep=${em},parsep=0pt,partopsep=0pt}`);
+  }
+  lines.push(FIT_BLOCK_END);
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Insert (or replace) the generated fit block just before \begin{document}.
+ * Level 0 removes any previous block. Sources without \begin{document} (body
+ * fragments) are returned unchanged.
+ */
+export function applyFitParameters(latex: string, level: number): string {
+  const clean = latex.replace(FIT_BLOCK_RE, "");
+  if (level <= 0) return clean;
+  const idx = clean.search(/\\begin\s*\{document\}/);
+  if (idx < 0) return clean;
+  return clean.slice(0, idx) + buildFitBlock(clean, FIT_LEVELS[level]) + clean.slice(idx);
+}
+
+/**
+ * Page count from the TeX log ("Output written on main.pdf (3 pages, ...)"),
+ * falling back to the /Count of an uncompressed page tree.
+ */
+export function countPdfPages(pdf: Buffer, log: string): number {
+  const fromLog = [...log.matchAll(/Output written on .*?\((\d+) pages?/g)].pop();
+  if (fromLog) return Number(fromLog[1]);
+  const counts = [...pdf.toString("latin1").matchAll(/\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)/g)].map((m) => Number(m[1]));
+  if (counts.length) return Math.max(...counts);
+  throw makeHttpError("Could not determine the page count of the PDF.", 500, log, "FIT_PAGE_COUNT_UNKNOWN");
+}
+
+/**
+ * Find the loosest level whose output has at most `targetPages` pages.
+ * `compileAt(level)` compiles the document with that level applied. Throws
+ * FIT_PAGES_UNREACHABLE (422) when even the tightest level is too long.
+ */
+export async function fitToPages<T extends { pdf: Buffer; log: string }>(
+  targetPages: number,
+  compileAt: (level: number) => Promise<T>,
+  onAttempt?: (attempt: { level: number; pages: number }) => void
+): Promise<{ outcome: T; fit: FitResult }> {
+  const attempts: FitResult["attempts"] = [];
+  const tried = new Map<number, { outcome: T; pages: number }>();
+
+  const attempt = async (level: number) => {
+    const outcome = await compileAt(level);
+    const pages = countPdfPages(outcome.pdf, outcome.log);
+    attempts.push({ level, pages });
+    onAttempt?.({ level, pages });
+    tried.set(level, { outcome, pages });
+    return pages;
+  };
+  const result = (level: number) => {
+    const { outcome, pages } = tried.get(level)!;
+    return { outcome, fit: { targetPages, pages, level, parameters: FIT_LEVELS[level], attempts } };
+  };
+
+  if ((await attempt(0)) <= targetPages) return result(0);
+
+  const maxLevel = FIT_LEVELS.length - 1;
+  const tightest = await attempt(maxLevel);
+  if (tightest > targetPages) {
+    throw makeHttpError(
+      `[FIT_PAGES_UNREACHABLE] The document needs ${tightest} pages even at the tightest settings (target: ${targetPages}). Shorten the content or raise the page limit.`,
+      422,
+      undefined,
+      "FIT_PAGES_UNREACHABLE"
+    );
+  }
+
+  // Invariant: `lo` overflows, `hi` fits.
+  let lo = 0;
+  let hi = maxLevel;
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if ((await attempt(mid)) <= targetPages) hi = mid;
+    else lo = mid;
+  }
+  return result(hi);
+}
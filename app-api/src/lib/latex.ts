@@ -4,7 +4,20 @@ import os from "os";
 import path from "path";
 import { promisify } from "util";
 import { execFile } from "child_process";
-import { extractExecOutput, makeHttpError, trimHugeLog } from "./errors";
+import { makeHttpError, trimHugeLog } from "./errors";
+import { readSynctexArtifact, SYNCTEX_FLAG } from "./synctex";
+import { parseLatexDiagnostics } from "./diagnostics";
+import { defaultLatexRepairs } from "./latexRepairs";
+import {
+  DEFAULT_SANDBOX_LIMITS,
+  SANDBOX_TEX_FLAGS,
+  assertInputWithinLimits,
+  assertOutputWithinLimits,
+  assertSafeLatexSource,
+  normalizeProjectPath,
+  runSandboxedTex,
+  type SandboxLimits,
+} from "./sandbox";
 
 const execFileAsync = promisify(execFile);
 
@@ -21,6 +34,106 @@ async function commandExists(cmd: string): Promise<boolean> {
   }
 }
 
+/* -------------------------
+   engines
+------------------------- */
+
+export const TEX_ENGINES = ["pdflatex", "xelatex", "lualatex"] as const;
+export type TexEngine = (typeof TEX_ENGINES)[number];
+export const DEFAULT_TEX_ENGINE: TexEngine = "pdflatex";
+
+const LATEXMK_ENGINE_FLAGS: Record<TexEngine, string[]> = {
+  pdflatex: ["-pdf"],
+  xelatex: ["-xelatex"],
+  // --safer turns off Lua's os.execute/io.popen and friends, which
+  // -no-shell-escape doesn't cover.
+  lualatex: ["-lualatex", "-lualatex=lualatex --safer %O %S"],
+};
+
+/** Passed to the engine itself when it runs without latexmk. */
+const ENGINE_FLAGS: Record<TexEngine, string[]> = {
+  pdflatex: [],
+  xelatex: [],
+  lualatex: ["--safer"],
+};
+
+// Engines don't get uninstalled while we run, so positive lookups are memoised.
+const installedEngines = new Set<TexEngine>();
+
+async function isEngineInstalled(engine: TexEngine): Promise<boolean> {
+  if (installedEngines.has(engine)) return true;
+  const ok = await commandExists(engine);
+  if (ok) installedEngines.add(engine);
+  return ok;
+}
+
+export async function listInstalledEngines(): Promise<TexEngine[]> {
+  const out: TexEngine[] = [];
+  for (const engine of TEX_ENGINES) {
+    if (await isEngineInstalled(engine)) out.push(engine);
+  }
+  return out;
+}
+
+/** Validate a user-supplied engine name (undefined/empty -> pdflatex). */
+export function parseTexEngine(raw: unknown): TexEngine {
+  if (raw === undefined || raw === null || raw === "") return DEFAULT_TEX_ENGINE;
+  const value = String(raw).trim().toLowerCase();
+  if ((TEX_ENGINES as readonly string[]).includes(value)) return value as TexEngine;
+  throw makeHttpError(
+    `[LATEX_ENGINE_INVALID] Unknown engine "${value}". Use one of: ${TEX_ENGINES.join(", ")}.`,
+    400,
+    undefined,
+    "LATEX_ENGINE_INVALID"
+  );
+}
+
+/* -------------------------
+   bibliography
+------------------------- */
+
+export type BibliographyBackend = "bibtex" | "biber";
+
+const BIBLATEX_USEPACKAGE = /\\usepackage\s*(?:\[([^\]]*)\])?\s*\{[^}]*\bbiblatex\b[^}]*\}/;
+
+/**
+ * Decide which bibliography tool a project needs: biber for biblatex (unless it
+ * asks for a bibtex backend), bibtex for classic \bibliography{...}, or none
+ * when the project ships no .bib file.
+ */
+export function detectBibliographyBackend(files: ProjectFile[]): BibliographyBackend | null {
+  if (!files.some((f) => !f.isBinary && /\.bib$/i.test(f.path))) return null;
+
+  const sources = files
+    .filter((f) => !f.isBinary && /\.(tex|sty|cls)$/i.test(f.path))
+    .map((f) => f.content.replace(/(^|[^\\])%.*$/gm, "$1"))
+    .join("\n");
+
+  const biblatex = sources.match(BIBLATEX_USEPACKAGE);
+  if (biblatex) {
+    const backend = biblatex[1]?.match(/backend\s*=\s*(\w+)/)?.[1];
+    return backend && backend !== "biber" ? "bibtex" : "biber";
+  }
+  if (/\\bibliography\s*\{/.test(sources)) return "bibtex";
+  return null;
+}
+
+/** First bibtex/biber failure in a compile log, or null. */
+function detectBibliographyError(log: string): string | null {
+  const patterns = [
+    /I couldn't open (?:database|auxiliary) file .+/,
+    /I found no \\(?:bibdata|bibstyle|citation) command.*/,
+    /.+---line \d+ of file .+\.bib/,
+    /^ERROR - .+$/m,
+    /(?:bibtex|biber) [^:\n]+: Command for '[^']+' gave return code \d+/,
+  ];
+  for (const re of patterns) {
+    const m = log.match(re);
+    if (m) return m[0].trim();
+  }
+  return null;
+}
+
 function detectMissingStyPackage(log: string): string | null {
   if (!log) return null;
   const match = log.match(/File `([^`]+\.sty)' not found\./);
@@ -36,6 +149,179 @@ function buildMissingPackageMessage(packageFile: string): string {
   ].join(" ");
 }
 
+/* -------------------------
+   missing-package substitution
+------------------------- */
+
+/**
+ * What to do when a package is not installed: load an installed equivalent
+ * (`replaceWith`), define the commands the document uses (`stub`, keyed by
+ * command name without the backslash, value is the full definition), or both.
+ * Either way a `<name>.sty` is generated next to the main file, so the
+ * document's \usepackage line (and its options) stays as written.
+ */
+export type PackageSubstitution = {
+  replaceWith?: string;
+  stub?: Record<string, string>;
+};
+
+export type PackageSubstitutionTable = Record<string, PackageSubstitution>;
+
+/** Reported in compile responses for every package that was swapped or stubbed. */
+export type PackageSubstitutionApplied = {
+  package: string;
+  action: "replaced" | "stubbed";
+  replacement?: string;
+  commands: string[];
+};
+
+export const DEFAULT_PACKAGE_SUBSTITUTIONS: PackageSubstitutionTable = {
+  fontawesome5: {
+    stub: {
+      faCheck: "\\providecommand{\\faCheck}{\\ensuremath{\\surd}}",
+      faTimes: "\\providecommand{\\faTimes}{\\ensuremath{\\times}}",
+      faLightbulb: "\\providecommand{\\faLightbulb}{\\textbf{!}}",
+      faInfoCircle: "\\providecommand{\\faInfoCircle}{\\textbf{i}}",
+      faExclamationTriangle: "\\providecommand{\\faExclamationTriangle}{\\textbf{!}}",
+      faBook: "\\providecommand{\\faBook}{}",
+      faStar: "\\providecommand{\\faStar}{\\ensuremath{\\star}}",
+      faIcon: "\\providecommand{\\faIcon}[2][]{}",
+    },
+  },
+  fontawesome: { replaceWith: "fontawesome5" },
+  bm: {
+    replaceWith: "amsbsy",
+    stub: { bm: "\\providecommand{\\bm}[1]{\\boldsymbol{#1}}" },
+  },
+  cancel: {
+    stub: {
+      cancel: "\\providecommand{\\cancel}[1]{#1}",
+      bcancel: "\\providecommand{\\bcancel}[1]{#1}",
+      xcancel: "\\providecommand{\\xcancel}[1]{#1}",
+      cancelto: "\\providecommand{\\cancelto}[2]{#2}",
+    },
+  },
+  lipsum: {
+    stub: { lipsum: "\\NewDocumentCommand{\\lipsum}{o}{Lorem ipsum dolor sit amet, consectetuer adipiscing elit.\\par}" },
+  },
+  siunitx: {
+    stub: {
+      SI: "\\providecommand{\\SI}[2]{#1\\,#2}",
+      si: "\\providecommand{\\si}[1]{#1}",
+      num: "\\providecommand{\\num}[1]{#1}",
+      qty: "\\providecommand{\\qty}[2]{#1\\,#2}",
+      unit: "\\providecommand{\\unit}[1]{#1}",
+    },
+  },
+  mhchem: {
+    stub: { ce: "\\providecommand{\\ce}[1]{\\ensuremath{\\mathrm{#1}}}" },
+  },
+  physics: {
+    replaceWith: "amsmath",
+    stub: {
+      dv: "\\providecommand{\\dv}[2]{\\frac{d#1}{d#2}}",
+      pdv: "\\providecommand{\\pdv}[2]{\\frac{\\partial#1}{\\partial#2}}",
+      bra: "\\providecommand{\\bra}[1]{\\langle#1\\rvert}",
+      ket: "\\providecommand{\\ket}[1]{\\lvert#1\\rangle}",
+      braket: "\\providecommand{\\braket}[2]{\\langle#1\\vert#2\\rangle}",
+      abs: "\\providecommand{\\abs}[1]{\\left|#1\\right|}",
+      norm: "\\providecommand{\\norm}[1]{\\left\\|#1\\right\\|}",
+      qty: "\\providecommand{\\qty}[1]{\\left(#1\\right)}",
+    },
+  },
+  tcolorbox: {
+    stub: {
+      tcbuselibrary: "\\providecommand{\\tcbuselibrary}[1]{}",
+      tcbset: "\\providecommand{\\tcbset}[1]{}",
+      newtcolorbox: "\\NewDocumentCommand{\\newtcolorbox}{o m o o m}{\\NewDocumentEnvironment{#2}{o o}{\\par\\medskip\\noindent}{\\par\\medskip}}",
+      tcolorbox: "\\NewDocumentEnvironment{tcolorbox}{o}{\\par\\medskip\\noindent}{\\par\\medskip}",
+    },
+  },
+  titlesec: {
+    stub: {
+      titleformat: "\\NewDocumentCommand{\\titleformat}{s m o m m m m o}{}",
+      titlespacing: "\\NewDocumentCommand{\\titlespacing}{s m m m m o}{}",
+    },
+  },
+  fancyhdr: {
+    stub: {
+      fancyhf: "\\providecommand{\\fancyhf}[1]{}",
+      fancyhead: "\\providecommand{\\fancyhead}[2][]{}",
+      fancyfoot: "\\providecommand{\\fancyfoot}[2][]{}",
+      lhead: "\\providecommand{\\lhead}[1]{}",
+      chead: "\\providecommand{\\chead}[1]{}",
+      rhead: "\\providecommand{\\rhead}[1]{}",
+      lfoot: "\\providecommand{\\lfoot}[1]{}",
+      cfoot: "\\providecommand{\\cfoot}[1]{}",
+      rfoot: "\\providecommand{\\rfoot}[1]{}",
+      headrulewidth: "\\providecommand{\\headrulewidth}{0pt}",
+      footrulewidth: "\\providecommand{\\footrulewidth}{0pt}",
+      fancy: "\\def\\ps@fancy{\\ps@plain}",
+    },
+  },
+};
+
+// A document can be missing several packages; each costs one more compile.
+const MAX_PACKAGE_SUBSTITUTIONS = 4;
+
+type PackageStubFile = { name: string; content: string; applied: PackageSubstitutionApplied };
+
+function buildPackageStub(name: string, substitution: PackageSubstitution, sources: string[]): PackageStubFile {
+  const text = sources.join("\n");
+  // Only define what is used; "fancy" is used as \pagestyle{fancy}, not as a command.
+  const commands = Object.keys(substitution.stub ?? {}).filter((cmd) =>
+    new RegExp(`\\\\${cmd}(?![A-Za-z])|\\{${cmd}\\}`).test(text)
+  );
+
+  const lines = [
+    "\\NeedsTeXFormat{LaTeX2e}",
+    `\\ProvidesPackage{${name}}[BetterNotes substitute]`,
+    "\\DeclareOption*{}",
+    "\\ProcessOptions\\relax",
+  ];
+  if (substitution.replaceWith) lines.push(`\\RequirePackage{${substitution.replaceWith}}`);
+  for (const cmd of commands) lines.push(substitution.stub![cmd]);
+  lines.push("\\endinput", "");
+
+  return {
+    name,
+    content: lines.join("\n"),
+    applied: {
+      package: name,
+      action: substitution.replaceWith ? "replaced" : "stubbed",
+      ...(substitution.replaceWith ? { replacement: substitution.replaceWith } : {}),
+      commands,
+    },
+  };
+}
+
+/**
+ * Run `compile` with the stubs collected so far; when it fails on a missing
+ * package that has an entry in `table`, add a stub for it and try again.
+ * Anything else (or a package without an entry) is rethrown as is.
+ */
+async function compileWithPackageSubstitutions<T>(
+  sources: string[],
+  table: PackageSubstitutionTable,
+  compile: (stubs: PackageStubFile[]) => Promise<T>
+): Promise<{ result: T; substitutions: PackageSubstitutionApplied[] }> {
+  const stubs: PackageStubFile[] = [];
+  for (; ;) {
+    try {
+      const result = await compile(stubs);
+      return { result, substitutions: stubs.map((s) => s.applied) };
+    } catch (e: any) {
+      const missing = e?.code === "LATEX_MISSING_PACKAGE" ? detectMissingStyPackage(e?.log ?? "") : null;
+      const name = missing?.replace(/\.sty$/, "");
+      const substitution = name && Object.prototype.hasOwnProperty.call(table, name) ? table[name] : undefined;
+      if (!name || !substitution || stubs.some((s) => s.name === name) || stubs.length >= MAX_PACKAGE_SUBSTITUTIONS) {
+        throw e;
+      }
+      stubs.push(buildPackageStub(name, substitution, sources));
+    }
+  }
+}
+
 /* -------------------------
    fallbacks (compilation-safety)
 ------------------------- */
@@ -51,180 +337,250 @@ export function stripMarkdownFences(text: string): string {
   return t;
 }
 
-export function injectTheoremFallbacks(latex: string): string {
-  // IMPORTANT: we do NOT try to detect "theorem-style already exists" perfectly;
-  // we just ensure required environments exist *somehow*.
-  const envs = [
-    { name: "definition", title: "Definition" },
-    { name: "theorem", title: "Theorem" },
-    { name: "lemma", title: "Lemma" },
-    { name: "proposition", title: "Proposition" },
-    { name: "corollary", title: "Corollary" },
-    { name: "example", title: "Example" },
-    { name: "remark", title: "Remark" },
-    { name: "obs", title: "Observation" },
-  ];
+/**
+ * Run the default repair rules; `applied` lists the rules that changed something.
+ * Pass `fragment` for the files of a multi-file project.
+ */
+export function repairLatex(latex: string, opts?: { file?: string; engine?: TexEngine; fragment?: boolean }) {
+  return defaultLatexRepairs.run(latex, opts);
+}
 
-  // Check which environments are USED in the document
-  // Regex matches \begin{envname} with optional whitespace
-  const needs = envs.filter((env) => {
-    const pattern = new RegExp(`\\\\begin\\s*\\{${env.name}\\}`);
-    return pattern.test(latex);
-  });
-  if (!needs.length) return latex;
-
-  // Check which environments are already DEFINED via \newtheorem{envname}
-  const alreadyDefined = new Set<string>();
-  for (const env of needs) {
-    // Accept both \newtheorem{env} and \newtheorem*{env}
-    const defPattern = new RegExp(`\\\\newtheorem\\*?\\s*\\{${env.name}\\}`);
-    if (defPattern.test(latex)) {
-      alreadyDefined.add(env.name);
-    }
-  }
+export function applyLatexFallbacks(latex: string, opts?: { engine?: TexEngine; fragment?: boolean }): string {
+  return repairLatex(latex, opts).latex;
+}
 
-  // Filter to only environments that need to be injected
-  const toInject = needs.filter((env) => !alreadyDefined.has(env.name));
-  if (!toInject.length) return latex;
+/* -------------------------
+   compile
+------------------------- */
+
+/* -------------------------
+   progress
+------------------------- */
 
-  // Find \begin{document}
-  const beginDocMatch = latex.match(/\\begin\s*\{document\}/);
-  if (!beginDocMatch || beginDocMatch.index === undefined) return latex;
+/** Live progress of a compile, for streaming to the client. */
+export type CompileProgressEvent =
+  | { type: "pass"; tool: string; index: number }
+  | { type: "output"; stream: "stdout" | "stderr"; line: string };
 
-  // Check if amsthm is already loaded (handles \usepackage{amsthm} and \usepackage{amsmath,amsthm,...})
-  const hasAmsthm = /\\usepackage\s*(\[[^\]]*\])?\s*\{[^}]*amsthm[^}]*\}/.test(latex);
+export type CompileProgressListener = (event: CompileProgressEvent) => void;
 
-  // Build injection block with proper LaTeX formatting
-  const injectionLines: string[] = [];
-  injectionLines.push("% BN_THEOREM_FALLBACKS");
+// latexmk: "Run number 1 of rule 'pdflatex'"
+const LATEXMK_RUN = /Run number \d+ of rule '([^']+)'/;
 
-  if (!hasAmsthm) {
-    injectionLines.push("\\usepackage{amsthm}");
-  }
+/**
+ * Split process output into lines for `listener`, and turn latexmk's rule
+ * announcements (or our own direct runs, via `pass`) into numbered pass events.
+ */
+function createProgressReporter(listener: CompileProgressListener | undefined) {
+  const pending = { stdout: "", stderr: "" };
+  let passes = 0;
 
-  // Simple direct \newtheorem definitions
-  // We've already filtered out environments that are already defined
-  for (const env of toInject) {
-    injectionLines.push(`\\newtheorem{${env.name}}{${env.title}}`);
+  function pass(tool: string) {
+    listener?.({ type: "pass", tool, index: ++passes });
   }
 
-  const insertAt = beginDocMatch.index;
-  return `${latex.slice(0, insertAt)}${injectionLines.join("\n")}\n\n${latex.slice(insertAt)}`;
-}
+  function emitLine(line: string, stream: "stdout" | "stderr") {
+    const run = line.match(LATEXMK_RUN);
+    if (run) pass(run[1]);
+    listener?.({ type: "output", stream, line });
+  }
 
-export function stripDuplicateNewtheoremDefinitions(latex: string): string {
-  const seen = new Set<string>();
-
-  // Line-oriented on purpose: the common case is one-line \newtheorem declarations.
-  return latex.replace(
-    /^([ \t]*)\\newtheorem\*?\s*\{([A-Za-z@][A-Za-z0-9@:_-]*)\}([^\n]*)$/gm,
-    (full, indent: string, envName: string) => {
-      if (!envName) return full;
-      if (!seen.has(envName)) {
-        seen.add(envName);
-        return full;
+  return {
+    pass,
+    onOutput: listener
+      ? (chunk: string, stream: "stdout" | "stderr") => {
+        const lines = (pending[stream] + chunk).split(/\r?\n/);
+        pending[stream] = lines.pop() ?? "";
+        for (const line of lines) emitLine(line, stream);
       }
-      return `${indent}% BN_REMOVED_DUPLICATE_NEWTHEOREM{${envName}} ${full.trimStart()}`;
-    }
-  );
+      : undefined,
+    flush() {
+      for (const stream of ["stdout", "stderr"] as const) {
+        if (pending[stream]) emitLine(pending[stream], stream);
+        pending[stream] = "";
+      }
+    },
+  };
 }
 
-export function injectCommonMathFallbacks(latex: string): string {
-  // Find \begin{document}
-  const beginDocMatch = latex.match(/\\begin\s*\{document\}/);
-  if (!beginDocMatch || beginDocMatch.index === undefined) return latex;
-
-  const marker = "% BN_MATH_FALLBACKS";
-  if (latex.includes(marker)) return latex;
-
-  // Check for usage of custom math commands
-  const wantsAbs = /\\abs\s*\{/.test(latex);
-  const wantsNorm = /\\norm\s*\{/.test(latex);
-  const wantsColoneqq = /\\coloneqq\b/.test(latex);
-  const wantsGenerated = /\\generated\s*\{/.test(latex);
-  const wantsSlashed = /\\slashed\s*\{/.test(latex);
-
-  const defs: string[] = [marker];
-  if (wantsAbs) defs.push("\\providecommand{\\abs}[1]{\\left|#1\\right|}");
-  if (wantsNorm) defs.push("\\providecommand{\\norm}[1]{\\left\\|#1\\right\\|}");
-  if (wantsColoneqq) defs.push("\\providecommand{\\coloneqq}{\\mathrel{:=}}");
-  if (wantsGenerated) defs.push("\\providecommand{\\generated}[1]{(\\min\\{#1\\},\\max\\{#1\\})}");
-  if (wantsSlashed) defs.push("\\providecommand{\\slashed}[1]{\\not\\!#1}");
-
-  if (defs.length === 1) return latex;
-
-  const injection = `${defs.join("\n")}\n`;
-  const insertAt = beginDocMatch.index;
-  return `${latex.slice(0, insertAt)}${injection}\n${latex.slice(insertAt)}`;
+/**
+ * Run latexmk (or direct engine passes as a fallback) on `mainBasename` inside
+ * `cwd`, through the sandbox. With a bibliography backend the fallback runs
+ * engine -> bibtex/biber -> engine -> engine. Returns the accumulated output.
+ */
+async function runTexEngine(
+  mainBasename: string,
+  opts: {
+    cwd: string;
+    workDir: string;
+    timeoutMs: number;
+    limits: SandboxLimits;
+    engine: TexEngine;
+    bibliography?: BibliographyBackend | null;
+    toolingMissingMessage: string;
+    onProgress?: CompileProgressListener;
+  }
+): Promise<string> {
+  const progress = createProgressReporter(opts.onProgress);
+  try {
+    return await runTexTools(mainBasename, opts, progress);
+  } finally {
+    progress.flush();
+  }
 }
 
-export function applyLatexFallbacks(latex: string): string {
-  return injectCommonMathFallbacks(injectTheoremFallbacks(stripDuplicateNewtheoremDefinitions(latex)));
+async function runTexTools(
+  mainBasename: string,
+  opts: Parameters<typeof runTexEngine>[1],
+  progress: ReturnType<typeof createProgressReporter>
+): Promise<string> {
+  const runOpts = {
+    cwd: opts.cwd,
+    workDir: opts.workDir,
+    timeoutMs: opts.timeoutMs,
+    limits: opts.limits,
+    onOutput: progress.onOutput,
+  };
+  let log = "";
+
+  const hasLatexmk = await commandExists("latexmk");
+  const hasEngine = await isEngineInstalled(opts.engine);
+  if (!hasLatexmk && !hasEngine && opts.engine === DEFAULT_TEX_ENGINE) {
+    throw makeHttpError(opts.toolingMissingMessage, 500, undefined, "LATEX_TOOLING_MISSING");
+  }
+  if (!hasEngine) {
+    throw makeHttpError(
+      `[LATEX_ENGINE_UNAVAILABLE] ${opts.engine} is not installed on this server.`,
+      400,
+      undefined,
+      "LATEX_ENGINE_UNAVAILABLE"
+    );
+  }
+
+  if (hasLatexmk) {
+    const { output } = await runSandboxedTex(
+      "latexmk",
+      [
+        "-norc",
+        ...LATEXMK_ENGINE_FLAGS[opts.engine],
+        // latexmk picks bibtex or biber itself (from the .aux/.bcf).
+        opts.bibliography ? "-bibtex" : "-bibtex-",
+        ...SANDBOX_TEX_FLAGS,
+        SYNCTEX_FLAG,
+        "-interaction=nonstopmode",
+        "-halt-on-error",
+        "-file-line-error",
+        mainBasename,
+      ],
+      runOpts
+    );
+    return output;
+  }
+
+  const enginePass = () => {
+    progress.pass(opts.engine);
+    return runSandboxedTex(
+      opts.engine,
+      [
+        ...ENGINE_FLAGS[opts.engine],
+        ...SANDBOX_TEX_FLAGS,
+        SYNCTEX_FLAG,
+        "-interaction=nonstopmode",
+        "-halt-on-error",
+        "-file-line-error",
+        mainBasename,
+      ],
+      runOpts
+    );
+  };
+
+  const first = await enginePass();
+  log += first.output;
+  if (first.failed) return log;
+
+  if (opts.bibliography) {
+    if (!(await commandExists(opts.bibliography))) {
+      throw makeHttpError(
+        `[LATEX_TOOLING_MISSING] ${opts.bibliography} is needed for the bibliography but is not installed.`,
+        500,
+        log,
+        "LATEX_TOOLING_MISSING"
+      );
+    }
+    progress.pass(opts.bibliography);
+    const bib = await runSandboxedTex(opts.bibliography, [mainBasename.replace(/\.tex$/, "")], runOpts);
+    log += bib.output;
+    if (bib.failed) return log;
+  }
+
+  for (let i = 0; i < (opts.bibliography ? 2 : 1); i++) {
+    const { output, failed } = await enginePass();
+    log += output;
+    if (failed) break;
+  }
+  return log;
 }
 
-/* -------------------------
-   compile
-------------------------- */
+type CompileOptions = {
+  timeoutMs: number;
+  limits?: SandboxLimits;
+  engine?: TexEngine;
+  onProgress?: CompileProgressListener;
+  /** Defaults to DEFAULT_PACKAGE_SUBSTITUTIONS; pass {} to report missing packages as errors. */
+  packageSubstitutions?: PackageSubstitutionTable;
+};
 
 export async function compileLatexToPdf(
   latexSourceRaw: string,
-  opts: { timeoutMs: number }
-): Promise<{ pdf: Buffer; log: string; latexPatched: string }> {
-  const latexSource = applyLatexFallbacks(latexSourceRaw);
+  opts: CompileOptions
+): Promise<{
+  pdf: Buffer;
+  log: string;
+  latexPatched: string;
+  synctex: Buffer | null;
+  substitutions: PackageSubstitutionApplied[];
+}> {
+  const limits = opts.limits ?? DEFAULT_SANDBOX_LIMITS;
+  assertInputWithinLimits([{ content: latexSourceRaw }], limits);
+  assertSafeLatexSource(latexSourceRaw, "main.tex");
+
+  const latexSource = applyLatexFallbacks(latexSourceRaw, { engine: opts.engine ?? DEFAULT_TEX_ENGINE });
+  const { result, substitutions } = await compileWithPackageSubstitutions(
+    [latexSource],
+    opts.packageSubstitutions ?? DEFAULT_PACKAGE_SUBSTITUTIONS,
+    (stubs) => compileLatexOnce(latexSource, stubs, { ...opts, limits })
+  );
+  return { ...result, latexPatched: latexSource, substitutions };
+}
 
+async function compileLatexOnce(
+  latexSource: string,
+  stubs: PackageStubFile[],
+  opts: CompileOptions & { limits: SandboxLimits }
+): Promise<{ pdf: Buffer; log: string; synctex: Buffer | null }> {
+  const { limits } = opts;
   const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "betternotes-tex-"));
   const texPath = path.join(workDir, "main.tex");
   const pdfPath = path.join(workDir, "main.pdf");
   const texLogPath = path.join(workDir, "main.log");
 
   await fs.promises.writeFile(texPath, latexSource, "utf8");
+  for (const stub of stubs) {
+    await fs.promises.writeFile(path.join(workDir, `${stub.name}.sty`), stub.content, "utf8");
+  }
 
   let log = "";
   try {
-    const hasLatexmk = await commandExists("latexmk");
-
-    if (hasLatexmk) {
-      try {
-        const { stdout, stderr } = await execFileAsync(
-          "latexmk",
-          ["-pdf", "-bibtex-", "-interaction=nonstopmode", "-halt-on-error", "-file-line-error", "main.tex"],
-          { cwd: workDir, timeout: opts.timeoutMs, maxBuffer: 20 * 1024 * 1024 }
-        );
-        log += stdout ?? "";
-        log += stderr ?? "";
-      } catch (e: any) {
-        const extra = extractExecOutput(e);
-        log += extra.stdout ?? "";
-        log += extra.stderr ?? "";
-      }
-    } else {
-      const hasPdflatex = await commandExists("pdflatex");
-      if (!hasPdflatex) {
-        throw makeHttpError(
-          "[LATEX_TOOLING_MISSING] Neither latexmk nor pdflatex found in PATH. Install TeX Live or use the Docker image.",
-          500,
-          undefined,
-          "LATEX_TOOLING_MISSING"
-        );
-      }
-
-      for (let i = 0; i < 2; i++) {
-        try {
-          const { stdout, stderr } = await execFileAsync(
-            "pdflatex",
-            ["-interaction=nonstopmode", "-halt-on-error", "-file-line-error", "main.tex"],
-            { cwd: workDir, timeout: opts.timeoutMs, maxBuffer: 20 * 1024 * 1024 }
-          );
-          log += stdout ?? "";
-          log += stderr ?? "";
-        } catch (e: any) {
-          const extra = extractExecOutput(e);
-          log += extra.stdout ?? "";
-          log += extra.stderr ?? "";
-          break;
-        }
-      }
-    }
+    log += await runTexEngine("main.tex", {
+      cwd: workDir,
+      workDir,
+      timeoutMs: opts.timeoutMs,
+      limits,
+      engine: opts.engine ?? DEFAULT_TEX_ENGINE,
+      onProgress: opts.onProgress,
+      toolingMissingMessage:
+        "[LATEX_TOOLING_MISSING] Neither latexmk nor pdflatex found in PATH. Install TeX Live or use the Docker image.",
+    });
 
     if (!fs.existsSync(pdfPath)) {
       if (fs.existsSync(texLogPath)) {
@@ -252,13 +608,15 @@ export async function compileLatexToPdf(
     }
 
     const pdf = await fs.promises.readFile(pdfPath);
+    assertOutputWithinLimits(pdf, limits, trimHugeLog(log));
 
     if (fs.existsSync(texLogPath)) {
       const mainLog = await fs.promises.readFile(texLogPath, "utf8");
       log += "\n\n----- main.log -----\n" + mainLog;
     }
 
-    return { pdf, log: trimHugeLog(log), latexPatched: latexSource };
+    const synctex = await readSynctexArtifact(workDir, "main.tex", workDir);
+    return { pdf, log: trimHugeLog(log), synctex };
   } finally {
     try {
       await fs.promises.rm(workDir, { recursive: true, force: true });
@@ -277,19 +635,80 @@ export interface ProjectFile {
   isBinary?: boolean;
 }
 
+function projectFileBytes(file: ProjectFile, engine: TexEngine): Buffer {
+  if (file.isBinary) return Buffer.from(file.content, "base64");
+  // Text files — apply fallbacks only to .tex files
+  const content = file.path.endsWith(".tex") ? applyLatexFallbacks(file.content, { engine, fragment: true }) : file.content;
+  return Buffer.from(content, "utf8");
+}
+
+// Written into persistent build directories; user paths can't start with "." so it can't collide.
+const BUILD_MANIFEST = ".betternotes-build.json";
+
+type BuildManifest = { engine: TexEngine; mainFile: string; files: string[] };
+
+/**
+ * Bring a persistent build directory in line with `files`: rewrite only files
+ * whose bytes changed (so latexmk sees unchanged inputs as up to date), delete
+ * sources that left the project, and start clean if the engine or main file
+ * changed. Auxiliary files (.aux, .toc, .fdb_latexmk, ...) are kept.
+ */
+async function syncBuildDir(workDir: string, files: ProjectFile[], manifest: BuildManifest): Promise<void> {
+  const manifestPath = path.join(workDir, BUILD_MANIFEST);
+  const previous: BuildManifest | null = await fs.promises
+    .readFile(manifestPath, "utf8")
+    .then((raw) => JSON.parse(raw) as BuildManifest)
+    .catch(() => null);
+
+  if (previous && (previous.engine !== manifest.engine || previous.mainFile !== manifest.mainFile)) {
+    for (const entry of await fs.promises.readdir(workDir)) {
+      await fs.promises.rm(path.join(workDir, entry), { recursive: true, force: true });
+    }
+  } else if (previous) {
+    const keep = new Set(manifest.files);
+    for (const stale of previous.files.filter((f) => !keep.has(f))) {
+      await fs.promises.rm(path.join(workDir, stale), { force: true });
+    }
+  }
+
+  for (const file of files) {
+    const absPath = path.join(workDir, file.path);
+    const bytes = projectFileBytes(file, manifest.engine);
+    const existing = await fs.promises.readFile(absPath).catch(() => null);
+    if (existing && existing.equals(bytes)) continue;
+    await fs.promises.mkdir(path.dirname(absPath), { recursive: true });
+    await fs.promises.writeFile(absPath, bytes);
+  }
+
+  await fs.promises.writeFile(manifestPath, JSON.stringify(manifest), "utf8");
+}
+
 /**
  * Compile a multi-file LaTeX project.
- * Writes all files to a temp directory preserving subdirectory structure,
- * then runs latexmk/pdflatex on the specified main file.
+ * Validates and normalises every path, writes all files to a temp directory
+ * preserving subdirectory structure, then runs latexmk (or the engine directly)
+ * on the specified main file inside the sandbox.
+ *
+ * With `buildDir` (a persistent per-project directory, see buildDirs.ts) the
+ * compile is incremental: only changed files are rewritten and latexmk reuses
+ * the previous run's auxiliary files. The caller owns that directory.
  */
 export async function compileMultiFileProject(
-  files: ProjectFile[],
-  mainFile: string,
-  opts: { timeoutMs: number }
-): Promise<{ pdf: Buffer; log: string }> {
-  if (!files.length) {
+  filesRaw: ProjectFile[],
+  mainFileRaw: string,
+  opts: CompileOptions & { buildDir?: string }
+): Promise<{ pdf: Buffer; log: string; synctex: Buffer | null; substitutions: PackageSubstitutionApplied[] }> {
+  const limits = opts.limits ?? DEFAULT_SANDBOX_LIMITS;
+  if (!filesRaw.length) {
     throw makeHttpError("No files provided.", 400, undefined, "NO_FILES");
   }
+  assertInputWithinLimits(filesRaw, limits);
+
+  const files = filesRaw.map((f) => ({ ...f, path: normalizeProjectPath(f.path) }));
+  const mainFile = normalizeProjectPath(mainFileRaw);
+  if (!mainFile.endsWith(".tex")) {
+    throw makeHttpError(`Main file "${mainFile}" must be a .tex file.`, 400, undefined, "LATEX_PATH_REJECTED");
+  }
   if (!files.some((f) => f.path === mainFile)) {
     throw makeHttpError(
       `Main file "${mainFile}" not found in provided files.`,
@@ -298,89 +717,93 @@ export async function compileMultiFileProject(
       "MAIN_FILE_NOT_FOUND"
     );
   }
+  for (const file of files) {
+    if (!file.isBinary && /\.(tex|sty|cls|bib)$/i.test(file.path)) assertSafeLatexSource(file.content, file.path);
+  }
+
+  // Stubs go next to the main file, where the engine looks first.
+  const stubDir = path.posix.dirname(mainFile);
+  const { result, substitutions } = await compileWithPackageSubstitutions(
+    files.filter((f) => !f.isBinary && /\.(tex|sty|cls)$/i.test(f.path)).map((f) => f.content),
+    opts.packageSubstitutions ?? DEFAULT_PACKAGE_SUBSTITUTIONS,
+    (stubs) =>
+      compileProjectOnce(
+        [
+          ...files,
+          ...stubs.map((s) => ({ path: path.posix.join(stubDir, `${s.name}.sty`), content: s.content })),
+        ],
+        mainFile,
+        { ...opts, limits }
+      )
+  );
+  return { ...result, substitutions };
+}
 
-  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "betternotes-project-"));
+async function compileProjectOnce(
+  files: ProjectFile[],
+  mainFile: string,
+  opts: CompileOptions & { limits: SandboxLimits; buildDir?: string }
+): Promise<{ pdf: Buffer; log: string; synctex: Buffer | null }> {
+  const { limits } = opts;
+  const engine = opts.engine ?? DEFAULT_TEX_ENGINE;
+  const workDir = opts.buildDir ?? (await fs.promises.mkdtemp(path.join(os.tmpdir(), "betternotes-project-")));
   const pdfName = mainFile.replace(/\.tex$/, ".pdf");
   const logName = mainFile.replace(/\.tex$/, ".log");
+  const mainDir = path.dirname(path.join(workDir, mainFile));
+  const pdfPath = path.join(mainDir, path.basename(pdfName));
+  const texLogPath = path.join(mainDir, path.basename(logName));
+  const blgPath = path.join(mainDir, path.basename(mainFile).replace(/\.tex$/, ".blg"));
 
   try {
-    // Write all files to the temp directory
-    for (const file of files) {
-      const absPath = path.join(workDir, file.path);
-      const dir = path.dirname(absPath);
-      await fs.promises.mkdir(dir, { recursive: true });
-
-      if (file.isBinary) {
-        // Binary files are base64-encoded
-        const buf = Buffer.from(file.content, "base64");
-        await fs.promises.writeFile(absPath, buf);
-      } else {
-        // Text files — apply fallbacks only to .tex files
-        let content = file.content;
-        if (file.path.endsWith(".tex")) {
-          content = applyLatexFallbacks(content);
-        }
-        await fs.promises.writeFile(absPath, content, "utf8");
+    if (opts.buildDir) {
+      await syncBuildDir(workDir, files, { engine, mainFile, files: files.map((f) => f.path) });
+      // Never hand back the previous run's PDF if this one fails.
+      await fs.promises.rm(pdfPath, { force: true });
+    } else {
+      // Write all files to the temp directory
+      for (const file of files) {
+        const absPath = path.join(workDir, file.path);
+        await fs.promises.mkdir(path.dirname(absPath), { recursive: true });
+        await fs.promises.writeFile(absPath, projectFileBytes(file, engine));
       }
     }
 
     // Compile
-    let log = "";
-    const hasLatexmk = await commandExists("latexmk");
-    const mainDir = path.dirname(path.join(workDir, mainFile));
     const mainBasename = path.basename(mainFile);
-
-    if (hasLatexmk) {
-      try {
-        const { stdout, stderr } = await execFileAsync(
-          "latexmk",
-          ["-pdf", "-bibtex-", "-interaction=nonstopmode", "-halt-on-error", "-file-line-error", mainBasename],
-          { cwd: mainDir, timeout: opts.timeoutMs, maxBuffer: 20 * 1024 * 1024 }
-        );
-        log += stdout ?? "";
-        log += stderr ?? "";
-      } catch (e: any) {
-        const extra = extractExecOutput(e);
-        log += extra.stdout ?? "";
-        log += extra.stderr ?? "";
-      }
-    } else {
-      const hasPdflatex = await commandExists("pdflatex");
-      if (!hasPdflatex) {
-        throw makeHttpError(
-          "[LATEX_TOOLING_MISSING] Neither latexmk nor pdflatex found.",
-          500,
-          undefined,
-          "LATEX_TOOLING_MISSING"
-        );
-      }
-
-      for (let i = 0; i < 2; i++) {
-        try {
-          const { stdout, stderr } = await execFileAsync(
-            "pdflatex",
-            ["-interaction=nonstopmode", "-halt-on-error", "-file-line-error", mainBasename],
-            { cwd: mainDir, timeout: opts.timeoutMs, maxBuffer: 20 * 1024 * 1024 }
-          );
-          log += stdout ?? "";
-          log += stderr ?? "";
-        } catch (e: any) {
-          const extra = extractExecOutput(e);
-          log += extra.stdout ?? "";
-          log += extra.stderr ?? "";
-          break;
-        }
-      }
+    const bibliography = detectBibliographyBackend(files);
+    const startedAt = Date.now();
+
+    let log = await runTexEngine(mainBasename, {
+      cwd: mainDir,
+      workDir,
+      timeoutMs: opts.timeoutMs,
+      limits,
+      engine,
+      bibliography,
+      onProgress: opts.onProgress,
+      toolingMissingMessage: "[LATEX_TOOLING_MISSING] Neither latexmk nor pdflatex found.",
+    });
+
+    // In a warm build dir the .blg may be left over from a run where bibtex/biber was skipped.
+    const blgIsFresh =
+      fs.existsSync(blgPath) && Math.floor(fs.statSync(blgPath).mtimeMs / 1000) >= Math.floor(startedAt / 1000);
+    if (bibliography && blgIsFresh) {
+      log += `\n\n----- ${path.basename(blgPath)} -----\n`;
+      log += await fs.promises.readFile(blgPath, "utf8");
     }
 
-    const pdfPath = path.join(mainDir, path.basename(pdfName));
-    const texLogPath = path.join(mainDir, path.basename(logName));
+    // bibtex/biber complaints (e.g. "I found no \citation commands" for a .bib nothing
+    // cites yet) are a warning when a PDF came out.
+    const bibliographyError = bibliography ? detectBibliographyError(log) : null;
+    const pdfExists = fs.existsSync(pdfPath);
+    if (bibliographyError && pdfExists) {
+      // Picked up by parseLatexDiagnostics as a bibtex-style warning.
+      log += `\n\n----- ${bibliography} -----\nWarning--${bibliography} failed: ${bibliographyError}\n`;
+    }
 
-    if (!fs.existsSync(pdfPath)) {
-      if (fs.existsSync(texLogPath)) {
-        log += "\n\n----- main.log -----\n";
-        log += await fs.promises.readFile(texLogPath, "utf8");
-      }
+    if (!pdfExists) {
+      const texLog = fs.existsSync(texLogPath) ? await fs.promises.readFile(texLogPath, "utf8") : "";
+      if (texLog) log += "\n\n----- main.log -----\n" + texLog;
       const trimmed = trimHugeLog(log);
       const missingPackage = detectMissingStyPackage(trimmed);
       if (missingPackage) {
@@ -391,6 +814,17 @@ export async function compileMultiFileProject(
           "LATEX_MISSING_PACKAGE"
         );
       }
+      // When the engine aborts, bibtex/biber usually complain too (the .aux never got
+      // its citations), so they're only to blame if TeX's own log shows no error.
+      const texFailed = parseLatexDiagnostics(texLog).some((d) => d.severity === "error");
+      if (bibliographyError && !texFailed) {
+        throw makeHttpError(
+          `[LATEX_BIBLIOGRAPHY_FAILED] ${bibliography} failed: ${bibliographyError}`,
+          422,
+          trimmed,
+          "LATEX_BIBLIOGRAPHY_FAILED"
+        );
+      }
       const isTimeout = trimmed.includes("Timeout") || trimmed.includes("ETIMEDOUT");
       throw makeHttpError(
         "Multi-file LaTeX compilation failed.",
@@ -401,16 +835,20 @@ export async function compileMultiFileProject(
     }
 
     const pdf = await fs.promises.readFile(pdfPath);
+    assertOutputWithinLimits(pdf, limits, trimHugeLog(log));
 
     if (fs.existsSync(texLogPath)) {
       const mainLog = await fs.promises.readFile(texLogPath, "utf8");
       log += "\n\n----- main.log -----\n" + mainLog;
     }
 
-    return { pdf, log: trimHugeLog(log) };
+    const synctex = await readSynctexArtifact(mainDir, mainBasename, workDir);
+    return { pdf, log: trimHugeLog(log), synctex };
   } finally {
-    try {
-      await fs.promises.rm(workDir, { recursive: true, force: true });
-    } catch { }
+    if (!opts.buildDir) {
+      try {
+        await fs.promises.rm(workDir, { recursive: true, force: true });
+      } catch { }
+    }
   }
 }
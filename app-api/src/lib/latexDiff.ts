@@ -0,0 +1,110 @@
+// app-api/src/lib/latexDiff.ts
+
+export type LatexDiff = {
+  /** Unified diff (3 lines of context), empty when nothing changed. */
+  unified: string;
+  added: number;
+  removed: number;
+};
+
+type DiffOp = { kind: " " | "-" | "+"; line: string };
+
+// Above this many LCS cells the changed region is reported as one replace block.
+const MAX_LCS_CELLS = 4_000_000;
+const CONTEXT_LINES = 3;
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map((line) => ({ kind: " ", line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    for (const line of midA) ops.push({ kind: "-", line });
+    for (const line of midB) ops.push({ kind: "+", line });
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const cols = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        ops.push({ kind: " ", line: midA[i] });
+        i++;
+        j++;
+      } else if (i < midA.length && (j === midB.length || lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1])) {
+        ops.push({ kind: "-", line: midA[i++] });
+      } else {
+        ops.push({ kind: "+", line: midB[j++] });
+      }
+    }
+  }
+
+  for (const line of a.slice(endA)) ops.push({ kind: " ", line });
+  return ops;
+}
+
+/**
+ * Line diff of two LaTeX sources in unified format, so a client can show what
+ * an automatic fix changed without shipping both full documents around.
+ */
+export function diffLatex(before: string, after: string, fileName = "main.tex"): LatexDiff {
+  const ops = diffLines(before.split("\n"), after.split("\n"));
+  const added = ops.filter((o) => o.kind === "+").length;
+  const removed = ops.filter((o) => o.kind === "-").length;
+  if (!added && !removed) return { unified: "", added: 0, removed: 0 };
+
+  // Group changes into hunks with CONTEXT_LINES of unchanged lines around them.
+  const out = [`--- a/${fileName}`, `+++ b/${fileName}`];
+  let k = 0;
+  let lineA = 1;
+  let lineB = 1;
+  while (k < ops.length) {
+    if (ops[k].kind === " ") {
+      k++;
+      lineA++;
+      lineB++;
+      continue;
+    }
+
+    const hunkStart = Math.max(0, k - CONTEXT_LINES);
+    let hunkEnd = k;
+    let lastChange = k;
+    while (hunkEnd < ops.length && hunkEnd - lastChange <= CONTEXT_LINES * 2) {
+      if (ops[hunkEnd].kind !== " ") lastChange = hunkEnd;
+      hunkEnd++;
+    }
+    hunkEnd = Math.min(ops.length, lastChange + CONTEXT_LINES + 1);
+
+    const lead = k - hunkStart;
+    const hunk = ops.slice(hunkStart, hunkEnd);
+    const countA = hunk.filter((o) => o.kind !== "+").length;
+    const countB = hunk.filter((o) => o.kind !== "-").length;
+    out.push(`@@ -${lineA - lead},${countA} +${lineB - lead},${countB} @@`);
+    for (const o of hunk) out.push(`${o.kind}${o.line}`);
+
+    for (let m = k; m < hunkEnd; m++) {
+      if (ops[m].kind !== "+") lineA++;
+      if (ops[m].kind !== "-") lineB++;
+    }
+    k = hunkEnd;
+  }
+
+  return { unified: out.join("\n"), added, removed };
+}
@@ -0,0 +1,720 @@
+// app-api/src/lib/latexDocument.ts
+import path from "path";
+import { escapeXml, texToMathML } from "./mathml";
+import type { ProjectFile } from "./latex";
+
+/*
+ * Built-in LaTeX reader used when pandoc isn't installed. It understands the
+ * subset our templates and generated notes use (sectioning, lists, display
+ * math, tables, theorem/box environments, basic text formatting) and turns it
+ * into a small document tree that the Markdown, HTML and DOCX writers share.
+ * Unknown commands keep their argument text; unknown environments become boxes.
+ */
+
+export type Inline =
+  | { type: "text"; text: string }
+  | { type: "bold"; children: Inline[] }
+  | { type: "italic"; children: Inline[] }
+  | { type: "code"; text: string }
+  | { type: "math"; tex: string }
+  | { type: "link"; url: string; children: Inline[] }
+  | { type: "break" };
+
+export type Block =
+  | { type: "heading"; level: number; children: Inline[] }
+  | { type: "paragraph"; children: Inline[] }
+  | { type: "list"; ordered: boolean; items: Block[][] }
+  | { type: "math"; tex: string }
+  | { type: "code"; text: string }
+  | { type: "table"; rows: Inline[][][] }
+  | { type: "box"; title: string; children: Block[] };
+
+export type LatexDocument = { title: string; author: string; blocks: Block[] };
+
+const MAX_INPUT_DEPTH = 10;
+
+const HEADING_LEVELS: Record<string, number> = {
+  part: 1, chapter: 1, section: 1, subsection: 2, subsubsection: 3, paragraph: 4, subparagraph: 4,
+};
+
+const LIST_ENVIRONMENTS = new Set(["itemize", "enumerate", "description", "compactitem", "compactenum"]);
+const MATH_ENVIRONMENTS = new Set([
+  "equation", "equation*", "align", "align*", "gather", "gather*", "multline", "multline*",
+  "eqnarray", "eqnarray*", "displaymath", "flalign", "flalign*", "alignat", "alignat*",
+]);
+const CODE_ENVIRONMENTS = new Set(["verbatim", "verbatim*", "lstlisting", "minted", "Verbatim"]);
+const TRANSPARENT_ENVIRONMENTS = new Set([
+  "center", "flushleft", "flushright", "minipage", "multicols", "multicols*", "small", "footnotesize",
+  "large", "Large", "figure", "figure*", "table", "table*", "quote", "quotation", "document", "spacing",
+  "adjustbox", "landscape", "samepage", "wrapfigure",
+]);
+const IGNORED_ENVIRONMENTS = new Set(["tikzpicture", "thebibliography", "titlepage", "comment"]);
+const TABLE_ENVIRONMENTS = new Set(["tabular", "tabular*", "tabularx", "longtable", "array"]);
+
+/** Commands removed together with their (brace) arguments. */
+const DROPPED_COMMANDS: Record<string, number> = {
+  label: 1, vspace: 1, "vspace*": 1, hspace: 1, "hspace*": 1, setlength: 2, addtolength: 2,
+  pagestyle: 1, thispagestyle: 1, includegraphics: 1, newcommand: 2, renewcommand: 2,
+  "newcommand*": 2, setcounter: 2, addtocounter: 2, bibliographystyle: 1, bibliography: 1,
+  usepackage: 1, geometry: 1, definecolor: 3, newtheorem: 2, "newtheorem*": 2, hypersetup: 1,
+  graphicspath: 1, index: 1, phantomsection: 0, tableofcontents: 0, listoffigures: 0,
+  listoftables: 0, newpage: 0, clearpage: 0, cleardoublepage: 0, pagebreak: 0, noindent: 0,
+  centering: 0, raggedright: 0, raggedleft: 0, medskip: 0, bigskip: 0, smallskip: 0, hfill: 0,
+  vfill: 0, columnbreak: 0, hrule: 0, hline: 0, toprule: 0, midrule: 0, bottomrule: 0, par: 0,
+  normalsize: 0, small: 0, footnotesize: 0, large: 0, Large: 0, LARGE: 0, huge: 0, Huge: 0,
+  bfseries: 0, itshape: 0, ttfamily: 0, selectfont: 0, maketitle: 0, nocite: 1,
+};
+
+const TEXT_SYMBOLS: Record<string, string> = {
+  "&": "&", "%": "%", $: "$", "#": "#", _: "_", "{": "{", "}": "}", " ": " ", ",": " ",
+  ldots: "…", dots: "…", textbackslash: "\\", LaTeX: "LaTeX", TeX: "TeX", today: "",
+  textendash: "–", textemdash: "—", textbullet: "•", copyright: "©", textregistered: "®",
+  checkmark: "✓", ss: "ß", quad: " ", qquad: "  ", enspace: " ", textasciitilde: "~",
+  textdegree: "°", S: "§", P: "¶", dag: "†", ddag: "‡", euro: "€", pounds: "£",
+};
+
+const BOLD_COMMANDS = new Set(["textbf", "textsc", "mathbf"]);
+const ITALIC_COMMANDS = new Set(["textit", "emph", "textsl"]);
+const CODE_COMMANDS = new Set(["texttt", "path"]);
+
+/* -------------------------
+   source preparation
+------------------------- */
+
+function stripComments(src: string): string {
+  return src.replace(/(^|[^\\])%.*$/gm, "$1");
+}
+
+/** Inline \input / \include / \subfile targets from the project files. */
+function resolveInputs(src: string, byPath: Map<string, string>, fromDir: string, depth: number): string {
+  if (depth > MAX_INPUT_DEPTH) return src;
+  return src.replace(/\\(?:input|include|subfile)\s*\{([^}]+)\}/g, (whole, target: string) => {
+    const name = target.trim();
+    const candidates = [name, `${name}.tex`].flatMap((c) => [path.posix.join(fromDir, c), c]);
+    const hit = candidates.find((c) => byPath.has(path.posix.normalize(c)));
+    if (!hit) return "";
+    const key = path.posix.normalize(hit);
+    return resolveInputs(stripComments(byPath.get(key)!), byPath, path.posix.dirname(key), depth + 1);
+  });
+}
+
+/* -------------------------
+   scanning helpers
+------------------------- */
+
+/** Index just past the group opening at `open` (which must be "{"), or -1. */
+function matchBrace(src: string, open: number, openCh = "{", closeCh = "}"): number {
+  let depth = 0;
+  for (let i = open; i < src.length; i++) {
+    const c = src[i];
+    if (c === "\\") {
+      i++;
+      continue;
+    }
+    if (c === openCh) depth++;
+    else if (c === closeCh && --depth === 0) return i + 1;
+  }
+  return -1;
+}
+
+/** Read `{...}` at `pos` (after whitespace). Returns the inner text and the position after it. */
+export function readGroup(src: string, pos: number): { text: string; end: number } | null {
+  let i = pos;
+  while (i < src.length && /[ \t\n]/.test(src[i])) i++;
+  if (src[i] !== "{") return null;
+  const end = matchBrace(src, i);
+  if (end < 0) return null;
+  return { text: src.slice(i + 1, end - 1), end };
+}
+
+function readOptionalArg(src: string, pos: number): { text: string; end: number } | null {
+  let i = pos;
+  while (i < src.length && /[ \t]/.test(src[i])) i++;
+  if (src[i] !== "[") return null;
+  const end = matchBrace(src, i, "[", "]");
+  if (end < 0) return null;
+  return { text: src.slice(i + 1, end - 1), end };
+}
+
+/** Position of the matching \end{name} for an environment whose body starts at `from`. */
+function findEnvironmentEnd(src: string, name: string, from: number): { bodyEnd: number; end: number } | null {
+  const escaped = name.replace(/[*]/g, "\\*");
+  const re = new RegExp(`\\\\(begin|end)\\s*\\{${escaped}\\}`, "g");
+  re.lastIndex = from;
+  let depth = 1;
+  for (let m = re.exec(src); m; m = re.exec(src)) {
+    depth += m[1] === "begin" ? 1 : -1;
+    if (depth === 0) return { bodyEnd: m.index, end: m.index + m[0].length };
+  }
+  return null;
+}
+
+/** Split on a separator that is outside braces and nested environments. */
+function splitTopLevel(src: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let envDepth = 0;
+  let start = 0;
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (c === "\\") {
+      const rest = src.slice(i);
+      if (/^\\begin\s*\{/.test(rest)) envDepth++;
+      else if (/^\\end\s*\{/.test(rest)) envDepth--;
+      else if (depth === 0 && envDepth === 0) {
+        const m = rest.match(separator);
+        if (m && m.index === 0) {
+          parts.push(src.slice(start, i));
+          i += m[0].length - 1;
+          start = i + 1;
+          continue;
+        }
+      }
+      i++;
+      continue;
+    }
+    if (c === "{") depth++;
+    else if (c === "}") depth--;
+    else if (depth === 0 && envDepth === 0) {
+      const m = src.slice(i).match(separator);
+      if (m && m.index === 0) {
+        parts.push(src.slice(start, i));
+        i += m[0].length - 1;
+        start = i + 1;
+      }
+    }
+  }
+  parts.push(src.slice(start));
+  return parts;
+}
+
+function titleCase(name: string): string {
+  const base = name.replace(/\*$/, "");
+  return base.charAt(0).toUpperCase() + base.slice(1);
+}
+
+/* -------------------------
+   inline parsing
+------------------------- */
+
+function pushText(out: Inline[], text: string) {
+  if (!text) return;
+  const last = out[out.length - 1];
+  if (last?.type === "text") last.text += text;
+  else out.push({ type: "text", text });
+}
+
+export function parseInlines(src: string): Inline[] {
+  const out: Inline[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    const rest = src.slice(i);
+
+    if (c === "$") {
+      const display = rest.startsWith("$$");
+      const close = src.indexOf(display ? "$$" : "$", i + (display ? 2 : 1));
+      if (close > 0) {
+        out.push({ type: "math", tex: src.slice(i + (display ? 2 : 1), close).trim() });
+        i = close + (display ? 2 : 1);
+        continue;
+      }
+    }
+    if (rest.startsWith("\\(")) {
+      const close = src.indexOf("\\)", i + 2);
+      if (close > 0) {
+        out.push({ type: "math", tex: src.slice(i + 2, close).trim() });
+        i = close + 2;
+        continue;
+      }
+    }
+    if (rest.startsWith("\\\\")) {
+      out.push({ type: "break" });
+      i += 2;
+      const opt = readOptionalArg(src, i);
+      if (opt) i = opt.end;
+      continue;
+    }
+    if (c === "\\") {
+      const m = rest.match(/^\\([A-Za-z]+\*?|.)/);
+      const name = m ? m[1] : "";
+      let pos = i + 1 + name.length;
+
+      if (name in TEXT_SYMBOLS && !/^[A-Za-z]/.test(name)) {
+        pushText(out, TEXT_SYMBOLS[name]);
+        i = pos;
+        continue;
+      }
+      if (name === "verb") {
+        const delim = src[pos];
+        const close = src.indexOf(delim, pos + 1);
+        if (delim && close > 0) {
+          out.push({ type: "code", text: src.slice(pos + 1, close) });
+          i = close + 1;
+          continue;
+        }
+      }
+
+      // Swallow the space that terminates a control word.
+      if (/^[A-Za-z]/.test(name) && src[pos] === " " && !readGroup(src, pos)) pos++;
+
+      if (name in TEXT_SYMBOLS) {
+        pushText(out, TEXT_SYMBOLS[name]);
+        i = pos;
+        continue;
+      }
+      if (name in DROPPED_COMMANDS) {
+        for (let n = 0; n < DROPPED_COMMANDS[name]; n++) {
+          const opt = readOptionalArg(src, pos);
+          if (opt) pos = opt.end;
+          const group = readGroup(src, pos);
+          if (group) pos = group.end;
+        }
+        i = pos;
+        continue;
+      }
+
+      const opt = readOptionalArg(src, pos);
+      const group = readGroup(src, opt ? opt.end : pos);
+      if (!group) {
+        i = pos;
+        continue;
+      }
+      let end = group.end;
+
+      if (BOLD_COMMANDS.has(name)) out.push({ type: "bold", children: parseInlines(group.text) });
+      else if (ITALIC_COMMANDS.has(name)) out.push({ type: "italic", children: parseInlines(group.text) });
+      else if (CODE_COMMANDS.has(name)) out.push({ type: "code", text: group.text });
+      else if (name === "url") out.push({ type: "link", url: group.text, children: [{ type: "text", text: group.text }] });
+      else if (name === "href") {
+        const label = readGroup(src, end);
+        if (label) end = label.end;
+        out.push({ type: "link", url: group.text, children: parseInlines(label?.text ?? group.text) });
+      } else if (name === "textcolor" || name === "colorbox" || name === "fcolorbox" || name === "highlight") {
+        // The first argument is the colour (two for \fcolorbox); the last is the text.
+        let text = readGroup(src, end);
+        if (name === "fcolorbox" && text) {
+          end = text.end;
+          text = readGroup(src, end);
+        }
+        if (text) end = text.end;
+        out.push(...parseInlines(text?.text ?? ""));
+      } else if (name === "footnote") {
+        pushText(out, " (");
+        out.push(...parseInlines(group.text));
+        pushText(out, ")");
+      } else if (name === "cite" || name === "citep" || name === "citet") {
+        pushText(out, `[${group.text}]`);
+      } else if (name === "ref" || name === "eqref" || name === "autoref" || name === "pageref") {
+        // Cross references need the .aux file; keep the label text so nothing silently disappears.
+        pushText(out, name === "eqref" ? `(${group.text})` : group.text);
+      } else {
+        out.push(...parseInlines(group.text));
+      }
+      i = end;
+      continue;
+    }
+    if (c === "{" || c === "}") {
+      i++;
+      continue;
+    }
+    if (c === "~") {
+      pushText(out, " ");
+      i++;
+      continue;
+    }
+    if (rest.startsWith("---")) {
+      pushText(out, "—");
+      i += 3;
+      continue;
+    }
+    if (rest.startsWith("--")) {
+      pushText(out, "–");
+      i += 2;
+      continue;
+    }
+    if (rest.startsWith("``")) {
+      pushText(out, "“");
+      i += 2;
+      continue;
+    }
+    if (rest.startsWith("''")) {
+      pushText(out, "”");
+      i += 2;
+      continue;
+    }
+    pushText(out, /\s/.test(c) ? " " : c);
+    i++;
+  }
+
+  // Collapse runs of whitespace and trim the ends of the paragraph.
+  for (const node of out) if (node.type === "text") node.text = node.text.replace(/ {2,}/g, " ");
+  const first = out[0];
+  if (first?.type === "text") first.text = first.text.replace(/^\s+/, "");
+  const last = out[out.length - 1];
+  if (last?.type === "text") last.text = last.text.replace(/\s+$/, "");
+  return out.filter((n) => n.type !== "text" || n.text);
+}
+
+/* -------------------------
+   block parsing
+------------------------- */
+
+function parseTable(body: string, env: string): Block {
+  let src = body;
+  // Drop the column spec (and the width for tabular*/tabularx).
+  if (env === "tabular*" || env === "tabularx") {
+    const width = readGroup(src, 0);
+    if (width) src = src.slice(width.end);
+  }
+  const spec = readGroup(src, 0);
+  if (spec) src = src.slice(spec.end);
+
+  const rows = splitTopLevel(src, /^\\\\(\[[^\]]*\])?/)
+    .map((row) => row.replace(/\\(hline|toprule|midrule|bottomrule|cline\s*\{[^}]*\})/g, "").trim())
+    .filter(Boolean)
+    .map((row) => splitTopLevel(row, /^&/).map((cell) => parseInlines(cell.trim())));
+  return { type: "table", rows };
+}
+
+function parseList(body: string, env: string): Block {
+  const [, ...items] = splitTopLevel(body, /^\\item\b/);
+  return {
+    type: "list",
+    ordered: env === "enumerate" || env === "compactenum",
+    items: items.map((item) => {
+      const label = readOptionalArg(item, 0);
+      const blocks = parseBlocks(label ? item.slice(label.end) : item);
+      if (label) {
+        const first = blocks[0];
+        const term: Inline = { type: "bold", children: parseInlines(label.text) };
+        if (first?.type === "paragraph") first.children.unshift(term, { type: "text", text: " " });
+        else blocks.unshift({ type: "paragraph", children: [term] });
+      }
+      return blocks;
+    }),
+  };
+}
+
+function parseEnvironment(env: string, body: string, optional: string | null, out: Block[]) {
+  if (LIST_ENVIRONMENTS.has(env)) out.push(parseList(body, env));
+  else if (MATH_ENVIRONMENTS.has(env)) {
+    const tex = body.replace(/\\(label|tag)\s*\{[^}]*\}/g, "").replace(/\\nonumber|\\notag/g, "").trim();
+    out.push({ type: "math", tex: /^align|^flalign|^alignat|^eqnarray/.test(env) ? `\\begin{aligned}${tex}\\end{aligned}` : tex });
+  } else if (CODE_ENVIRONMENTS.has(env)) {
+    const text = env === "minted" ? body.slice(readGroup(body, 0)?.end ?? 0) : body;
+    out.push({ type: "code", text: text.replace(/^\n+|\s+$/g, "") });
+  } else if (TABLE_ENVIRONMENTS.has(env)) out.push(parseTable(body, env));
+  else if (TRANSPARENT_ENVIRONMENTS.has(env)) {
+    const inner = env === "minipage" || env === "multicols" || env === "multicols*" ? body.slice(readGroup(body, 0)?.end ?? 0) : body;
+    out.push(...parseBlocks(inner));
+  } else if (IGNORED_ENVIRONMENTS.has(env)) return;
+  else if (env === "abstract") out.push({ type: "box", title: "Abstract", children: parseBlocks(body) });
+  else {
+    // Theorem-like and tcolorbox-style environments: keep them visually grouped.
+    const title = optional?.replace(/^title\s*=\s*/, "").replace(/[{}]/g, "").trim();
+    out.push({ type: "box", title: title ? `${titleCase(env)} (${title})` : titleCase(env), children: parseBlocks(body) });
+  }
+}
+
+export function parseBlocks(src: string): Block[] {
+  const out: Block[] = [];
+  let paragraph = "";
+
+  const flush = () => {
+    const children = parseInlines(paragraph);
+    if (children.length) out.push({ type: "paragraph", children });
+    paragraph = "";
+  };
+
+  let i = 0;
+  while (i < src.length) {
+    const rest = src.slice(i);
+
+    const blank = rest.match(/^\n[ \t]*\n\s*/);
+    if (blank) {
+      flush();
+      i += blank[0].length;
+      continue;
+    }
+
+    const heading = rest.match(/^\\(part|chapter|section|subsection|subsubsection|paragraph|subparagraph)\*?\s*/);
+    if (heading) {
+      const opt = readOptionalArg(src, i + heading[0].length);
+      const group = readGroup(src, opt ? opt.end : i + heading[0].length);
+      if (group) {
+        flush();
+        out.push({ type: "heading", level: HEADING_LEVELS[heading[1]], children: parseInlines(group.text) });
+        i = group.end;
+        continue;
+      }
+    }
+
+    const caption = rest.match(/^\\caption\*?\s*/);
+    if (caption) {
+      const group = readGroup(src, i + caption[0].length);
+      if (group) {
+        flush();
+        out.push({ type: "paragraph", children: [{ type: "italic", children: parseInlines(group.text) }] });
+        i = group.end;
+        continue;
+      }
+    }
+
+    const begin = rest.match(/^\\begin\s*\{([^}]+)\}/);
+    if (begin) {
+      const env = begin[1].trim();
+      const bodyStart = i + begin[0].length;
+      const found = findEnvironmentEnd(src, env, bodyStart);
+      if (found) {
+        flush();
+        let body = src.slice(bodyStart, found.bodyEnd);
+        const opt = readOptionalArg(body, 0);
+        if (opt && !CODE_ENVIRONMENTS.has(env)) body = body.slice(opt.end);
+        parseEnvironment(env, body, opt?.text ?? null, out);
+        i = found.end;
+        continue;
+      }
+    }
+
+    if (rest.startsWith("\\[") || rest.startsWith("$$")) {
+      const closer = rest.startsWith("\\[") ? "\\]" : "$$";
+      const close = src.indexOf(closer, i + 2);
+      if (close > 0) {
+        flush();
+        out.push({ type: "math", tex: src.slice(i + 2, close).trim() });
+        i = close + 2;
+        continue;
+      }
+    }
+
+    paragraph += src[i];
+    i++;
+  }
+  flush();
+  return out;
+}
+
+/**
+ * The main file with comments stripped and \input / \include targets inlined
+ * from `files`, plus the part between \begin{document} and \end{document}
+ * (the whole source for body fragments).
+ */
+export function resolveProjectSource(files: ProjectFile[], mainFile: string): { source: string; body: string } {
+  const byPath = new Map(files.filter((f) => !f.isBinary).map((f) => [path.posix.normalize(f.path), f.content]));
+  const main = byPath.get(path.posix.normalize(mainFile)) ?? "";
+  const source = resolveInputs(stripComments(main), byPath, path.posix.dirname(mainFile), 0);
+
+  const beginDoc = source.search(/\\begin\s*\{document\}/);
+  const bodyStart = beginDoc >= 0 ? source.indexOf("}", beginDoc) + 1 : 0;
+  const endDoc = source.search(/\\end\s*\{document\}/);
+  return { source, body: source.slice(bodyStart, endDoc > bodyStart ? endDoc : undefined) };
+}
+
+/**
+ * Parse a project into a document tree. `mainFile` is the entry point; its
+ * \input / \include targets are resolved against `files`.
+ */
+export function parseLatexDocument(files: ProjectFile[], mainFile: string): LatexDocument {
+  const { source, body } = resolveProjectSource(files, mainFile);
+
+  const commandText = (name: string) => {
+    const m = source.match(new RegExp(`\\\\${name}\\s*(?:\\[[^\\]]*\\])?\\s*\\{`));
+    if (!m || m.index === undefined) return "";
+    const group = readGroup(source, m.index + m[0].length - 1);
+    return group ? plainText(parseInlines(group.text)) : "";
+  };
+
+  const title = commandText("title");
+  const author = commandText("author");
+  const blocks = parseBlocks(body.replace(/\\(title|author|date)\s*\{[^}]*\}/g, ""));
+  if (/\\maketitle/.test(body) && title) {
+    const head: Block[] = [{ type: "heading", level: 1, children: [{ type: "text", text: title }] }];
+    if (author) head.push({ type: "paragraph", children: [{ type: "italic", children: [{ type: "text", text: author }] }] });
+    blocks.unshift(...head);
+  }
+  return { title, author, blocks };
+}
+
+export function plainText(inlines: Inline[]): string {
+  return inlines
+    .map((n) => {
+      switch (n.type) {
+        case "text":
+          return n.text;
+        case "code":
+          return n.text;
+        case "math":
+          return n.tex;
+        case "break":
+          return " ";
+        default:
+          return plainText(n.children);
+      }
+    })
+    .join("");
+}
+
+/* -------------------------
+   Markdown writer
+------------------------- */
+
+function markdownEscape(text: string): string {
+  return text.replace(/([\\`*_[\]#<>|])/g, "\\$1");
+}
+
+function markdownInlines(inlines: Inline[]): string {
+  return inlines
+    .map((n) => {
+      switch (n.type) {
+        case "text":
+          return markdownEscape(n.text);
+        case "bold":
+          return `**${markdownInlines(n.children)}**`;
+        case "italic":
+          return `*${markdownInlines(n.children)}*`;
+        case "code":
+          return `\`${n.text}\``;
+        case "math":
+          return `$${n.tex}$`;
+        case "link":
+          return `[${markdownInlines(n.children)}](${n.url})`;
+        case "break":
+          return "  \n";
+      }
+    })
+    .join("");
+}
+
+function markdownBlocks(blocks: Block[]): string[] {
+  const out: string[] = [];
+  for (const block of blocks) {
+    switch (block.type) {
+      case "heading":
+        out.push(`${"#".repeat(Math.min(block.level, 6))} ${markdownInlines(block.children)}`);
+        break;
+      case "paragraph":
+        out.push(markdownInlines(block.children));
+        break;
+      case "math":
+        out.push(`$$\n${block.tex}\n$$`);
+        break;
+      case "code":
+        out.push(`\`\`\`\n${block.text}\n\`\`\``);
+        break;
+      case "list":
+        out.push(
+          block.items
+            .map((item, idx) => {
+              const marker = block.ordered ? `${idx + 1}. ` : "- ";
+              const body = markdownBlocks(item).join("\n\n");
+              const pad = " ".repeat(marker.length);
+              return marker + body.split("\n").map((line, k) => (k && line ? pad + line : line)).join("\n");
+            })
+            .join("\n")
+        );
+        break;
+      case "table": {
+        const [head, ...rest] = block.rows;
+        if (!head) break;
+        const width = Math.max(...block.rows.map((r) => r.length));
+        const row = (cells: Inline[][]) =>
+          `| ${Array.from({ length: width }, (_, k) => markdownInlines(cells[k] ?? []).replace(/\n/g, " ")).join(" | ")} |`;
+        out.push([row(head), `|${" --- |".repeat(width)}`, ...rest.map(row)].join("\n"));
+        break;
+      }
+      case "box": {
+        const body = [`**${markdownEscape(block.title)}**`, ...markdownBlocks(block.children)].join("\n\n");
+        out.push(body.split("\n").map((line) => (line ? `> ${line}` : ">")).join("\n"));
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+export function renderMarkdown(doc: LatexDocument): string {
+  return `${markdownBlocks(doc.blocks).join("\n\n")}\n`;
+}
+
+/* -------------------------
+   HTML writer
+------------------------- */
+
+function htmlInlines(inlines: Inline[]): string {
+  return inlines
+    .map((n) => {
+      switch (n.type) {
+        case "text":
+          return escapeXml(n.text);
+        case "bold":
+          return `<strong>${htmlInlines(n.children)}</strong>`;
+        case "italic":
+          return `<em>${htmlInlines(n.children)}</em>`;
+        case "code":
+          return `<code>${escapeXml(n.text)}</code>`;
+        case "math":
+          return texToMathML(n.tex, false);
+        case "link":
+          return /^(https?:|mailto:)/i.test(n.url)
+            ? `<a href="${escapeXml(n.url)}">${htmlInlines(n.children)}</a>`
+            : htmlInlines(n.children);
+        case "break":
+          return "<br>";
+      }
+    })
+    .join("");
+}
+
+function htmlBlocks(blocks: Block[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "heading": {
+          const level = Math.min(block.level, 6);
+          return `<h${level}>${htmlInlines(block.children)}</h${level}>`;
+        }
+        case "paragraph":
+          return `<p>${htmlInlines(block.children)}</p>`;
+        case "math":
+          return texToMathML(block.tex, true);
+        case "code":
+          return `<pre><code>${escapeXml(block.text)}</code></pre>`;
+        case "list": {
+          const tag = block.ordered ? "ol" : "ul";
+          return `<${tag}>${block.items.map((item) => `<li>${htmlBlocks(item)}</li>`).join("")}</${tag}>`;
+        }
+        case "table":
+          return `<table>${block.rows.map((row) => `<tr>${row.map((cell) => `<td>${htmlInlines(cell)}</td>`).join("")}</tr>`).join("")}</table>`;
+        case "box":
+          return `<aside class="box"><p class="box-title">${escapeXml(block.title)}</p>${htmlBlocks(block.children)}</aside>`;
+      }
+    })
+    .join("\n");
+}
+
+const HTML_STYLE = `body{max-width:46rem;margin:2rem auto;padding:0 1rem;font-family:Georgia,serif;line-height:1.55;color:#111}
+h1,h2,h3,h4{font-family:system-ui,sans-serif;line-height:1.25}
+table{border-collapse:collapse;margin:1rem 0}td{border:1px solid #bbb;padding:.25rem .5rem}
+pre{background:#f5f5f5;padding:.75rem;overflow-x:auto}
+.box{border-left:4px solid #6b7bd6;background:#f4f5fc;padding:.5rem 1rem;margin:1rem 0}
+.box-title{font-weight:bold;margin:.25rem 0}
+math[display=block]{margin:.75rem 0}`;
+
+export function renderHtml(doc: LatexDocument): string {
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeXml(doc.title || "Document")}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    htmlBlocks(doc.blocks),
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
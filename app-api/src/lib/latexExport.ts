@@ -0,0 +1,132 @@
+// app-api/src/lib/latexExport.ts
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import { execFile } from "child_process";
+import { makeHttpError } from "./errors";
+import { renderDocx } from "./docx";
+import { parseLatexDocument, renderHtml, renderMarkdown, resolveProjectSource } from "./latexDocument";
+import { normalizeProjectPath, withRlimits, type SandboxLimits } from "./sandbox";
+import type { ProjectFile } from "./latex";
+
+const execFileAsync = promisify(execFile);
+
+export const EXPORT_FORMATS = ["docx", "markdown", "html"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportConverter = "pandoc" | "builtin";
+
+export type ExportResult = {
+  bytes: Buffer;
+  contentType: string;
+  extension: string;
+  converter: ExportConverter;
+};
+
+const FORMAT_INFO: Record<ExportFormat, { contentType: string; extension: string; pandocWriter: string }> = {
+  docx: {
+    contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    extension: "docx",
+    pandocWriter: "docx",
+  },
+  // tex_math_dollars keeps formulas as $…$ / $$…$$, which is what most Markdown renderers expect.
+  markdown: { contentType: "text/markdown; charset=utf-8", extension: "md", pandocWriter: "markdown+tex_math_dollars" },
+  html: { contentType: "text/html; charset=utf-8", extension: "html", pandocWriter: "html5" },
+};
+
+export function parseExportFormat(raw: unknown): ExportFormat {
+  const value = String(raw ?? "").trim().toLowerCase();
+  const normalized = value === "md" ? "markdown" : value === "word" ? "docx" : value;
+  if (!(EXPORT_FORMATS as readonly string[]).includes(normalized)) {
+    throw makeHttpError(
+      `Invalid export format "${value}". Use ${EXPORT_FORMATS.join(", ")}.`,
+      400,
+      undefined,
+      "EXPORT_FORMAT_INVALID"
+    );
+  }
+  return normalized as ExportFormat;
+}
+
+/**
+ * Returns null when pandoc isn't installed, or is too old for --sandbox, so the
+ * caller can fall back. pandoc only sees the project flattened into one file
+ * (\input / \include inlined from `files`) and runs with --sandbox, which stops
+ * its readers and writers from touching any other file: paths in the source,
+ * however they're spelled or built, lead nowhere.
+ */
+async function convertWithPandoc(
+  files: ProjectFile[],
+  mainFile: string,
+  format: ExportFormat,
+  opts: { timeoutMs: number; limits: SandboxLimits }
+): Promise<Buffer | null> {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "betternotes-export-"));
+  const inPath = path.join(workDir, "main.tex");
+  const outPath = path.join(workDir, `.export.${FORMAT_INFO[format].extension}`);
+
+  try {
+    await fs.promises.writeFile(inPath, resolveProjectSource(files, mainFile).source);
+
+    const args = ["--sandbox", "-f", "latex", "-t", FORMAT_INFO[format].pandocWriter, "--standalone", "-o", outPath, inPath];
+    if (format === "html") args.unshift("--mathml");
+    const command = withRlimits("pandoc", args, opts.limits);
+
+    try {
+      await execFileAsync(command.file, command.args, {
+        cwd: workDir,
+        timeout: opts.timeoutMs,
+        maxBuffer: 4 * 1024 * 1024,
+      });
+    } catch (e: any) {
+      const stderr = String(e?.stderr ?? "");
+      if (e?.code === "ENOENT" || e?.code === 127) return null;
+      if (/unknown option.*--sandbox/i.test(stderr)) {
+        console.warn("[export] pandoc is older than 2.19 and has no --sandbox; using the built-in converter.");
+        return null;
+      }
+      if (e?.killed) {
+        throw makeHttpError("Export timed out.", 504, stderr, "EXPORT_TIMEOUT");
+      }
+      throw makeHttpError("Could not convert the document.", 422, stderr || String(e?.message ?? ""), "EXPORT_FAILED");
+    }
+    return await fs.promises.readFile(outPath);
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => { });
+  }
+}
+
+function convertBuiltin(files: ProjectFile[], mainFile: string, format: ExportFormat): Buffer {
+  const doc = parseLatexDocument(files, mainFile);
+  if (format === "docx") return renderDocx(doc);
+  return Buffer.from(format === "markdown" ? renderMarkdown(doc) : renderHtml(doc), "utf8");
+}
+
+/**
+ * Convert a project to `format`. Uses pandoc when it is installed (better
+ * coverage, native Word equations) and the built-in converter otherwise, or
+ * when `opts.converter` asks for it explicitly.
+ */
+export async function convertProject(
+  filesRaw: ProjectFile[],
+  mainFileRaw: string,
+  format: ExportFormat,
+  opts: { timeoutMs: number; limits: SandboxLimits; converter?: ExportConverter }
+): Promise<ExportResult> {
+  if (!filesRaw.length) {
+    throw makeHttpError("No files provided.", 400, undefined, "NO_FILES");
+  }
+  const files = filesRaw.map((f) => ({ ...f, path: normalizeProjectPath(f.path) }));
+  const mainFile = normalizeProjectPath(mainFileRaw);
+  if (!files.some((f) => f.path === mainFile)) {
+    throw makeHttpError(`Main file "${mainFile}" not found in provided files.`, 400, undefined, "MAIN_FILE_NOT_FOUND");
+  }
+
+  const { contentType, extension } = FORMAT_INFO[format];
+  if (opts.converter !== "builtin") {
+    const bytes = await convertWithPandoc(files, mainFile, format, opts);
+    if (bytes) return { bytes, contentType, extension, converter: "pandoc" };
+  }
+  return { bytes: convertBuiltin(files, mainFile, format), contentType, extension, converter: "builtin" };
+}
@@ -0,0 +1,313 @@
+// app-api/src/lib/latexLint.ts
+import path from "path";
+import type { ProjectFile } from "./latex";
+import {
+  THEOREM_FALLBACK_ENVIRONMENTS,
+  VERBATIM_ENVIRONMENTS,
+  definesBoxEnvironment,
+  isFallbackBoxEnvironment,
+  scanEnvironments,
+  stripLineComment,
+  type EnvToken,
+} from "./latexRepairs";
+
+/*
+ * Static checks for problems that would fail (or silently break) a compile,
+ * run on the source without invoking TeX. Fast enough to run on every
+ * keystroke pause in the editor.
+ */
+
+export type LintSeverity = "error" | "warning";
+
+export type LintRule =
+  | "unbalanced-braces"
+  | "unclosed-environment"
+  | "unmatched-end"
+  | "mismatched-environment"
+  | "undefined-environment"
+  | "missing-graphic"
+  | "undefined-reference"
+  | "duplicate-label";
+
+export type LintFinding = {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  file: string;
+  /** 1-based. */
+  line: number;
+  /** 1-based. */
+  column: number;
+};
+
+const MAX_FINDINGS = 200;
+
+const GRAPHIC_EXTENSIONS = [".pdf", ".png", ".jpg", ".jpeg", ".eps"];
+const THEOREM_NAMES = new Set(THEOREM_FALLBACK_ENVIRONMENTS.map((e) => e.name));
+
+type SourceFile = {
+  path: string;
+  /** Comments and verbatim content blanked with spaces; offsets match the original. */
+  code: string;
+  lineStarts: number[];
+};
+
+type Position = { line: number; column: number };
+
+function lineStartsOf(src: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < src.length; i++) if (src[i] === "\n") starts.push(i + 1);
+  return starts;
+}
+
+function positionAt(file: SourceFile, offset: number): Position {
+  let lo = 0;
+  let hi = file.lineStarts.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (file.lineStarts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return { line: lo + 1, column: offset - file.lineStarts[lo] + 1 };
+}
+
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, " ");
+}
+
+/** Blank out comments, verbatim environment bodies and \verb arguments. */
+function maskSource(src: string): string {
+  let verbatim: string | null = null;
+  return src
+    .split("\n")
+    .map((line) => {
+      if (verbatim) {
+        const end = line.match(new RegExp(`\\\\end\\s*\\{${verbatim.replace(/\*/g, "\\*")}\\}`));
+        if (!end) return blank(line);
+        const at = end.index!;
+        verbatim = null;
+        return blank(line.slice(0, at)) + maskLine(line.slice(at));
+      }
+      const masked = maskLine(line);
+      const begin = [...masked.matchAll(/\\begin\s*\{([^{}]+)\}/g)].find((m) => VERBATIM_ENVIRONMENTS.has(m[1].trim()));
+      if (!begin) return masked;
+      const bodyAt = begin.index! + begin[0].length;
+      const name = begin[1].trim();
+      const rest = line.slice(bodyAt);
+      const end = rest.match(new RegExp(`\\\\end\\s*\\{${name.replace(/\*/g, "\\*")}\\}`));
+      if (end) return masked.slice(0, bodyAt) + blank(rest.slice(0, end.index!)) + masked.slice(bodyAt + end.index!);
+      verbatim = name;
+      return masked.slice(0, bodyAt) + blank(rest);
+    })
+    .join("\n");
+}
+
+function maskLine(line: string): string {
+  const withoutVerb = line.replace(/\\verb\*?([^A-Za-z\s])(.*?)\1/g, (m) => `\\verb${" ".repeat(m.length - 5)}`);
+  const code = stripLineComment(withoutVerb);
+  return code + " ".repeat(line.length - code.length);
+}
+
+function checkBraces(file: SourceFile, report: (f: Omit<LintFinding, "file">) => void) {
+  const open: number[] = [];
+  const { code } = file;
+  for (let i = 0; i < code.length; i++) {
+    const ch = code[i];
+    if (ch === "\\") {
+      i++;
+      continue;
+    }
+    if (ch === "{") open.push(i);
+    else if (ch === "}") {
+      if (open.length) open.pop();
+      else {
+        report({ rule: "unbalanced-braces", severity: "error", message: "Closing brace } has no matching {.", ...positionAt(file, i) });
+      }
+    }
+  }
+  for (const at of open) {
+    report({ rule: "unbalanced-braces", severity: "error", message: "Opening brace { is never closed.", ...positionAt(file, at) });
+  }
+}
+
+function checkEnvironments(file: SourceFile, report: (f: Omit<LintFinding, "file">) => void) {
+  const stack: EnvToken[] = [];
+  const at = (t: EnvToken) => ({ line: t.line + 1, column: t.start + 1 });
+
+  for (const t of scanEnvironments(file.code.split("\n"))) {
+    if (t.kind === "begin") {
+      stack.push(t);
+      continue;
+    }
+    const idx = stack.map((s) => s.name).lastIndexOf(t.name);
+    if (idx === -1) {
+      report({
+        rule: "unmatched-end",
+        severity: "error",
+        message: `\\end{${t.name}} has no matching \\begin{${t.name}}.`,
+        ...at(t),
+      });
+      continue;
+    }
+    for (const skipped of stack.splice(idx).slice(1)) {
+      report({
+        rule: "mismatched-environment",
+        severity: "error",
+        message: `\\begin{${skipped.name}} is closed by \\end{${t.name}} on line ${t.line + 1}; expected \\end{${skipped.name}} first.`,
+        ...at(skipped),
+      });
+    }
+  }
+  for (const t of stack) {
+    report({ rule: "unclosed-environment", severity: "error", message: `\\begin{${t.name}} is never closed.`, ...at(t) });
+  }
+}
+
+function definesTheorem(source: string, name: string): boolean {
+  return new RegExp(`\\\\(?:newtheorem\\*?|declaretheorem)\\s*(?:\\[[^\\]]*\\])?\\s*\\{${name}\\}`).test(source);
+}
+
+function checkEnvironmentDefinitions(file: SourceFile, allCode: string, report: (f: Omit<LintFinding, "file">) => void) {
+  const seen = new Set<string>();
+  for (const m of file.code.matchAll(/\\begin\s*\{([A-Za-z]+)\}/g)) {
+    const name = m[1];
+    if (seen.has(name)) continue;
+    const isTheorem = THEOREM_NAMES.has(name);
+    if (!isTheorem && !isFallbackBoxEnvironment(name)) continue;
+    seen.add(name);
+    if (definesBoxEnvironment(allCode, name) || (isTheorem && definesTheorem(allCode, name))) continue;
+    report({
+      rule: "undefined-environment",
+      severity: "warning",
+      message: isTheorem
+        ? `Environment "${name}" is used but never defined; add \\newtheorem{${name}}{...} to the preamble.`
+        : `Environment "${name}" is used but never defined; add \\newtcolorbox{${name}}{...} to the preamble.`,
+      ...positionAt(file, m.index!),
+    });
+  }
+}
+
+function graphicsPaths(allCode: string): string[] {
+  const dirs = [""];
+  for (const m of allCode.matchAll(/\\graphicspath\s*\{((?:\s*\{[^{}]*\})*)\s*\}/g)) {
+    for (const d of m[1].matchAll(/\{([^{}]*)\}/g)) dirs.push(d[1].trim());
+  }
+  return dirs;
+}
+
+function graphicExists(target: string, baseDir: string, searchDirs: string[], assets: Set<string>): boolean {
+  // graphicx tries the name as given, then with each known extension appended.
+  const candidates = [target, ...GRAPHIC_EXTENSIONS.flatMap((ext) => [target + ext, target + ext.toUpperCase()])];
+  return searchDirs.some((dir) =>
+    candidates.some((c) => assets.has(path.posix.normalize(path.posix.join(baseDir, dir, c)).replace(/^\.\//, "")))
+  );
+}
+
+function checkGraphics(
+  file: SourceFile,
+  baseDir: string,
+  searchDirs: string[],
+  assets: Set<string>,
+  report: (f: Omit<LintFinding, "file">) => void
+) {
+  for (const m of file.code.matchAll(/\\includegraphics\*?\s*(?:\[[^\]]*\])?\s*\{([^{}]+)\}/g)) {
+    const target = m[1].trim();
+    // Paths built from macros can't be resolved statically.
+    if (!target || target.includes("\\") || target.includes("#")) continue;
+    if (graphicExists(target, baseDir, searchDirs, assets)) continue;
+    report({
+      rule: "missing-graphic",
+      severity: "error",
+      message: `Image "${target}" is not in the project.`,
+      ...positionAt(file, m.index!),
+    });
+  }
+}
+
+type Label = { name: string; file: SourceFile; offset: number };
+
+function collectLabels(files: SourceFile[]): Label[] {
+  const labels: Label[] = [];
+  for (const file of files) {
+    for (const m of file.code.matchAll(/\\label\s*\{([^{}]+)\}/g)) {
+      labels.push({ name: m[1].trim(), file, offset: m.index! });
+    }
+  }
+  return labels;
+}
+
+function checkReferences(file: SourceFile, labels: Set<string>, report: (f: Omit<LintFinding, "file">) => void) {
+  for (const m of file.code.matchAll(/\\(ref|eqref|autoref|pageref|nameref|vref|cref|Cref|cpageref)\*?\s*\{([^{}]+)\}/g)) {
+    // cleveref takes comma-separated lists.
+    const keys = /^c/i.test(m[1]) ? m[2].split(",") : [m[2]];
+    for (const raw of keys) {
+      const key = raw.trim();
+      if (!key || key.includes("#") || labels.has(key)) continue;
+      report({
+        rule: "undefined-reference",
+        severity: "warning",
+        message: `\\${m[1]}{${key}} refers to a label that is never defined.`,
+        ...positionAt(file, m.index!),
+      });
+    }
+  }
+}
+
+/**
+ * Lint the .tex files of a project. Graphics are only checked when `assets`
+ * is given: the paths of files that exist besides `files` (uploads the caller
+ * didn't send the content of). Pass `[]` when `files` is the whole project.
+ */
+export function lintLatexProject(
+  files: ProjectFile[],
+  mainFile: string,
+  opts: { assets?: string[] } = {}
+): LintFinding[] {
+  const sources: SourceFile[] = files
+    .filter((f) => !f.isBinary && /\.(tex|ltx)$/i.test(f.path))
+    .map((f) => {
+      const code = maskSource(f.content);
+      return { path: f.path, code, lineStarts: lineStartsOf(code) };
+    });
+  const allCode = sources.map((s) => s.code).join("\n");
+
+  const findings: LintFinding[] = [];
+  const reporterFor = (file: SourceFile) => (f: Omit<LintFinding, "file">) => {
+    findings.push({ ...f, file: file.path });
+  };
+
+  const assets = opts.assets ? new Set([...opts.assets, ...files.map((f) => f.path)]) : null;
+  const baseDir = path.posix.dirname(mainFile);
+  const searchDirs = graphicsPaths(allCode);
+
+  const labels = collectLabels(sources);
+  const labelNames = new Set(labels.map((l) => l.name));
+  const firstLabel = new Map<string, Label>();
+  for (const label of labels) {
+    const first = firstLabel.get(label.name);
+    if (!first) {
+      firstLabel.set(label.name, label);
+      continue;
+    }
+    const at = positionAt(first.file, first.offset);
+    reporterFor(label.file)({
+      rule: "duplicate-label",
+      severity: "warning",
+      message: `Label "${label.name}" is already defined at ${first.file.path}:${at.line}.`,
+      ...positionAt(label.file, label.offset),
+    });
+  }
+
+  for (const file of sources) {
+    const report = reporterFor(file);
+    checkBraces(file, report);
+    checkEnvironments(file, report);
+    checkEnvironmentDefinitions(file, allCode, report);
+    if (assets) checkGraphics(file, baseDir, searchDirs, assets, report);
+    checkReferences(file, labelNames, report);
+  }
+
+  return findings
+    .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column)
+    .slice(0, MAX_FINDINGS);
+}
@@ -0,0 +1,479 @@
+// app-api/src/lib/latexRepairs.ts
+import type { TexEngine } from "./latex";
+
+/**
+ * A deterministic source repair for a mistake models (and people) commonly make.
+ * `detect` must be cheap and side-effect free; `apply` is only called when it
+ * returned true and must return the source unchanged if there is nothing to do.
+ */
+export type LatexRepairRule = {
+  id: string;
+  description: string;
+  /** Engines the rule is for; all of them when unset. */
+  engines?: readonly TexEngine[];
+  /**
+   * Needs to see the whole document at once. Skipped for the files of a
+   * multi-file project, which may open an environment in one file and close it
+   * in another, or set up Unicode input in the preamble of another.
+   */
+  wholeDocument?: boolean;
+  detect(latex: string): boolean;
+  apply(latex: string): string;
+};
+
+/** One rule that changed the source. `file` is set for multi-file projects. */
+export type LatexRepairApplied = { id: string; description: string; file?: string };
+
+export type LatexRepairRegistry = {
+  /** Add a rule; rules run in registration order. Replaces a rule with the same id. */
+  register(rule: LatexRepairRule): void;
+  rules(): LatexRepairRule[];
+  /**
+   * Without an `engine`, engine-specific rules run too. `fragment` marks one
+   * file of a multi-file project; wholeDocument rules don't run on those.
+   */
+  run(
+    latex: string,
+    opts?: { file?: string; engine?: TexEngine; fragment?: boolean }
+  ): { latex: string; applied: LatexRepairApplied[] };
+};
+
+export function createLatexRepairRegistry(initial: LatexRepairRule[] = []): LatexRepairRegistry {
+  const rules: LatexRepairRule[] = [];
+
+  const registry: LatexRepairRegistry = {
+    register(rule) {
+      const idx = rules.findIndex((r) => r.id === rule.id);
+      if (idx === -1) rules.push(rule);
+      else rules[idx] = rule;
+    },
+    rules() {
+      return [...rules];
+    },
+    run(latex, opts) {
+      const applied: LatexRepairApplied[] = [];
+      let current = latex;
+      for (const rule of rules) {
+        if (opts?.engine && rule.engines && !rule.engines.includes(opts.engine)) continue;
+        if (opts?.fragment && rule.wholeDocument) continue;
+        if (!rule.detect(current)) continue;
+        const next = rule.apply(current);
+        if (next === current) continue;
+        current = next;
+        applied.push(
+          opts?.file
+            ? { id: rule.id, description: rule.description, file: opts.file }
+            : { id: rule.id, description: rule.description }
+        );
+      }
+      return { latex: current, applied };
+    },
+  };
+
+  for (const rule of initial) registry.register(rule);
+  return registry;
+}
+
+/* -------------------------
+   helpers
+------------------------- */
+
+function findBeginDocument(latex: string): number {
+  const m = latex.match(/\\begin\s*\{document\}/);
+  return m && m.index !== undefined ? m.index : -1;
+}
+
+function insertBeforeDocument(latex: string, block: string): string {
+  const at = findBeginDocument(latex);
+  if (at === -1) return latex;
+  return `${latex.slice(0, at)}${block}\n\n${latex.slice(at)}`;
+}
+
+// Part of a line before an unescaped %, i.e. what TeX actually reads.
+export function stripLineComment(line: string): string {
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (line[i] === "%") return line.slice(0, i);
+  }
+  return line;
+}
+
+/* -------------------------
+   rules
+------------------------- */
+
+export function stripDuplicateNewtheoremDefinitions(latex: string): string {
+  const seen = new Set<string>();
+
+  // Line-oriented on purpose: the common case is one-line \newtheorem declarations.
+  return latex.replace(
+    /^([ \t]*)\\newtheorem\*?\s*\{([A-Za-z@][A-Za-z0-9@:_-]*)\}([^\n]*)$/gm,
+    (full, indent: string, envName: string) => {
+      if (!envName) return full;
+      if (!seen.has(envName)) {
+        seen.add(envName);
+        return full;
+      }
+      return `${indent}% BN_REMOVED_DUPLICATE_NEWTHEOREM{${envName}} ${full.trimStart()}`;
+    }
+  );
+}
+
+// Theorem-like environments our templates and generated notes use without always defining them.
+export const THEOREM_FALLBACK_ENVIRONMENTS = [
+  { name: "definition", title: "Definition" },
+  { name: "theorem", title: "Theorem" },
+  { name: "lemma", title: "Lemma" },
+  { name: "proposition", title: "Proposition" },
+  { name: "corollary", title: "Corollary" },
+  { name: "example", title: "Example" },
+  { name: "remark", title: "Remark" },
+  { name: "obs", title: "Observation" },
+];
+
+export function injectTheoremFallbacks(latex: string): string {
+  // IMPORTANT: we do NOT try to detect "theorem-style already exists" perfectly;
+  // we just ensure required environments exist *somehow*.
+  const envs = THEOREM_FALLBACK_ENVIRONMENTS;
+
+  // Check which environments are USED in the document
+  // Regex matches \begin{envname} with optional whitespace
+  const needs = envs.filter((env) => {
+    const pattern = new RegExp(`\\\\begin\\s*\\{${env.name}\\}`);
+    return pattern.test(latex);
+  });
+  if (!needs.length) return latex;
+
+  // Check which environments are already DEFINED via \newtheorem{envname}
+  const alreadyDefined = new Set<string>();
+  for (const env of needs) {
+    // Accept both \newtheorem{env} and \newtheorem*{env}
+    const defPattern = new RegExp(`\\\\newtheorem\\*?\\s*\\{${env.name}\\}`);
+    if (defPattern.test(latex)) {
+      alreadyDefined.add(env.name);
+    }
+  }
+
+  // Filter to only environments that need to be injected
+  const toInject = needs.filter((env) => !alreadyDefined.has(env.name));
+  if (!toInject.length) return latex;
+
+  // Find \begin{document}
+  const beginDocMatch = latex.match(/\\begin\s*\{document\}/);
+  if (!beginDocMatch || beginDocMatch.index === undefined) return latex;
+
+  // Check if amsthm is already loaded (handles \usepackage{amsthm} and \usepackage{amsmath,amsthm,...})
+  const hasAmsthm = /\\usepackage\s*(\[[^\]]*\])?\s*\{[^}]*amsthm[^}]*\}/.test(latex);
+
+  // Build injection block with proper LaTeX formatting
+  const injectionLines: string[] = [];
+  injectionLines.push("% BN_THEOREM_FALLBACKS");
+
+  if (!hasAmsthm) {
+    injectionLines.push("\\usepackage{amsthm}");
+  }
+
+  // Simple direct \newtheorem definitions
+  // We've already filtered out environments that are already defined
+  for (const env of toInject) {
+    injectionLines.push(`\\newtheorem{${env.name}}{${env.title}}`);
+  }
+
+  const insertAt = beginDocMatch.index;
+  return `${latex.slice(0, insertAt)}${injectionLines.join("\n")}\n\n${latex.slice(insertAt)}`;
+}
+
+export function injectCommonMathFallbacks(latex: string): string {
+  // Find \begin{document}
+  const beginDocMatch = latex.match(/\\begin\s*\{document\}/);
+  if (!beginDocMatch || beginDocMatch.index === undefined) return latex;
+
+  const marker = "% BN_MATH_FALLBACKS";
+  if (latex.includes(marker)) return latex;
+
+  // Check for usage of custom math commands
+  const wantsAbs = /\\abs\s*\{/.test(latex);
+  const wantsNorm = /\\norm\s*\{/.test(latex);
+  const wantsColoneqq = /\\coloneqq\b/.test(latex);
+  const wantsGenerated = /\\generated\s*\{/.test(latex);
+  const wantsSlashed = /\\slashed\s*\{/.test(latex);
+
+  const defs: string[] = [marker];
+  if (wantsAbs) defs.push("\\providecommand{\\abs}[1]{\\left|#1\\right|}");
+  if (wantsNorm) defs.push("\\providecommand{\\norm}[1]{\\left\\|#1\\right\\|}");
+  if (wantsColoneqq) defs.push("\\providecommand{\\coloneqq}{\\mathrel{:=}}");
+  if (wantsGenerated) defs.push("\\providecommand{\\generated}[1]{(\\min\\{#1\\},\\max\\{#1\\})}");
+  if (wantsSlashed) defs.push("\\providecommand{\\slashed}[1]{\\not\\!#1}");
+
+  if (defs.length === 1) return latex;
+
+  const injection = `${defs.join("\n")}\n`;
+  const insertAt = beginDocMatch.index;
+  return `${latex.slice(0, insertAt)}${injection}\n${latex.slice(insertAt)}`;
+}
+
+// \check{x} is a math accent; with a phrase as argument it is the model using
+// it for the problem-solving template's verification step.
+const TEXT_CHECK = /\\check\s*\{([^{}$]*\s[^{}$]*)\}/g;
+const HAS_TEXT_CHECK = new RegExp(TEXT_CHECK.source);
+
+export function replaceStrayCheckWithVerify(latex: string): string {
+  const replaced = latex.replace(TEXT_CHECK, (_m, body: string) => `\\verify{${body}}`);
+  if (replaced === latex) return latex;
+  if (/\\(?:re)?newcommand\s*\{?\\verify\b|\\providecommand\s*\{?\\verify\b/.test(replaced)) return replaced;
+  return insertBeforeDocument(replaced, "% BN_VERIFY_FALLBACK\n\\providecommand{\\verify}[1]{\\textbf{Check:} \\textit{#1}}");
+}
+
+// Box environments from our templates, plus the names models tend to invent for them.
+const KNOWN_BOX_ENVIRONMENTS = new Set([
+  "datasummary", "keyfinding", "limitation",
+  "infobox", "notebox", "tipbox", "warningbox", "keybox", "summarybox",
+  "importantbox", "conceptbox", "highlightbox", "formulabox", "examplebox",
+]);
+const BUILTIN_BOX_ENVIRONMENTS = new Set(["tcolorbox", "lrbox", "tcbraster", "tcbitemize"]);
+
+/** A box environment we know how to stand in for (template names, or anything ending in "box"). */
+export function isFallbackBoxEnvironment(name: string): boolean {
+  if (BUILTIN_BOX_ENVIRONMENTS.has(name)) return false;
+  return KNOWN_BOX_ENVIRONMENTS.has(name) || /box$/.test(name);
+}
+
+/** Whether `latex` defines environment `name` as a box or with \newenvironment (or a relative). */
+export function definesBoxEnvironment(latex: string, name: string): boolean {
+  const def = new RegExp(
+    `\\\\(?:newtcolorbox|renewtcolorbox|DeclareTColorBox|NewTColorBox|newtcbtheorem|newmdenv|newenvironment|renewenvironment|NewDocumentEnvironment|RenewDocumentEnvironment|ProvideDocumentEnvironment|DeclareDocumentEnvironment|NewEnviron)\\s*(?:\\[[^\\]]*\\])?\\s*\\{${name}\\}`
+  );
+  return def.test(latex);
+}
+
+function undefinedBoxEnvironments(latex: string): string[] {
+  const used = new Set<string>();
+  for (const m of latex.matchAll(/\\begin\s*\{([A-Za-z]+)\}/g)) {
+    if (isFallbackBoxEnvironment(m[1])) used.add(m[1]);
+  }
+  return [...used].filter((name) => !definesBoxEnvironment(latex, name));
+}
+
+export function injectBoxEnvironmentFallbacks(latex: string): string {
+  const missing = undefinedBoxEnvironments(latex);
+  if (!missing.length || findBeginDocument(latex) === -1) return latex;
+
+  // Plain framed-less fallback: works without tcolorbox and takes the optional title.
+  // The box may be defined where this file can't see it (an \input preamble, a
+  // package such as fancybox with Sbox), so each fallback only applies if the
+  // name is still undefined at \begin{document}.
+  const defs = ["% BN_BOX_FALLBACKS", "\\makeatletter"];
+  for (const name of missing) {
+    defs.push(
+      `\\@ifundefined{${name}}{\\newenvironment{${name}}[1][]{\\par\\medskip\\noindent\\ifx\\relax#1\\relax\\else\\textbf{#1}\\par\\fi}{\\par\\medskip}}{}`
+    );
+  }
+  defs.push("\\makeatother");
+  return insertBeforeDocument(latex, defs.join("\n"));
+}
+
+// Content of these is not LaTeX; \begin/\end inside must not be counted.
+export const VERBATIM_ENVIRONMENTS = new Set(["verbatim", "verbatim*", "lstlisting", "minted", "comment", "Verbatim"]);
+
+export type EnvToken = { kind: "begin" | "end"; name: string; line: number; start: number; end: number };
+
+export function scanEnvironments(lines: string[]): EnvToken[] {
+  const tokens: EnvToken[] = [];
+  let verbatim: string | null = null;
+  lines.forEach((raw, line) => {
+    const code = stripLineComment(raw);
+    for (const m of code.matchAll(/\\(begin|end)\s*\{([^{}]+)\}/g)) {
+      const kind = m[1] as "begin" | "end";
+      const name = m[2].trim();
+      if (verbatim) {
+        if (kind === "end" && name === verbatim) verbatim = null;
+        else continue;
+      } else if (kind === "begin" && VERBATIM_ENVIRONMENTS.has(name)) {
+        verbatim = name;
+      }
+      tokens.push({ kind, name, line, start: m.index!, end: m.index! + m[0].length });
+    }
+  });
+  return tokens;
+}
+
+function hasUnbalancedEnvironments(latex: string): boolean {
+  const stack: string[] = [];
+  for (const t of scanEnvironments(latex.split("\n"))) {
+    if (t.kind === "begin") stack.push(t.name);
+    else if (stack.pop() !== t.name) return true;
+  }
+  return stack.length > 0;
+}
+
+/**
+ * Close environments left open, and comment out \end{x} with no matching
+ * \begin{x}. An \end that skips over open environments closes those first.
+ */
+export function balanceEnvironments(latex: string): string {
+  const lines = latex.split("\n");
+  const stack: EnvToken[] = [];
+  // Replace lines[line].slice(start, end) with text
+  const edits: Array<{ line: number; start: number; end: number; text: string }> = [];
+
+  for (const t of scanEnvironments(lines)) {
+    if (t.kind === "begin") {
+      stack.push(t);
+      continue;
+    }
+    const idx = stack.map((s) => s.name).lastIndexOf(t.name);
+    if (idx === -1) {
+      // Text after it on the same line moves to a line of its own, out of the comment.
+      const rest = lines[t.line].slice(t.end).trim() ? "\n" : "";
+      edits.push({ line: t.line, start: t.start, end: t.end, text: `{}% BN_REMOVED_UNMATCHED_END{${t.name}}${rest}` });
+      continue;
+    }
+    const skipped = stack.splice(idx).slice(1).reverse();
+    if (skipped.length) {
+      edits.push({ line: t.line, start: t.start, end: t.start, text: skipped.map((s) => `\\end{${s.name}}`).join("") });
+    }
+  }
+
+  const open = stack.reverse();
+  const docEnd = lines.findIndex((l) => /\\end\s*\{document\}/.test(stripLineComment(l)));
+  const closing = open.filter((s) => s.name !== "document").map((s) => `\\end{${s.name}}`);
+
+  // Apply right to left so earlier offsets stay valid
+  edits.sort((a, b) => b.line - a.line || b.start - a.start);
+  for (const e of edits) {
+    lines[e.line] = `${lines[e.line].slice(0, e.start)}${e.text}${lines[e.line].slice(e.end)}`;
+  }
+
+  if (closing.length) {
+    if (docEnd !== -1) lines.splice(docEnd, 0, ...closing);
+    else lines.push(...closing);
+  }
+  if (open.some((s) => s.name === "document") && docEnd === -1) lines.push("\\end{document}");
+
+  return lines.join("\n");
+}
+
+// Characters pdflatex's utf8 input encoding has no definition for.
+const UNICODE_REPLACEMENTS: Array<[string, string]> = [
+  ["\u200b", ""], ["\ufeff", ""],
+  ["≤", "\\ensuremath{\\leq}"], ["≥", "\\ensuremath{\\geq}"], ["≠", "\\ensuremath{\\neq}"],
+  ["≈", "\\ensuremath{\\approx}"], ["≡", "\\ensuremath{\\equiv}"], ["∞", "\\ensuremath{\\infty}"],
+  ["→", "\\ensuremath{\\rightarrow}"], ["←", "\\ensuremath{\\leftarrow}"], ["↔", "\\ensuremath{\\leftrightarrow}"],
+  ["⇒", "\\ensuremath{\\Rightarrow}"], ["⇔", "\\ensuremath{\\Leftrightarrow}"],
+  ["∈", "\\ensuremath{\\in}"], ["∉", "\\ensuremath{\\notin}"], ["⊂", "\\ensuremath{\\subset}"],
+  ["⊆", "\\ensuremath{\\subseteq}"], ["∪", "\\ensuremath{\\cup}"], ["∩", "\\ensuremath{\\cap}"],
+  ["∀", "\\ensuremath{\\forall}"], ["∃", "\\ensuremath{\\exists}"], ["∅", "\\ensuremath{\\emptyset}"],
+  ["∑", "\\ensuremath{\\sum}"], ["∏", "\\ensuremath{\\prod}"], ["∫", "\\ensuremath{\\int}"],
+  ["√", "\\ensuremath{\\surd}"], ["∂", "\\ensuremath{\\partial}"], ["∇", "\\ensuremath{\\nabla}"],
+  ["−", "\\ensuremath{-}"], ["′", "\\ensuremath{'}"],
+  ["α", "\\ensuremath{\\alpha}"], ["β", "\\ensuremath{\\beta}"], ["γ", "\\ensuremath{\\gamma}"],
+  ["δ", "\\ensuremath{\\delta}"], ["ε", "\\ensuremath{\\varepsilon}"], ["θ", "\\ensuremath{\\theta}"],
+  ["λ", "\\ensuremath{\\lambda}"], ["μ", "\\ensuremath{\\mu}"], ["π", "\\ensuremath{\\pi}"],
+  ["σ", "\\ensuremath{\\sigma}"], ["τ", "\\ensuremath{\\tau}"], ["φ", "\\ensuremath{\\varphi}"],
+  ["ω", "\\ensuremath{\\omega}"], ["Δ", "\\ensuremath{\\Delta}"], ["Σ", "\\ensuremath{\\Sigma}"],
+  ["Ω", "\\ensuremath{\\Omega}"],
+  ["✓", "\\ensuremath{\\surd}"], ["✔", "\\ensuremath{\\surd}"], ["✗", "\\ensuremath{\\times}"],
+  ["•", "\\textbullet{}"],
+];
+const UNICODE_PATTERN = new RegExp(`[${UNICODE_REPLACEMENTS.map(([c]) => c).join("")}]`, "g");
+const HAS_UNICODE = new RegExp(UNICODE_PATTERN.source);
+const UNICODE_MAP = new Map(UNICODE_REPLACEMENTS);
+
+function usesUnicodeEngineSetup(latex: string): boolean {
+  return /\\usepackage\s*(\[[^\]]*\])?\s*\{[^}]*\b(fontspec|unicode-math)\b[^}]*\}/.test(latex);
+}
+
+// Where the characters are meant literally: the one \newunicodechar (or
+// \DeclareUnicodeCharacter) is defining, and \verb|...|.
+const LITERAL_UNICODE = /\\(?:newunicodechar|DeclareUnicodeCharacter)\s*\{[^{}]*\}|\\verb\*?([^A-Za-z\s*])[^\n]*?\1/g;
+
+/** [start, end) offsets of the bodies of verbatim-like environments. */
+function verbatimRanges(latex: string): Array<[number, number]> {
+  const lines = latex.split("\n");
+  const lineStart: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStart.push(offset);
+    offset += line.length + 1;
+  }
+
+  const ranges: Array<[number, number]> = [];
+  let open: number | null = null;
+  // scanEnvironments reports nothing inside a verbatim body but its \end.
+  for (const t of scanEnvironments(lines)) {
+    if (!VERBATIM_ENVIRONMENTS.has(t.name)) continue;
+    if (t.kind === "begin" && open === null) open = lineStart[t.line] + t.end;
+    else if (t.kind === "end" && open !== null) {
+      ranges.push([open, lineStart[t.line] + t.start]);
+      open = null;
+    }
+  }
+  if (open !== null) ranges.push([open, latex.length]);
+  return ranges;
+}
+
+export function replaceUnsupportedUnicode(latex: string): string {
+  const literal = verbatimRanges(latex);
+  for (const m of latex.matchAll(LITERAL_UNICODE)) literal.push([m.index!, m.index! + m[0].length]);
+  return latex.replace(UNICODE_PATTERN, (c, at: number) =>
+    literal.some(([start, end]) => at >= start && at < end) ? c : UNICODE_MAP.get(c) ?? c
+  );
+}
+
+/* -------------------------
+   default registry
+------------------------- */
+
+export const DEFAULT_LATEX_REPAIR_RULES: LatexRepairRule[] = [
+  {
+    id: "duplicate-newtheorem",
+    description: "Commented out a repeated \\newtheorem for an environment that was already defined.",
+    detect: (latex) => /\\newtheorem/.test(latex),
+    apply: stripDuplicateNewtheoremDefinitions,
+  },
+  {
+    id: "unbalanced-environments",
+    description: "Closed environments left open and commented out \\end{...} lines with no matching \\begin.",
+    wholeDocument: true,
+    detect: hasUnbalancedEnvironments,
+    apply: balanceEnvironments,
+  },
+  {
+    id: "theorem-environments",
+    description: "Defined theorem-like environments (theorem, definition, example, ...) that were used but never declared.",
+    detect: (latex) => /\\begin\s*\{(definition|theorem|lemma|proposition|corollary|example|remark|obs)\}/.test(latex),
+    apply: injectTheoremFallbacks,
+  },
+  {
+    id: "box-environments",
+    description: "Defined box environments (e.g. keyfinding, infobox) that were used without a \\newtcolorbox.",
+    detect: (latex) => undefinedBoxEnvironments(latex).length > 0,
+    apply: injectBoxEnvironmentFallbacks,
+  },
+  {
+    id: "math-commands",
+    description: "Defined common math helpers (\\abs, \\norm, \\coloneqq, ...) that were used without a definition.",
+    detect: (latex) => /\\(abs|norm|generated|slashed)\s*\{|\\coloneqq\b/.test(latex),
+    apply: injectCommonMathFallbacks,
+  },
+  {
+    id: "check-to-verify",
+    description: "Replaced \\check{...} used on a sentence (a math accent) with \\verify{...}.",
+    detect: (latex) => HAS_TEXT_CHECK.test(latex),
+    apply: replaceStrayCheckWithVerify,
+  },
+  {
+    id: "unicode-characters",
+    description: "Replaced Unicode symbols pdflatex cannot typeset (≤, →, α, ✓, ...) with LaTeX commands.",
+    // xelatex and lualatex read Unicode natively.
+    engines: ["pdflatex"],
+    wholeDocument: true,
+    detect: (latex) => !usesUnicodeEngineSetup(latex) && HAS_UNICODE.test(latex),
+    apply: replaceUnsupportedUnicode,
+  },
+];
+
+export const defaultLatexRepairs = createLatexRepairRegistry(DEFAULT_LATEX_REPAIR_RULES);
@@ -0,0 +1,124 @@
+// app-api/src/lib/latexStats.ts
+import { readGroup, resolveProjectSource } from "./latexDocument";
+import type { ProjectFile } from "./latex";
+
+export type LatexStats = {
+  words: { text: number; captions: number; total: number };
+  equations: { display: number; inline: number };
+  sections: { chapter: number; section: number; subsection: number; subsubsection: number };
+  figures: number;
+  tables: number;
+  /** Theorem-like environments by name (theorem, definition, proof, and anything declared with \newtheorem). */
+  theorems: Record<string, number>;
+  /** Page count of the compiled PDF, when the request named a cached compile. */
+  pages: number | null;
+};
+
+const DISPLAY_MATH_ENVIRONMENTS = [
+  "equation", "equation*", "align", "align*", "gather", "gather*", "multline", "multline*",
+  "eqnarray", "eqnarray*", "displaymath", "flalign", "flalign*", "alignat", "alignat*",
+];
+
+const THEOREM_ENVIRONMENTS = [
+  "theorem", "lemma", "proposition", "corollary", "definition", "example", "remark", "proof",
+  "exercise", "note", "claim", "conjecture", "axiom", "problem", "solution",
+];
+
+// Removed before counting words: code and drawings aren't prose.
+const NON_PROSE_ENVIRONMENTS = ["verbatim", "verbatim*", "lstlisting", "minted", "tikzpicture", "comment"];
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function countEnvironment(src: string, name: string): number {
+  return (src.match(new RegExp(`\\\\begin\\s*\\{${escapeRegExp(name)}\\}`, "g")) ?? []).length;
+}
+
+function stripEnvironment(src: string, name: string): string {
+  const n = escapeRegExp(name);
+  return src.replace(new RegExp(`\\\\begin\\s*\\{${n}\\}[\\s\\S]*?\\\\end\\s*\\{${n}\\}`, "g"), " ");
+}
+
+function countWords(text: string): number {
+  return (text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) ?? []).length;
+}
+
+/** Prose words left after dropping command names, optional arguments and braces. */
+function proseWords(src: string): number {
+  const text = src
+    .replace(/\\(?:label|ref|eqref|cite\w*|includegraphics|usepackage|input|include|url|href|begin|end|hspace|vspace|setlength)\*?\s*(?:\[[^\]]*\])?\s*\{[^}]*\}/g, " ")
+    .replace(/\\[A-Za-z]+\*?(?:\s*\[[^\]]*\])?/g, " ")
+    .replace(/\\./g, " ")
+    .replace(/[{}&~]/g, " ");
+  return countWords(text);
+}
+
+/** Inline math in `src`, which must already have display math and escaped dollars removed. */
+function countInlineMath(src: string): number {
+  const dollars = (src.match(/\$[^$]+\$/g) ?? []).length;
+  const parens = (src.match(/\\\([\s\S]*?\\\)/g) ?? []).length;
+  return dollars + parens;
+}
+
+export function analyzeLatexProject(files: ProjectFile[], mainFile: string): Omit<LatexStats, "pages"> {
+  const { source, body } = resolveProjectSource(files, mainFile);
+
+  // Captions are counted apart from running text.
+  let captionWords = 0;
+  let rest = "";
+  let cursor = 0;
+  for (const m of body.matchAll(/\\caption\*?\s*(?:\[[^\]]*\])?\s*/g)) {
+    if (m.index! < cursor) continue;
+    const group = readGroup(body, m.index! + m[0].length);
+    if (!group) continue;
+    captionWords += proseWords(group.text);
+    rest += body.slice(cursor, m.index);
+    cursor = group.end;
+  }
+  rest += body.slice(cursor);
+
+  let prose = rest;
+  let display = 0;
+  for (const env of DISPLAY_MATH_ENVIRONMENTS) {
+    display += countEnvironment(prose, env);
+    prose = stripEnvironment(prose, env);
+  }
+  for (const re of [/\\\[[\s\S]*?\\\]/g, /\$\$[\s\S]*?\$\$/g]) {
+    display += (prose.match(re) ?? []).length;
+    prose = prose.replace(re, " ");
+  }
+  prose = prose.replace(/\\\$/g, " ");
+  const inline = countInlineMath(prose);
+  prose = prose.replace(/\\\([\s\S]*?\\\)/g, " ").replace(/\$[^$]+\$/g, " ");
+  for (const env of NON_PROSE_ENVIRONMENTS) prose = stripEnvironment(prose, env);
+
+  const declared = [...source.matchAll(/\\newtheorem\*?\s*\{([^}]+)\}/g)].map((m) => m[1].trim());
+  const theorems: Record<string, number> = {};
+  for (const env of new Set([...THEOREM_ENVIRONMENTS, ...declared])) {
+    const n = countEnvironment(body, env);
+    if (n) theorems[env] = n;
+  }
+
+  const floatTables = countEnvironment(body, "table") + countEnvironment(body, "table*");
+  const bareTabulars = ["tabular", "tabular*", "tabularx", "longtable"].reduce(
+    (n, env) => n + countEnvironment(stripEnvironment(stripEnvironment(body, "table"), "table*"), env),
+    0
+  );
+  const countCommand = (name: string) => (body.match(new RegExp(`\\\\${name}\\*?\\s*[[{]`, "g")) ?? []).length;
+  const text = proseWords(prose);
+
+  return {
+    words: { text, captions: captionWords, total: text + captionWords },
+    equations: { display, inline },
+    sections: {
+      chapter: countCommand("chapter"),
+      section: countCommand("section"),
+      subsection: countCommand("subsection"),
+      subsubsection: countCommand("subsubsection"),
+    },
+    figures: countEnvironment(body, "figure") + countEnvironment(body, "figure*") + countEnvironment(body, "wrapfigure"),
+    tables: floatTables + bareTabulars,
+    theorems,
+  };
+}
@@ -0,0 +1,300 @@
+// app-api/src/lib/llm.ts
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import OpenAI from "openai";
+import { makeHttpError } from "./errors";
+
+/*
+ * Chat-model backends behind one interface, so the routes don't care whether
+ * they talk to OpenAI, a local OpenAI-compatible server (llama.cpp, Ollama,
+ * vLLM, ...) or responses recorded on disk.
+ */
+
+/** Model-backed jobs that can each be pointed at their own provider. */
+export const LLM_TASKS = ["generate", "fix"] as const;
+export type LlmTask = (typeof LLM_TASKS)[number];
+
+export const LLM_PROVIDER_KINDS = ["openai", "openai-compatible", "fixture"] as const;
+export type LlmProviderKind = (typeof LLM_PROVIDER_KINDS)[number];
+
+export type ChatContentPart = { type: "text"; text: string } | { type: "image_url"; image_url: { url: string } };
+
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string | ChatContentPart[] };
+
+export type ChatRequest = {
+  messages: ChatMessage[];
+  temperature?: number;
+  signal?: AbortSignal;
+};
+
+export type TokenUsage = { promptTokens: number; completionTokens: number; totalTokens: number };
+
+export type ChatResult = {
+  content: string;
+  /** As reported by the backend; null when it didn't say. */
+  usage: TokenUsage | null;
+};
+
+export type LlmProvider = {
+  kind: LlmProviderKind;
+  model: string;
+  /** Whether image parts reach the model; see textOnlyMessages for the others. */
+  vision: boolean;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  /** Same as chat, handing each piece of text to `onDelta` as it arrives. */
+  stream(request: ChatRequest, onDelta: (text: string) => void): Promise<ChatResult>;
+};
+
+/** Tokens a call cost: the reported usage, or roughly four characters per token. */
+export function tokenCost(request: ChatRequest, result: ChatResult): number {
+  if (result.usage) return result.usage.totalTokens;
+  const chars = request.messages.reduce(
+    (n, m) =>
+      n + (typeof m.content === "string" ? m.content.length : m.content.reduce((k, p) => k + (p.type === "text" ? p.text.length : 0), 0)),
+    result.content.length
+  );
+  return Math.ceil(chars / 4);
+}
+
+/** `messages` with image parts swapped for a note, for providers without vision. */
+export function textOnlyMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((m) =>
+    typeof m.content === "string"
+      ? m
+      : {
+        role: m.role,
+        content: m.content.map((p) =>
+          p.type === "image_url" ? { type: "text" as const, text: "[An image was attached but this model cannot read images.]" } : p
+        ),
+      }
+  );
+}
+
+function toUsage(raw: OpenAI.CompletionUsage | null | undefined): TokenUsage | null {
+  if (!raw) return null;
+  return { promptTokens: raw.prompt_tokens, completionTokens: raw.completion_tokens, totalTokens: raw.total_tokens };
+}
+
+// The SDK only allows content parts on user messages; ours never put them elsewhere.
+const openAIMessages = (messages: ChatMessage[]) => messages as OpenAI.ChatCompletionMessageParam[];
+
+function openAIChatProvider(kind: LlmProviderKind, client: OpenAI, model: string, vision: boolean): LlmProvider {
+  // Backend failures become 502/503s the routes pass through as they are; a local
+  // server that isn't running surfaces as a connection error, so say where we looked.
+  // Aborts (the client hung up) are left alone.
+  const unreachable = (e: unknown) => {
+    if (e instanceof OpenAI.APIConnectionError) {
+      return makeHttpError("The language model is unreachable right now. Try again shortly.", 502, `${client.baseURL}: ${e.message}`, "LLM_UNAVAILABLE");
+    }
+    if (e instanceof OpenAI.APIError && typeof e.status === "number") {
+      const busy = e.status === 429 || e.status >= 500;
+      return busy
+        ? makeHttpError("The language model is busy right now. Try again shortly.", 503, `${model}: ${e.message}`, "LLM_UNAVAILABLE")
+        : makeHttpError("The language model rejected the request.", 502, `${model}: ${e.message}`, "LLM_FAILED");
+    }
+    return e;
+  };
+
+  return {
+    kind,
+    model,
+    vision,
+
+    async chat(request) {
+      try {
+        const resp = await client.chat.completions.create(
+          { model, temperature: request.temperature, messages: openAIMessages(request.messages) },
+          { signal: request.signal }
+        );
+        return { content: resp.choices?.[0]?.message?.content ?? "", usage: toUsage(resp.usage) };
+      } catch (e) {
+        throw unreachable(e);
+      }
+    },
+
+    async stream(request, onDelta) {
+      try {
+        const chunks = await client.chat.completions.create(
+          {
+            model,
+            temperature: request.temperature,
+            messages: openAIMessages(request.messages),
+            stream: true,
+            stream_options: { include_usage: true },
+          },
+          { signal: request.signal }
+        );
+        let content = "";
+        let usage: TokenUsage | null = null;
+        for await (const chunk of chunks) {
+          const delta = chunk.choices?.[0]?.delta?.content ?? "";
+          if (delta) {
+            content += delta;
+            onDelta(delta);
+          }
+          if (chunk.usage) usage = toUsage(chunk.usage);
+        }
+        return { content, usage };
+      } catch (e) {
+        throw unreachable(e);
+      }
+    },
+  };
+}
+
+export function createOpenAIProvider(opts: { apiKey: string; model: string }): LlmProvider {
+  return openAIChatProvider("openai", new OpenAI({ apiKey: opts.apiKey }), opts.model, true);
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API at `baseURL`, e.g.
+ * llama.cpp's `http://localhost:8080/v1` or Ollama's `http://localhost:11434/v1`.
+ * Local servers usually ignore the key, so one isn't required.
+ */
+export function createOpenAICompatibleProvider(opts: {
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+  vision?: boolean;
+}): LlmProvider {
+  const client = new OpenAI({ baseURL: opts.baseURL, apiKey: opts.apiKey || "not-needed" });
+  return openAIChatProvider("openai-compatible", client, opts.model, opts.vision ?? false);
+}
+
+/**
+ * Fixtures are keyed by the messages and temperature only, so a response
+ * recorded against one model replays under any model name.
+ */
+export function fixtureKey(request: ChatRequest): string {
+  const canonical = JSON.stringify({ messages: request.messages, temperature: request.temperature ?? null });
+  return crypto.createHash("sha256").update(canonical).digest("hex").slice(0, 32);
+}
+
+type Fixture = { content: string; usage?: TokenUsage | null };
+
+/**
+ * Replays `<dir>/<fixtureKey>.json` files ({ content, usage? }) instead of
+ * calling a model: deterministic and offline. A request without a fixture
+ * fails with the file it looked for; withFixtureRecording writes them.
+ */
+export function createFixtureProvider(opts: { dir: string; model?: string }): LlmProvider {
+  const { dir } = opts;
+
+  async function replay(request: ChatRequest): Promise<ChatResult> {
+    const file = path.join(dir, `${fixtureKey(request)}.json`);
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(await fs.readFile(file, "utf8"));
+    } catch (e: any) {
+      throw makeHttpError(
+        "No recorded model response matches this request.",
+        500,
+        e?.code === "ENOENT" ? `missing fixture ${file}` : `unreadable fixture ${file}: ${e?.message ?? e}`,
+        "LLM_FIXTURE_MISSING"
+      );
+    }
+    return { content: String(fixture.content ?? ""), usage: fixture.usage ?? null };
+  }
+
+  return {
+    kind: "fixture",
+    model: opts.model || "fixture",
+    vision: true,
+    chat: replay,
+    async stream(request, onDelta) {
+      const result = await replay(request);
+      // Line by line, so streaming consumers see more than one delta.
+      for (const piece of result.content.match(/[^\n]*\n|[^\n]+$/g) ?? []) onDelta(piece);
+      return result;
+    },
+  };
+}
+
+/** Wraps `provider` so every response it gives is also saved as a fixture in `dir`. */
+export function withFixtureRecording(provider: LlmProvider, dir: string): LlmProvider {
+  async function record(request: ChatRequest, result: ChatResult): Promise<ChatResult> {
+    try {
+      await fs.mkdir(dir, { recursive: true });
+      const fixture: Fixture = { content: result.content, usage: result.usage };
+      await fs.writeFile(path.join(dir, `${fixtureKey(request)}.json`), JSON.stringify(fixture, null, 2));
+    } catch (e: any) {
+      console.warn(`[llm] could not record fixture in ${dir}:`, e?.message ?? e);
+    }
+    return result;
+  }
+
+  return {
+    ...provider,
+    chat: async (request) => record(request, await provider.chat(request)),
+    stream: async (request, onDelta) => record(request, await provider.stream(request, onDelta)),
+  };
+}
+
+export type LlmSettings = {
+  kind: LlmProviderKind;
+  model: string;
+  apiKey: string;
+  /** openai-compatible only. */
+  baseURL: string;
+  /** openai-compatible only; OpenAI models are assumed to read images. */
+  vision: boolean;
+  /** fixture: where to replay from. Any other kind: where to record to, if set. */
+  fixturesDir: string;
+};
+
+/**
+ * Settings for `task` from LLM_<TASK>_<NAME>, falling back to LLM_<NAME>:
+ * PROVIDER, MODEL, API_KEY, BASE_URL, VISION, FIXTURES_DIR. Throws on an
+ * unknown provider or a missing base URL so misconfiguration fails at startup.
+ */
+export function llmSettingsFromEnv(
+  task: LlmTask,
+  readEnv: (name: string) => string,
+  defaults: { apiKey: string; model: string }
+): LlmSettings {
+  const read = (name: string) => readEnv(`LLM_${task.toUpperCase()}_${name}`) || readEnv(`LLM_${name}`);
+
+  const kind = read("PROVIDER") || "openai";
+  if (!(LLM_PROVIDER_KINDS as readonly string[]).includes(kind)) {
+    throw new Error(`LLM provider for ${task}: unknown "${kind}" (use ${LLM_PROVIDER_KINDS.join(", ")}).`);
+  }
+  const settings: LlmSettings = {
+    kind: kind as LlmProviderKind,
+    model: read("MODEL") || defaults.model,
+    apiKey: read("API_KEY") || (kind === "openai" ? defaults.apiKey : ""),
+    baseURL: read("BASE_URL"),
+    vision: read("VISION").toLowerCase() === "true",
+    fixturesDir: read("FIXTURES_DIR"),
+  };
+  if (settings.kind === "openai-compatible" && !settings.baseURL) {
+    throw new Error(`LLM provider for ${task} is openai-compatible but no LLM_BASE_URL (or LLM_${task.toUpperCase()}_BASE_URL) is set.`);
+  }
+  if (settings.kind === "fixture" && !settings.fixturesDir) {
+    throw new Error(`LLM provider for ${task} is fixture but no LLM_FIXTURES_DIR (or LLM_${task.toUpperCase()}_FIXTURES_DIR) is set.`);
+  }
+  return settings;
+}
+
+export function createLlmProvider(settings: LlmSettings): LlmProvider {
+  switch (settings.kind) {
+    case "fixture":
+      return createFixtureProvider({ dir: path.resolve(settings.fixturesDir), model: settings.model });
+    case "openai-compatible":
+      return maybeRecording(
+        createOpenAICompatibleProvider({
+          baseURL: settings.baseURL,
+          model: settings.model,
+          apiKey: settings.apiKey,
+          vision: settings.vision,
+        }),
+        settings
+      );
+    case "openai":
+      return maybeRecording(createOpenAIProvider({ apiKey: settings.apiKey, model: settings.model }), settings);
+  }
+}
+
+function maybeRecording(provider: LlmProvider, settings: LlmSettings): LlmProvider {
+  return settings.fixturesDir ? withFixtureRecording(provider, path.resolve(settings.fixturesDir)) : provider;
+}
@@ -0,0 +1,347 @@
+// app-api/src/lib/mathml.ts
+
+/*
+ * A small TeX-math -> MathML translator for the built-in HTML export. It covers
+ * what our templates and generated notes use (scripts, fractions, roots, fences,
+ * Greek, common operators, matrices/aligned/cases); anything it doesn't know is
+ * kept as text, and the TeX source is always attached as an annotation.
+ */
+
+const IDENTIFIERS: Record<string, string> = {
+  alpha: "α", beta: "β", gamma: "γ", delta: "δ", epsilon: "ϵ", varepsilon: "ε", zeta: "ζ", eta: "η",
+  theta: "θ", vartheta: "ϑ", iota: "ι", kappa: "κ", lambda: "λ", mu: "μ", nu: "ν", xi: "ξ", pi: "π",
+  varpi: "ϖ", rho: "ρ", varrho: "ϱ", sigma: "σ", varsigma: "ς", tau: "τ", upsilon: "υ", phi: "ϕ",
+  varphi: "φ", chi: "χ", psi: "ψ", omega: "ω",
+  Gamma: "Γ", Delta: "Δ", Theta: "Θ", Lambda: "Λ", Xi: "Ξ", Pi: "Π", Sigma: "Σ", Upsilon: "Υ",
+  Phi: "Φ", Psi: "Ψ", Omega: "Ω",
+  infty: "∞", ell: "ℓ", hbar: "ℏ", emptyset: "∅", varnothing: "∅", partial: "∂", nabla: "∇",
+  aleph: "ℵ", Re: "ℜ", Im: "ℑ",
+};
+
+const OPERATORS: Record<string, string> = {
+  cdot: "⋅", times: "×", div: "÷", pm: "±", mp: "∓", ast: "∗", star: "⋆", circ: "∘", bullet: "∙",
+  leq: "≤", le: "≤", geq: "≥", ge: "≥", neq: "≠", ne: "≠", approx: "≈", equiv: "≡", sim: "∼",
+  simeq: "≃", cong: "≅", propto: "∝", ll: "≪", gg: "≫",
+  in: "∈", notin: "∉", ni: "∋", subset: "⊂", subseteq: "⊆", supset: "⊃", supseteq: "⊇",
+  cup: "∪", cap: "∩", setminus: "∖", wedge: "∧", land: "∧", vee: "∨", lor: "∨", neg: "¬", lnot: "¬",
+  forall: "∀", exists: "∃", nexists: "∄",
+  to: "→", rightarrow: "→", leftarrow: "←", leftrightarrow: "↔", Rightarrow: "⇒", Leftarrow: "⇐",
+  Leftrightarrow: "⇔", implies: "⟹", iff: "⟺", mapsto: "↦", uparrow: "↑", downarrow: "↓",
+  sum: "∑", prod: "∏", coprod: "∐", int: "∫", iint: "∬", iiint: "∭", oint: "∮",
+  bigcup: "⋃", bigcap: "⋂", oplus: "⊕", otimes: "⊗", perp: "⊥", parallel: "∥", mid: "∣",
+  ldots: "…", cdots: "⋯", vdots: "⋮", ddots: "⋱", dots: "…",
+  langle: "⟨", rangle: "⟩", lfloor: "⌊", rfloor: "⌋", lceil: "⌈", rceil: "⌉",
+  lbrace: "{", rbrace: "}", vert: "|", Vert: "‖", "|": "‖", "{": "{", "}": "}",
+  colon: ":", prime: "′", angle: "∠", triangle: "△", checkmark: "✓", surd: "√",
+};
+
+const FUNCTIONS = new Set([
+  "sin", "cos", "tan", "cot", "sec", "csc", "arcsin", "arccos", "arctan", "sinh", "cosh", "tanh",
+  "log", "ln", "lg", "exp", "lim", "liminf", "limsup", "max", "min", "sup", "inf", "det", "dim",
+  "ker", "gcd", "deg", "arg", "Pr", "mod",
+]);
+
+const ACCENTS: Record<string, string> = {
+  hat: "^", widehat: "^", bar: "¯", overline: "¯", vec: "→", dot: "˙", ddot: "¨", tilde: "~",
+  widetilde: "~", check: "ˇ", breve: "˘", acute: "´", grave: "`",
+};
+
+const SPACES: Record<string, string> = {
+  ",": "0.1667em", ":": "0.2222em", ">": "0.2222em", ";": "0.2778em", " ": "0.25em",
+  quad: "1em", qquad: "2em", "!": "0em",
+};
+
+const MATRIX_ENVIRONMENTS: Record<string, [string, string]> = {
+  matrix: ["", ""], pmatrix: ["(", ")"], bmatrix: ["[", "]"], Bmatrix: ["{", "}"],
+  vmatrix: ["|", "|"], Vmatrix: ["‖", "‖"], cases: ["{", ""], aligned: ["", ""], align: ["", ""],
+  "align*": ["", ""], gathered: ["", ""], array: ["", ""], split: ["", ""],
+};
+
+export function escapeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+type Token = { kind: "cmd" | "char" | "num" | "open" | "close"; value: string };
+
+function tokenize(tex: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < tex.length) {
+    const c = tex[i];
+    if (c === "\\") {
+      const m = tex.slice(i + 1).match(/^([A-Za-z]+\*?|.)/);
+      const name = m ? m[1] : "";
+      tokens.push({ kind: "cmd", value: name });
+      i += 1 + name.length;
+    } else if (c === "{") {
+      tokens.push({ kind: "open", value: c });
+      i++;
+    } else if (c === "}") {
+      tokens.push({ kind: "close", value: c });
+      i++;
+    } else if (/\d/.test(c)) {
+      const m = tex.slice(i).match(/^\d+(?:\.\d+)?/)!;
+      tokens.push({ kind: "num", value: m[0] });
+      i += m[0].length;
+    } else if (/\s/.test(c)) {
+      i++;
+    } else {
+      tokens.push({ kind: "char", value: c });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+class MathParser {
+  private pos = 0;
+  constructor(private tokens: Token[]) { }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.pos++];
+  }
+
+  /** Raw text of a {...} argument (for \text, \mathrm, environment names). */
+  private readRawGroup(): string {
+    const t = this.peek();
+    if (t?.kind !== "open") return t ? (this.next()!.value) : "";
+    this.next();
+    let depth = 1;
+    let out = "";
+    while (this.pos < this.tokens.length) {
+      const tok = this.next()!;
+      if (tok.kind === "open") depth++;
+      if (tok.kind === "close" && --depth === 0) break;
+      out += tok.kind === "cmd" ? `\\${tok.value} ` : tok.value;
+    }
+    return out.trim();
+  }
+
+  private readOptional(): string | null {
+    if (this.peek()?.kind !== "char" || this.peek()!.value !== "[") return null;
+    this.next();
+    let out = "";
+    while (this.pos < this.tokens.length && !(this.peek()!.kind === "char" && this.peek()!.value === "]")) {
+      const tok = this.next()!;
+      out += tok.kind === "cmd" ? `\\${tok.value} ` : tok.value;
+    }
+    this.next();
+    return out;
+  }
+
+  /** One argument: a group or a single token. */
+  private parseArgument(): string {
+    const t = this.peek();
+    if (!t) return "<mrow/>";
+    if (t.kind === "open") {
+      this.next();
+      const inner = this.parseSequence(["}"]);
+      this.next();
+      return `<mrow>${inner}</mrow>`;
+    }
+    return this.parseAtom() ?? "<mrow/>";
+  }
+
+  parseSequence(stops: string[]): string {
+    let out = "";
+    while (this.pos < this.tokens.length) {
+      const t = this.peek()!;
+      if (t.kind === "close" && stops.includes("}")) break;
+      if (t.kind === "cmd" && stops.includes(`\\${t.value}`)) break;
+      if (t.kind === "char" && stops.includes(t.value)) break;
+      const atom = this.parseAtom();
+      if (atom === null) continue;
+      out += this.parseScripts(atom);
+    }
+    return out;
+  }
+
+  private parseScripts(base: string): string {
+    let sub: string | null = null;
+    let sup: string | null = null;
+    for (; ;) {
+      const t = this.peek();
+      if (t?.kind === "char" && t.value === "_" && sub === null) {
+        this.next();
+        sub = this.parseArgument();
+      } else if (t?.kind === "char" && t.value === "^" && sup === null) {
+        this.next();
+        sup = this.parseArgument();
+      } else if (t?.kind === "char" && t.value === "'" && sup === null) {
+        this.next();
+        sup = "<mo>′</mo>";
+      } else {
+        break;
+      }
+    }
+    if (sub !== null && sup !== null) return `<msubsup>${base}${sub}${sup}</msubsup>`;
+    if (sub !== null) return `<msub>${base}${sub}</msub>`;
+    if (sup !== null) return `<msup>${base}${sup}</msup>`;
+    return base;
+  }
+
+  private parseTable(env: string): string {
+    if (env === "array") this.readRawGroup();
+    const rows: string[][] = [[]];
+    let cell = "";
+    while (this.pos < this.tokens.length) {
+      const t = this.peek()!;
+      if (t.kind === "cmd" && t.value === "end") {
+        this.next();
+        this.readRawGroup();
+        break;
+      }
+      if (t.kind === "char" && t.value === "&") {
+        this.next();
+        rows[rows.length - 1].push(cell);
+        cell = "";
+        continue;
+      }
+      if (t.kind === "cmd" && t.value === "\\") {
+        this.next();
+        this.readOptional();
+        rows[rows.length - 1].push(cell);
+        cell = "";
+        rows.push([]);
+        continue;
+      }
+      if (t.kind === "cmd" && t.value === "hline") {
+        this.next();
+        continue;
+      }
+      const atom = this.parseAtom();
+      if (atom !== null) cell += this.parseScripts(atom);
+    }
+    rows[rows.length - 1].push(cell);
+    const body = rows
+      .filter((r) => r.some((c) => c))
+      .map((r) => `<mtr>${r.map((c) => `<mtd><mrow>${c}</mrow></mtd>`).join("")}</mtr>`)
+      .join("");
+    const aligned = env.startsWith("align") || env === "aligned" || env === "split";
+    const table = `<mtable${aligned ? ' columnalign="right left" columnspacing="0"' : ""}>${body}</mtable>`;
+    const [open, close] = MATRIX_ENVIRONMENTS[env] ?? ["", ""];
+    if (!open && !close) return table;
+    return `<mrow>${open ? `<mo>${escapeXml(open)}</mo>` : ""}${table}${close ? `<mo>${escapeXml(close)}</mo>` : ""}</mrow>`;
+  }
+
+  private parseFence(): string {
+    const t = this.next();
+    if (!t) return "";
+    if (t.kind === "char") return t.value === "." ? "" : t.value;
+    if (t.kind === "cmd") return OPERATORS[t.value] ?? t.value;
+    return "";
+  }
+
+  parseAtom(): string | null {
+    const t = this.next();
+    if (!t) return null;
+
+    if (t.kind === "num") return `<mn>${t.value}</mn>`;
+    if (t.kind === "open") {
+      const inner = this.parseSequence(["}"]);
+      this.next();
+      return `<mrow>${inner}</mrow>`;
+    }
+    if (t.kind === "close") return null;
+    if (t.kind === "char") {
+      if (/[A-Za-z]/.test(t.value)) return `<mi>${t.value}</mi>`;
+      if (t.value === "&" || t.value === "~") return null;
+      return `<mo>${escapeXml(t.value)}</mo>`;
+    }
+
+    const name = t.value;
+    if (name in IDENTIFIERS) return `<mi>${IDENTIFIERS[name]}</mi>`;
+    if (name in OPERATORS) return `<mo>${escapeXml(OPERATORS[name])}</mo>`;
+    if (FUNCTIONS.has(name)) return `<mi mathvariant="normal">${name}</mi>`;
+    if (name in SPACES) return `<mspace width="${SPACES[name]}"/>`;
+    if (name in ACCENTS) {
+      return `<mover accent="true">${this.parseArgument()}<mo>${escapeXml(ACCENTS[name])}</mo></mover>`;
+    }
+
+    switch (name) {
+      case "frac":
+      case "dfrac":
+      case "tfrac":
+        return `<mfrac>${this.parseArgument()}${this.parseArgument()}</mfrac>`;
+      case "binom":
+        return `<mrow><mo>(</mo><mfrac linethickness="0">${this.parseArgument()}${this.parseArgument()}</mfrac><mo>)</mo></mrow>`;
+      case "sqrt": {
+        const index = this.readOptional();
+        const radicand = this.parseArgument();
+        if (index) return `<mroot>${radicand}<mn>${escapeXml(index)}</mn></mroot>`;
+        return `<msqrt>${radicand}</msqrt>`;
+      }
+      case "left": {
+        const open = this.parseFence();
+        const inner = this.parseSequence(["\\right"]);
+        this.next();
+        const close = this.parseFence();
+        return `<mrow>${open ? `<mo fence="true">${escapeXml(open)}</mo>` : ""}${inner}${close ? `<mo fence="true">${escapeXml(close)}</mo>` : ""}</mrow>`;
+      }
+      case "right":
+        return null;
+      case "text":
+      case "textrm":
+      case "textnormal":
+      case "mbox":
+      case "operatorname":
+        return name === "operatorname"
+          ? `<mi mathvariant="normal">${escapeXml(this.readRawGroup())}</mi>`
+          : `<mtext>${escapeXml(this.readRawGroup())}</mtext>`;
+      case "textbf":
+        return `<mtext mathvariant="bold">${escapeXml(this.readRawGroup())}</mtext>`;
+      case "mathrm":
+        return `<mi mathvariant="normal">${escapeXml(this.readRawGroup())}</mi>`;
+      case "mathbf":
+      case "boldsymbol":
+      case "bm":
+        return `<mstyle mathvariant="bold">${this.parseArgument()}</mstyle>`;
+      case "mathbb":
+        return `<mi mathvariant="double-struck">${escapeXml(this.readRawGroup())}</mi>`;
+      case "mathcal":
+        return `<mi mathvariant="script">${escapeXml(this.readRawGroup())}</mi>`;
+      case "mathit":
+        return `<mstyle mathvariant="italic">${this.parseArgument()}</mstyle>`;
+      case "begin": {
+        const env = this.readRawGroup();
+        return this.parseTable(env);
+      }
+      case "end":
+        this.readRawGroup();
+        return null;
+      case "\\":
+        return null;
+      case "limits":
+      case "nolimits":
+      case "displaystyle":
+      case "textstyle":
+      case "label":
+        if (name === "label") this.readRawGroup();
+        return null;
+      default:
+        return `<mi>${escapeXml(name)}</mi>`;
+    }
+  }
+}
+
+/** MathML for one formula; `display` for block formulas. */
+export function texToMathML(tex: string, display: boolean): string {
+  let inner: string;
+  try {
+    const trimmed = tex.trim();
+    // align/gather bodies arrive without their environment; rows need a table.
+    const source = /\\\\/.test(trimmed) && !/\\begin\s*\{/.test(trimmed) ? `\\begin{aligned}${trimmed}\\end{aligned}` : trimmed;
+    inner = new MathParser(tokenize(source)).parseSequence([]);
+  } catch {
+    inner = `<mtext>${escapeXml(tex)}</mtext>`;
+  }
+  return (
+    `<math xmlns="http://www.w3.org/1998/Math/MathML"${display ? ' display="block"' : ""}>` +
+    `<semantics><mrow>${inner}</mrow><annotation encoding="application/x-tex">${escapeXml(tex.trim())}</annotation></semantics>` +
+    "</math>"
+  );
+}
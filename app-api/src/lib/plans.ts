@@ -0,0 +1,96 @@
+// app-api/src/lib/plans.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { makeHttpError } from "./errors";
+
+export type Plan = "free" | "pro";
+
+export type Caller = { userId: string | null; plan: Plan };
+
+/** Attachments one generate request may carry, per plan. */
+export const ATTACHMENT_LIMITS: Record<Plan, number> = { free: 2, pro: 5 };
+
+// The Stripe router sets profiles.plan to "pro" on checkout but only ever
+// updates subscription_status afterwards, so both have to agree.
+const ACTIVE_SUBSCRIPTION_STATUSES = new Set(["active", "trialing"]);
+
+// Short enough that an upgrade shows up within a minute of the webhook.
+const PLAN_CACHE_TTL_MS = 60_000;
+const PLAN_CACHE_MAX_ENTRIES = 5000;
+// Verified tokens are reused briefly so polling routes don't ask Supabase every
+// time, but never past the token's own expiry, and a signed-out or revoked
+// session stops working within this window.
+const TOKEN_CACHE_TTL_MS = 10_000;
+
+/** When the JWT `token` expires (its `exp` claim, in ms), or null if it has none. */
+function tokenExpiry(token: string): number | null {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split(".")[1] ?? "", "base64url").toString("utf8"));
+    return typeof payload?.exp === "number" ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export type PlanResolver = {
+  /** The plan of `userId`; anonymous callers are on the free plan. */
+  planFor(userId: string | null): Promise<Plan>;
+  /**
+   * The caller behind an `Authorization: Bearer <Supabase access token>` header.
+   * No header means an anonymous caller; a token Supabase rejects is a 401.
+   */
+  resolveCaller(authorization: string | undefined): Promise<Caller>;
+};
+
+export function createPlanResolver(opts: { supabaseAdmin: SupabaseClient | null }): PlanResolver {
+  const { supabaseAdmin } = opts;
+  const cache = new Map<string, { plan: Plan; expiresAt: number }>();
+  const verifiedTokens = new Map<string, { userId: string; expiresAt: number }>();
+
+  async function planFor(userId: string | null): Promise<Plan> {
+    if (!userId || !supabaseAdmin) return "free";
+
+    const cached = cache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) return cached.plan;
+
+    const { data, error } = await supabaseAdmin
+      .from("profiles")
+      .select("plan, subscription_status")
+      .eq("id", userId)
+      .maybeSingle();
+    if (error) {
+      throw makeHttpError("Could not look up your plan.", 500, error.message, "PLAN_LOOKUP_FAILED");
+    }
+
+    const plan: Plan =
+      data?.plan === "pro" && ACTIVE_SUBSCRIPTION_STATUSES.has(String(data?.subscription_status ?? "")) ? "pro" : "free";
+    if (cache.size >= PLAN_CACHE_MAX_ENTRIES) cache.clear();
+    cache.set(userId, { plan, expiresAt: Date.now() + PLAN_CACHE_TTL_MS });
+    return plan;
+  }
+
+  async function resolveCaller(authorization: string | undefined): Promise<Caller> {
+    const token = /^Bearer\s+(\S+)$/i.exec(authorization?.trim() ?? "")?.[1];
+    if (!token || !supabaseAdmin) return { userId: null, plan: "free" };
+
+    const verified = verifiedTokens.get(token);
+    if (verified && verified.expiresAt > Date.now()) {
+      return { userId: verified.userId, plan: await planFor(verified.userId) };
+    }
+
+    const { data, error } = await supabaseAdmin.auth.getUser(token);
+    if (error || !data?.user) {
+      throw makeHttpError("Your session has expired. Sign in again.", 401, error?.message, "AUTH_INVALID");
+    }
+    if (verifiedTokens.size >= PLAN_CACHE_MAX_ENTRIES) verifiedTokens.clear();
+    const expiresAt = Math.min(Date.now() + TOKEN_CACHE_TTL_MS, tokenExpiry(token) ?? Infinity);
+    verifiedTokens.set(token, { userId: data.user.id, expiresAt });
+    return { userId: data.user.id, plan: await planFor(data.user.id) };
+  }
+
+  return { planFor, resolveCaller };
+}
+
+/** 403 with the code the web app maps to its upgrade prompt. */
+export function makeProRequiredError(message: string) {
+  return makeHttpError(message, 403, undefined, "PRO_REQUIRED");
+}
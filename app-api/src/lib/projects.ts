@@ -0,0 +1,40 @@
+// app-api/src/lib/projects.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type ProjectAccess = {
+  /** Whether `projectId` is one of `userId`'s projects. False when it can't be checked. */
+  ownsProject(userId: string, projectId: string): Promise<boolean>;
+};
+
+const OWNERSHIP_CACHE_TTL_MS = 60_000;
+const OWNERSHIP_CACHE_MAX_ENTRIES = 5000;
+
+export function createProjectAccess(opts: { supabaseAdmin: SupabaseClient | null }): ProjectAccess {
+  const { supabaseAdmin } = opts;
+  // Only confirmed ownership is cached; projects don't change hands.
+  const owned = new Map<string, number>();
+
+  return {
+    async ownsProject(userId, projectId) {
+      if (!supabaseAdmin) return false;
+      const key = `${userId}:${projectId}`;
+      const expiresAt = owned.get(key);
+      if (expiresAt && expiresAt > Date.now()) return true;
+
+      const { data, error } = await supabaseAdmin
+        .from("projects")
+        .select("id")
+        .eq("id", projectId)
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (error) {
+        console.warn(`[projects] ownership check failed for ${projectId}:`, error.message);
+        return false;
+      }
+      if (!data) return false;
+      if (owned.size >= OWNERSHIP_CACHE_MAX_ENTRIES) owned.clear();
+      owned.set(key, Date.now() + OWNERSHIP_CACHE_TTL_MS);
+      return true;
+    },
+  };
+}
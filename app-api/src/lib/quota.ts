@@ -0,0 +1,198 @@
+// app-api/src/lib/quota.ts
+import crypto from "crypto";
+import type { Request, Response } from "express";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { makeHttpError } from "./errors";
+import type { Caller } from "./plans";
+import type { ClientAddressResolver } from "./clientAddress";
+
+/*
+ * Monthly message quota for model-backed requests (see add_message_quota.sql).
+ * A request reserves one unit before calling the model and refunds it if it
+ * fails, so the count only moves for requests that produced something.
+ */
+
+export type QuotaLimits = {
+  /** Per anonymous session cookie. */
+  anonymous: number;
+  /** Per client IP, across all anonymous sessions from it. */
+  anonymousPerIp: number;
+  free: number;
+  pro: number;
+};
+
+export type QuotaStatus = {
+  used: number;
+  limit: number;
+  remaining: number;
+  /** ISO time the current period ends. */
+  resetsAt: string;
+};
+
+export type QuotaReservation = {
+  status: QuotaStatus | null;
+  /** Give the unit back after a failed request; returns the status after the refund. */
+  refund(): Promise<QuotaStatus | null>;
+};
+
+export type QuotaStore = {
+  enabled: boolean;
+  /** Where `caller` stands this period; null when metering is off. */
+  status(req: Request, caller: Caller): Promise<QuotaStatus | null>;
+  /** Take one unit for `caller`, or throw 429 QUOTA_EXCEEDED with `quota` on the error. */
+  reserve(req: Request, res: Response, caller: Caller): Promise<QuotaReservation>;
+};
+
+export const ANON_SESSION_COOKIE = "bn_anon";
+const ANON_SESSION_MAX_AGE_S = 365 * 24 * 60 * 60;
+
+type Bucket = { subject: string; limit: number };
+
+function periodOf(now: Date): { start: string; end: string } {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { start: start.toISOString(), end: end.toISOString() };
+}
+
+function readCookie(header: string | undefined, name: string): string | null {
+  for (const part of (header ?? "").split(";")) {
+    const eq = part.indexOf("=");
+    if (eq !== -1 && part.slice(0, eq).trim() === name) return part.slice(eq + 1).trim();
+  }
+  return null;
+}
+
+/** The tightest of several bucket statuses: whichever has the fewest units left. */
+function tightest(statuses: QuotaStatus[]): QuotaStatus {
+  return statuses.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+}
+
+export function createQuotaStore(opts: {
+  supabaseAdmin: SupabaseClient | null;
+  limits: QuotaLimits;
+  /** Signs anonymous session cookies and salts IP hashes. */
+  secret: string;
+  /** The address anonymous callers share a bucket by. */
+  clientAddress: ClientAddressResolver;
+}): QuotaStore {
+  const { supabaseAdmin, limits, secret, clientAddress } = opts;
+
+  const sign = (id: string) => crypto.createHmac("sha256", secret).update(id).digest("base64url").slice(0, 32);
+
+  function verifiedSessionId(req: Request): string | null {
+    const raw = readCookie(req.headers.cookie, ANON_SESSION_COOKIE);
+    const dot = raw?.lastIndexOf(".") ?? -1;
+    if (!raw || dot <= 0) return null;
+    const id = raw.slice(0, dot);
+    const given = Buffer.from(raw.slice(dot + 1));
+    const expected = Buffer.from(sign(id));
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected) ? id : null;
+  }
+
+  function issueSession(res: Response): string {
+    const id = crypto.randomUUID();
+    const attrs = [`Path=/`, `Max-Age=${ANON_SESSION_MAX_AGE_S}`, "HttpOnly", "SameSite=Lax"];
+    if (process.env.NODE_ENV === "production") attrs.push("Secure");
+    res.append("Set-Cookie", `${ANON_SESSION_COOKIE}=${id}.${sign(id)}; ${attrs.join("; ")}`);
+    return id;
+  }
+
+  function bucketsFor(req: Request, caller: Caller, sessionId: string | null): Bucket[] {
+    if (caller.userId) return [{ subject: `user:${caller.userId}`, limit: limits[caller.plan] }];
+    const ipHash = crypto.createHmac("sha256", secret).update(clientAddress(req)).digest("hex").slice(0, 32);
+    const buckets: Bucket[] = [{ subject: `ip:${ipHash}`, limit: limits.anonymousPerIp }];
+    if (sessionId) buckets.unshift({ subject: `anon:${sessionId}`, limit: limits.anonymous });
+    return buckets;
+  }
+
+  function unavailable(message: string) {
+    return makeHttpError("Usage metering is unavailable right now. Try again shortly.", 503, message, "QUOTA_UNAVAILABLE");
+  }
+
+  async function bucketStatus(db: SupabaseClient, bucket: Bucket, period: { start: string; end: string }): Promise<QuotaStatus> {
+    const { data, error } = await db
+      .from("message_quota")
+      .select("used")
+      .eq("subject", bucket.subject)
+      .eq("period_start", period.start)
+      .maybeSingle();
+    if (error) throw unavailable(error.message);
+    return toStatus(Number(data?.used ?? 0), bucket.limit, period);
+  }
+
+  function toStatus(used: number, limit: number, period: { end: string }): QuotaStatus {
+    return { used, limit, remaining: Math.max(0, limit - used), resetsAt: period.end };
+  }
+
+  async function refundBucket(db: SupabaseClient, bucket: Bucket, period: { start: string; end: string }): Promise<QuotaStatus | null> {
+    const { data, error } = await db.rpc("refund_message_quota", { p_subject: bucket.subject, p_period_start: period.start });
+    if (error) {
+      // The user loses one unit; not worth failing the response over.
+      console.warn(`[quota] refund failed for ${bucket.subject}:`, error.message);
+      return null;
+    }
+    return toStatus(Number(data ?? 0), bucket.limit, period);
+  }
+
+  return {
+    enabled: Boolean(supabaseAdmin),
+
+    async status(req, caller) {
+      if (!supabaseAdmin) return null;
+      const period = periodOf(new Date());
+      const buckets = bucketsFor(req, caller, caller.userId ? null : verifiedSessionId(req));
+      return tightest(await Promise.all(buckets.map((b) => bucketStatus(supabaseAdmin, b, period))));
+    },
+
+    async reserve(req, res, caller) {
+      if (!supabaseAdmin) return { status: null, refund: async () => null };
+      const db = supabaseAdmin;
+
+      const period = periodOf(new Date());
+      const sessionId = caller.userId ? null : (verifiedSessionId(req) ?? issueSession(res));
+      const buckets = bucketsFor(req, caller, sessionId);
+
+      // Buckets are taken in order; if a later one is full, the earlier ones are given back.
+      const taken: Bucket[] = [];
+      const statuses: QuotaStatus[] = [];
+      const refundTaken = async () => {
+        const after = await Promise.all(taken.splice(0).map((b) => refundBucket(db, b, period)));
+        const refunded = after.filter((s): s is QuotaStatus => s !== null);
+        return refunded.length ? tightest(refunded) : null;
+      };
+
+      for (const bucket of buckets) {
+        const { data, error } = await db
+          .rpc("reserve_message_quota", { p_subject: bucket.subject, p_period_start: period.start, p_limit: bucket.limit })
+          .single();
+        if (error) {
+          await refundTaken();
+          throw unavailable(error.message);
+        }
+        const row = data as { allowed: boolean; used: number };
+        const status = toStatus(Number(row.used ?? 0), bucket.limit, period);
+        if (!row.allowed) {
+          await refundTaken();
+          const err: any = makeHttpError(
+            caller.userId
+              ? `You've used all ${bucket.limit} messages for this month.`
+              : "Sign up to keep generating documents.",
+            429,
+            undefined,
+            "QUOTA_EXCEEDED"
+          );
+          err.quota = status;
+          throw err;
+        }
+        taken.push(bucket);
+        statuses.push(status);
+      }
+
+      const status = tightest(statuses);
+      return {
+        status,
+        refund: async () => (await refundTaken()) ?? status,
+      };
+    },
+  };
+}
@@ -0,0 +1,168 @@
+// app-api/src/lib/rateLimit.ts
+import type { RequestHandler } from "express";
+import { callerOf } from "./auth";
+import type { ClientAddressResolver } from "./clientAddress";
+
+/*
+ * Token-bucket rate limiting for the expensive routes, on top of the monthly
+ * quota: a bucket holds up to `capacity` requests and refills continuously at
+ * `refillPerMinute`, so short bursts pass and sustained floods get 429s.
+ */
+
+/** Route groups that share a bucket. */
+export const RATE_LIMIT_ROUTES = ["generate", "compile"] as const;
+export type RateLimitRoute = (typeof RATE_LIMIT_ROUTES)[number];
+
+export const RATE_LIMIT_TIERS = ["anonymous", "free", "pro"] as const;
+export type RateLimitTier = (typeof RATE_LIMIT_TIERS)[number];
+
+export type TokenBucketRule = { capacity: number; refillPerMinute: number };
+
+export type RateLimitConfig = Record<RateLimitRoute, Record<RateLimitTier, TokenBucketRule>>;
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  generate: {
+    anonymous: { capacity: 3, refillPerMinute: 2 },
+    free: { capacity: 6, refillPerMinute: 4 },
+    pro: { capacity: 20, refillPerMinute: 12 },
+  },
+  compile: {
+    anonymous: { capacity: 10, refillPerMinute: 6 },
+    free: { capacity: 20, refillPerMinute: 15 },
+    pro: { capacity: 60, refillPerMinute: 40 },
+  },
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  /** Whole requests left in the bucket after this one. */
+  remaining: number;
+  /** When not allowed: how long until one request's worth has refilled. */
+  retryAfterMs: number;
+};
+
+/**
+ * Where buckets live. The in-memory store is per process; a shared store
+ * (Redis, Postgres, ...) implementing this type limits across instances.
+ */
+export type RateLimitStore = {
+  take(key: string, rule: TokenBucketRule): Promise<RateLimitDecision>;
+};
+
+/** Decide one request against a bucket last seen at `updatedAt` with `tokens` left. */
+export function takeToken(
+  bucket: { tokens: number; updatedAt: number } | undefined,
+  rule: TokenBucketRule,
+  now: number
+): { decision: RateLimitDecision; bucket: { tokens: number; updatedAt: number } } {
+  const perMs = rule.refillPerMinute / 60_000;
+  const tokens = bucket ? Math.min(rule.capacity, bucket.tokens + (now - bucket.updatedAt) * perMs) : rule.capacity;
+  if (tokens >= 1) {
+    return {
+      decision: { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 },
+      bucket: { tokens: tokens - 1, updatedAt: now },
+    };
+  }
+  // A bucket that never refills (or holds nothing) stays closed; ask for a minute.
+  const retryAfterMs = perMs > 0 && rule.capacity >= 1 ? Math.ceil((1 - tokens) / perMs) : 60_000;
+  return { decision: { allowed: false, remaining: 0, retryAfterMs }, bucket: { tokens, updatedAt: now } };
+}
+
+/** Buckets in a Map, least recently used dropped first once there are `maxKeys`. */
+export function createMemoryRateLimitStore(opts: { maxKeys?: number } = {}): RateLimitStore {
+  const maxKeys = Math.max(1, Math.floor(opts.maxKeys ?? 10_000));
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  return {
+    async take(key, rule) {
+      const { decision, bucket } = takeToken(buckets.get(key), rule, Date.now());
+      buckets.delete(key);
+      buckets.set(key, bucket);
+      if (buckets.size > maxKeys) buckets.delete(buckets.keys().next().value as string);
+      return decision;
+    },
+  };
+}
+
+function isRule(raw: any): raw is TokenBucketRule {
+  return (
+    raw && typeof raw === "object" &&
+    Number.isFinite(raw.capacity) && raw.capacity >= 0 &&
+    Number.isFinite(raw.refillPerMinute) && raw.refillPerMinute >= 0
+  );
+}
+
+/**
+ * Overrides from RATE_LIMITS, e.g. {"generate":{"free":{"capacity":10,"refillPerMinute":5}}},
+ * merged over the defaults. Throws on anything it doesn't recognise so a typo
+ * fails at startup instead of silently keeping the default.
+ */
+export function parseRateLimitConfig(raw: string, defaults: RateLimitConfig = DEFAULT_RATE_LIMITS): RateLimitConfig {
+  const config = JSON.parse(JSON.stringify(defaults)) as RateLimitConfig;
+  if (!raw.trim()) return config;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e: any) {
+    throw new Error(`RATE_LIMITS is not valid JSON: ${e?.message ?? e}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("RATE_LIMITS must be a JSON object.");
+
+  for (const [route, tiers] of Object.entries<any>(parsed)) {
+    if (!(RATE_LIMIT_ROUTES as readonly string[]).includes(route)) {
+      throw new Error(`RATE_LIMITS: unknown route "${route}" (use ${RATE_LIMIT_ROUTES.join(", ")}).`);
+    }
+    if (!tiers || typeof tiers !== "object") throw new Error(`RATE_LIMITS.${route} must be an object.`);
+    for (const [tier, rule] of Object.entries<any>(tiers)) {
+      if (!(RATE_LIMIT_TIERS as readonly string[]).includes(tier)) {
+        throw new Error(`RATE_LIMITS.${route}: unknown plan "${tier}" (use ${RATE_LIMIT_TIERS.join(", ")}).`);
+      }
+      if (!isRule(rule)) {
+        throw new Error(`RATE_LIMITS.${route}.${tier} needs non-negative "capacity" and "refillPerMinute".`);
+      }
+      config[route as RateLimitRoute][tier as RateLimitTier] = { capacity: rule.capacity, refillPerMinute: rule.refillPerMinute };
+    }
+  }
+  return config;
+}
+
+export type RateLimiter = (route: RateLimitRoute) => RequestHandler;
+
+/**
+ * Middleware factory: `rateLimit("compile")` takes a token from the caller's bucket
+ * for that route group. Signed-in callers are keyed by user, anonymous ones by
+ * `clientAddress`. Must run after the access guard so `req.caller` is set.
+ */
+export function createRateLimiter(opts: {
+  store: RateLimitStore;
+  limits: RateLimitConfig;
+  clientAddress: ClientAddressResolver;
+}): RateLimiter {
+  const { store, limits, clientAddress } = opts;
+
+  return (route) => async (req, res, next) => {
+    const caller = callerOf(req);
+    const tier: RateLimitTier = caller.userId ? caller.plan : "anonymous";
+    const key = `${route}:${caller.userId ? `user:${caller.userId}` : `ip:${clientAddress(req)}`}`;
+
+    let decision: RateLimitDecision;
+    try {
+      decision = await store.take(key, limits[route][tier]);
+    } catch (e: any) {
+      // A shared store being down shouldn't take the API with it.
+      console.warn(`[rate-limit] store error for ${key}, allowing:`, e?.message ?? e);
+      return next();
+    }
+    if (decision.allowed) return next();
+
+    const retryAfter = Math.max(1, Math.ceil(decision.retryAfterMs / 1000));
+    res.setHeader("Retry-After", String(retryAfter));
+    return res.status(429).json({
+      ok: false,
+      error: `Too many requests. Try again in ${retryAfter} second${retryAfter === 1 ? "" : "s"}.`,
+      code: "RATE_LIMITED",
+      retryAfter,
+    });
+  };
+}
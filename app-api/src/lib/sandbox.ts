@@ -0,0 +1,260 @@
+// app-api/src/lib/sandbox.ts
+import path from "path";
+import { promisify } from "util";
+import { execFile } from "child_process";
+import { extractExecOutput, makeHttpError } from "./errors";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Resource caps applied to every TeX compile. We run this service for
+ * anonymous users, so every compile is treated as untrusted input.
+ */
+export type SandboxLimits = {
+  maxInputBytes: number; // total decoded size of all project files
+  maxFiles: number;
+  maxOutputBytes: number; // max size of any file written (and of the final PDF)
+  memoryKb: number; // per-process virtual memory (ulimit -v)
+  cpuSeconds: number; // per-process CPU time (ulimit -t)
+};
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  maxInputBytes: 15 * 1024 * 1024,
+  maxFiles: 200,
+  maxOutputBytes: 50 * 1024 * 1024,
+  memoryKb: 2 * 1024 * 1024,
+  cpuSeconds: 120,
+};
+
+/* -------------------------
+   paths
+------------------------- */
+
+// latexmk executes these as Perl from the working directory.
+const FORBIDDEN_BASENAMES = new Set(["latexmkrc", ".latexmkrc", "texmf.cnf"]);
+
+function rejectPath(rawPath: string, reason: string): never {
+  throw makeHttpError(
+    `[LATEX_PATH_REJECTED] File path "${rawPath}" is not allowed: ${reason}.`,
+    400,
+    undefined,
+    "LATEX_PATH_REJECTED"
+  );
+}
+
+/**
+ * Validate a project-relative path and return its normalised form
+ * ("./a\\b.tex" -> "a/b.tex"). Absolute paths, parent-directory segments,
+ * dotfiles and latexmk rc files are rejected.
+ */
+export function normalizeProjectPath(rawPath: string): string {
+  if (typeof rawPath !== "string" || !rawPath.trim()) rejectPath(String(rawPath), "empty path");
+  if (rawPath.includes("\0")) rejectPath(rawPath, "contains a null byte");
+
+  const slashed = rawPath.trim().replace(/\\/g, "/");
+  if (slashed.startsWith("/") || /^[a-zA-Z]:/.test(slashed) || slashed.startsWith("~")) {
+    rejectPath(rawPath, "absolute paths are not allowed");
+  }
+
+  const normalized = path.posix.normalize(slashed).replace(/^(\.\/)+/, "");
+  const segments = normalized.split("/");
+  if (segments.some((s) => s === "..")) rejectPath(rawPath, "parent-directory segments are not allowed");
+  if (segments.some((s) => s.startsWith("."))) rejectPath(rawPath, "hidden files are not allowed");
+  if (FORBIDDEN_BASENAMES.has(segments[segments.length - 1].toLowerCase())) {
+    rejectPath(rawPath, "build configuration files are not allowed");
+  }
+  return normalized;
+}
+
+/* -------------------------
+   source checks
+------------------------- */
+
+const FILE_ARG_COMMANDS =
+  /\\(input|include|InputIfFileExists|includegraphics|includepdf|lstinputlisting|verbatiminput|bibliography|addbibresource)\*?\s*(?:\[[^\]]*\]\s*)?\{([^}]*)\}/g;
+const BARE_INPUT = /\\input\s+([^\s{}\\%]+)/g;
+
+function isEscapingTexPath(p: string): boolean {
+  const t = p.trim().replace(/\\/g, "/");
+  if (!t) return false;
+  return t.startsWith("/") || t.startsWith("~") || /^[a-zA-Z]:/.test(t) || t.split("/").includes("..");
+}
+
+/**
+ * Static pre-check for things kpathsea's paranoid mode would also block, so the
+ * user gets a precise error instead of a generic compile failure.
+ */
+export function assertSafeLatexSource(source: string, filePath: string) {
+  const uncommented = source.replace(/(^|[^\\])%.*$/gm, "$1");
+
+  if (/\\write\s*18\b/.test(uncommented) || /\\ShellEscape\b/.test(uncommented)) {
+    throw makeHttpError(
+      `[LATEX_SHELL_ESCAPE_REJECTED] ${filePath} tries to run shell commands (\\write18), which is disabled.`,
+      400,
+      undefined,
+      "LATEX_SHELL_ESCAPE_REJECTED"
+    );
+  }
+
+  const targets: string[] = [];
+  for (const m of uncommented.matchAll(FILE_ARG_COMMANDS)) {
+    targets.push(...m[2].split(","));
+  }
+  for (const m of uncommented.matchAll(BARE_INPUT)) targets.push(m[1]);
+
+  const escaping = targets.find(isEscapingTexPath);
+  if (escaping) {
+    throw makeHttpError(
+      `[LATEX_PATH_REJECTED] ${filePath} references "${escaping.trim()}" outside the project.`,
+      400,
+      undefined,
+      "LATEX_PATH_REJECTED"
+    );
+  }
+}
+
+export function assertInputWithinLimits(files: Array<{ content: string; isBinary?: boolean }>, limits: SandboxLimits) {
+  if (files.length > limits.maxFiles) {
+    throw makeHttpError(
+      `[LATEX_INPUT_TOO_LARGE] Too many files (${files.length}, max ${limits.maxFiles}).`,
+      413,
+      undefined,
+      "LATEX_INPUT_TOO_LARGE"
+    );
+  }
+
+  let total = 0;
+  for (const f of files) {
+    // base64 decodes to ~3/4 of its length
+    total += f.isBinary ? Math.floor((f.content.length * 3) / 4) : Buffer.byteLength(f.content, "utf8");
+  }
+  if (total > limits.maxInputBytes) {
+    throw makeHttpError(
+      `[LATEX_INPUT_TOO_LARGE] Project input is ${total} bytes (max ${limits.maxInputBytes}).`,
+      413,
+      undefined,
+      "LATEX_INPUT_TOO_LARGE"
+    );
+  }
+}
+
+export function assertOutputWithinLimits(pdf: Buffer, limits: SandboxLimits, log: string) {
+  if (pdf.length > limits.maxOutputBytes) {
+    throw makeHttpError(
+      `[LATEX_OUTPUT_TOO_LARGE] Generated PDF is ${pdf.length} bytes (max ${limits.maxOutputBytes}).`,
+      413,
+      log,
+      "LATEX_OUTPUT_TOO_LARGE"
+    );
+  }
+}
+
+/* -------------------------
+   process
+------------------------- */
+
+// What a TeX run may see of our environment. Everything else (API keys, the
+// Supabase service-role key, signing secrets) stays out: LuaTeX's os.getenv
+// reads the environment whatever -no-shell-escape says.
+const SANDBOX_ENV_ALLOWLIST = ["PATH", "LANG", "LANGUAGE", "LC_ALL", "LC_CTYPE", "TZ", "SOURCE_DATE_EPOCH"];
+
+function sandboxEnv(workDir: string): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const [name, value] of Object.entries(process.env)) {
+    if (SANDBOX_ENV_ALLOWLIST.includes(name) || name.startsWith("TEXMF")) env[name] = value;
+  }
+  return {
+    ...env,
+    HOME: workDir,
+    // kpathsea: only read/write inside the working directory, never shell out.
+    openin_any: "p",
+    openout_any: "p",
+    shell_escape: "f",
+    TEXMFOUTPUT: workDir,
+  };
+}
+
+function detectLimitViolation(e: any, output: string): { code: string; message: string } | null {
+  const signal = typeof e?.signal === "string" ? e.signal : "";
+  if (signal === "SIGXCPU" || /cpu ?time limit exceeded/i.test(output)) {
+    return { code: "LATEX_CPU_LIMIT", message: "[LATEX_CPU_LIMIT] Compilation exceeded the CPU time limit." };
+  }
+  if (signal === "SIGXFSZ" || /file size limit exceeded/i.test(output)) {
+    return { code: "LATEX_OUTPUT_TOO_LARGE", message: "[LATEX_OUTPUT_TOO_LARGE] Compilation wrote a file larger than allowed." };
+  }
+  if (/memory exhausted|cannot allocate memory|out of memory/i.test(output)) {
+    return { code: "LATEX_MEMORY_LIMIT", message: "[LATEX_MEMORY_LIMIT] Compilation exceeded the memory limit." };
+  }
+  return null;
+}
+
+/**
+ * `cmd args` wrapped so that, on Linux, it runs under the CPU, memory and
+ * file-size rlimits in `limits`; unchanged elsewhere. When wrapped, a missing
+ * `cmd` shows up as exit code 127 from the shell rather than ENOENT.
+ */
+export function withRlimits(cmd: string, args: string[], limits: SandboxLimits): { file: string; args: string[] } {
+  if (process.platform !== "linux") return { file: cmd, args };
+  return {
+    file: "sh",
+    args: [
+      "-c",
+      [
+        `ulimit -t ${Math.max(1, Math.floor(limits.cpuSeconds))}`,
+        `ulimit -v ${Math.max(1024, Math.floor(limits.memoryKb))}`,
+        // 512-byte blocks
+        `ulimit -f ${Math.max(1, Math.ceil(limits.maxOutputBytes / 512))}`,
+        'exec "$0" "$@"',
+      ].join("; "),
+      cmd,
+      ...args,
+    ],
+  };
+}
+
+/**
+ * Run a TeX tool (latexmk, pdflatex, ...) with paranoid kpathsea settings and,
+ * on Linux, per-process rlimits. A non-zero exit is NOT an error here (the
+ * caller inspects the log/PDF); only sandbox limit violations throw.
+ * `onOutput` receives stdout/stderr chunks as they arrive.
+ */
+export async function runSandboxedTex(
+  cmd: string,
+  args: string[],
+  opts: {
+    cwd: string;
+    workDir: string;
+    timeoutMs: number;
+    limits: SandboxLimits;
+    onOutput?: (chunk: string, stream: "stdout" | "stderr") => void;
+  }
+): Promise<{ output: string; failed: boolean }> {
+  const { file, args: fileArgs } = withRlimits(cmd, args, opts.limits);
+
+  try {
+    const running = execFileAsync(file, fileArgs, {
+      cwd: opts.cwd,
+      env: sandboxEnv(opts.workDir),
+      timeout: opts.timeoutMs,
+      maxBuffer: 20 * 1024 * 1024,
+    });
+    if (opts.onOutput) {
+      const onOutput = opts.onOutput;
+      running.child.stdout?.on("data", (chunk: Buffer | string) => onOutput(chunk.toString(), "stdout"));
+      running.child.stderr?.on("data", (chunk: Buffer | string) => onOutput(chunk.toString(), "stderr"));
+    }
+    const { stdout, stderr } = await running;
+    return { output: `${stdout ?? ""}${stderr ?? ""}`, failed: false };
+  } catch (e: any) {
+    const extra = extractExecOutput(e);
+    const output = `${extra.stdout ?? ""}${extra.stderr ?? ""}`;
+    const violation = detectLimitViolation(e, output);
+    if (violation) {
+      throw makeHttpError(violation.message, 422, output, violation.code);
+    }
+    return { output, failed: true };
+  }
+}
+
+/** Flags that must be passed to every engine/latexmk invocation. */
+export const SANDBOX_TEX_FLAGS = ["-no-shell-escape"];
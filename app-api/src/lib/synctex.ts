@@ -0,0 +1,207 @@
+// app-api/src/lib/synctex.ts
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+
+/** Passed to latexmk and to every direct engine run. */
+export const SYNCTEX_FLAG = "-synctex=1";
+
+type SynctexRecord = {
+  kind: "vbox" | "hbox" | "point";
+  tag: number;
+  line: number;
+  // TeX coordinates (sp, origin top-left); boxes extend up by height and down by depth
+  h: number;
+  v: number;
+  width: number;
+  height: number;
+  depth: number;
+};
+
+export type SynctexData = {
+  inputs: Map<number, string>;
+  pages: Map<number, SynctexRecord[]>;
+  // sp -> PDF points
+  scale: number;
+  xOffset: number;
+  yOffset: number;
+};
+
+/** Rectangle in PDF points, origin at the top-left of the page. */
+export type SynctexBox = { page: number; x: number; y: number; width: number; height: number };
+
+export type SynctexSourceLocation = { file: string; line: number };
+
+/**
+ * Read `<main>.synctex.gz` after a compile and rewrite its Input: paths to be
+ * relative to the project root, so the artifact no longer refers to the
+ * (deleted) temp directory. Returns null if the engine wrote no SyncTeX data.
+ */
+export async function readSynctexArtifact(mainDir: string, mainBasename: string, workDir: string): Promise<Buffer | null> {
+  const gzPath = path.join(mainDir, mainBasename.replace(/\.tex$/, ".synctex.gz"));
+  if (!fs.existsSync(gzPath)) return null;
+
+  try {
+    const text = zlib.gunzipSync(await fs.promises.readFile(gzPath)).toString("utf8");
+    const relativized = text.replace(/^Input:(\d+):(.*)$/gm, (_m, tag: string, file: string) => {
+      const abs = path.resolve(mainDir, file);
+      const rel = path.relative(workDir, abs).split(path.sep).join("/");
+      // Class/package files from the TeX distribution keep their absolute path.
+      return `Input:${tag}:${rel.startsWith("..") ? abs : rel}`;
+    });
+    return zlib.gzipSync(relativized);
+  } catch {
+    return null;
+  }
+}
+
+const RECORD = /^([[(hvxkg$])(\d+),(\d+)(?:,-?\d+)?:(-?\d+),(-?\d+)(?::(-?\d+)(?:,(-?\d+),(-?\d+))?)?/;
+
+/**
+ * Parse the subset of SyncTeX we need: inputs, and per page the boxes and
+ * points that carry a (tag, line). Box-closing and form records are skipped.
+ */
+export function parseSynctex(gz: Buffer): SynctexData {
+  const text = zlib.gunzipSync(gz).toString("utf8");
+  const inputs = new Map<number, string>();
+  const pages = new Map<number, SynctexRecord[]>();
+  let unit = 1;
+  let magnification = 1000;
+  let xOffset = 0;
+  let yOffset = 0;
+  let current: SynctexRecord[] | null = null;
+
+  for (const line of text.split("\n")) {
+    if (line.startsWith("Input:")) {
+      const m = line.match(/^Input:(\d+):(.*)$/);
+      if (m) inputs.set(Number(m[1]), m[2].replace(/^(\.\/)+/, ""));
+      continue;
+    }
+    if (line.startsWith("Unit:")) { unit = Number(line.slice(5)) || 1; continue; }
+    if (line.startsWith("Magnification:")) { magnification = Number(line.slice(14)) || 1000; continue; }
+    if (line.startsWith("X Offset:")) { xOffset = Number(line.slice(9)) || 0; continue; }
+    if (line.startsWith("Y Offset:")) { yOffset = Number(line.slice(9)) || 0; continue; }
+
+    if (line.startsWith("{")) {
+      current = [];
+      pages.set(Number(line.slice(1)), current);
+      continue;
+    }
+    if (line.startsWith("}")) { current = null; continue; }
+    if (!current) continue;
+
+    const m = line.match(RECORD);
+    if (!m) continue;
+    const kind = m[1] === "[" || m[1] === "v" ? "vbox" : m[1] === "(" || m[1] === "h" ? "hbox" : "point";
+    current.push({
+      kind,
+      tag: Number(m[2]),
+      line: Number(m[3]),
+      h: Number(m[4]),
+      v: Number(m[5]),
+      width: kind === "point" ? 0 : Number(m[6] ?? 0),
+      height: kind === "point" ? 0 : Number(m[7] ?? 0),
+      depth: kind === "point" ? 0 : Number(m[8] ?? 0),
+    });
+  }
+
+  // 1 sp = 1/65536 pt, 1 pt = 72/72.27 bp
+  const scale = ((unit * magnification) / 1000 / 65536) * (72 / 72.27);
+  return { inputs, pages, scale, xOffset, yOffset };
+}
+
+function toBox(data: SynctexData, page: number, r: SynctexRecord): SynctexBox {
+  return {
+    page,
+    x: (r.h + data.xOffset) * data.scale,
+    y: (r.v - r.height + data.yOffset) * data.scale,
+    width: r.width * data.scale,
+    height: (r.height + r.depth) * data.scale,
+  };
+}
+
+function isProjectInput(file: string): boolean {
+  return !path.isAbsolute(file) && !file.startsWith("..");
+}
+
+function sameSourceFile(input: string, file: string): boolean {
+  const a = input.replace(/^(\.\/)+/, "");
+  const b = file.replace(/^(\.\/)+/, "");
+  return a === b || a === `${b}.tex`;
+}
+
+/**
+ * Forward search: where does `file:line` end up in the PDF? Falls back to the
+ * nearest following (then preceding) line that produced output, since blank
+ * lines and preamble lines have no boxes. Returns the union of the matching
+ * hboxes on the first page they appear on.
+ */
+export function synctexForward(data: SynctexData, query: { file: string; line: number }): SynctexBox | null {
+  const tags = new Set([...data.inputs].filter(([, f]) => sameSourceFile(f, query.file)).map(([t]) => t));
+  if (!tags.size) return null;
+
+  const candidates: Array<{ page: number; r: SynctexRecord }> = [];
+  for (const [page, records] of data.pages) {
+    for (const r of records) if (tags.has(r.tag) && r.line > 0) candidates.push({ page, r });
+  }
+  if (!candidates.length) return null;
+
+  const after = candidates.filter((c) => c.r.line >= query.line);
+  const pool = after.length ? after : candidates;
+  const targetLine = after.length
+    ? Math.min(...after.map((c) => c.r.line))
+    : Math.max(...candidates.map((c) => c.r.line));
+  const hits = pool.filter((c) => c.r.line === targetLine);
+
+  const page = Math.min(...hits.map((c) => c.page));
+  const onPage = hits.filter((c) => c.page === page);
+  const boxes = onPage.filter((c) => c.r.kind === "hbox");
+  const chosen = (boxes.length ? boxes : onPage).map((c) => toBox(data, page, c.r));
+
+  const x = Math.min(...chosen.map((b) => b.x));
+  const y = Math.min(...chosen.map((b) => b.y));
+  const right = Math.max(...chosen.map((b) => b.x + b.width));
+  const bottom = Math.max(...chosen.map((b) => b.y + b.height));
+  return { page, x, y, width: right - x, height: bottom - y };
+}
+
+/**
+ * Inverse search: which source line produced the PDF point (x, y) on `page`
+ * (PDF points, top-left origin)? Prefers the smallest hbox containing the
+ * point, then the nearest record on the page.
+ */
+export function synctexInverse(
+  data: SynctexData,
+  query: { page: number; x: number; y: number }
+): SynctexSourceLocation | null {
+  const records = (data.pages.get(query.page) ?? []).filter(
+    (r) => r.line > 0 && isProjectInput(data.inputs.get(r.tag) ?? "/")
+  );
+  if (!records.length) return null;
+
+  let best: SynctexRecord | null = null;
+  let bestScore = Infinity;
+  for (const r of records) {
+    const b = toBox(data, query.page, r);
+    const inside =
+      r.kind !== "point" &&
+      query.x >= b.x && query.x <= b.x + b.width &&
+      query.y >= b.y && query.y <= b.y + b.height;
+    // Containing hboxes beat containing vboxes beat anything nearby.
+    let score: number;
+    if (inside) {
+      score = (r.kind === "hbox" ? -2e12 : -1e12) + b.width * b.height;
+    } else {
+      const dx = Math.max(b.x - query.x, 0, query.x - (b.x + b.width));
+      const dy = Math.max(b.y - query.y, 0, query.y - (b.y + b.height));
+      score = dx * dx + dy * dy;
+    }
+    if (score < bestScore) {
+      bestScore = score;
+      best = r;
+    }
+  }
+
+  if (!best) return null;
+  return { file: data.inputs.get(best.tag)!, line: best.line };
+}
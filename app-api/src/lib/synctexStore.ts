@@ -0,0 +1,89 @@
+// app-api/src/lib/synctexStore.ts
+import fs from "fs";
+import path from "path";
+
+export type SynctexStore = {
+  /**
+   * Keep the .synctex.gz of the compile `artifactId` for later lookups by
+   * `owner` (a userId, or null for anonymous callers). Identical sources share
+   * an artifactId, so each caller that compiles it is added as an owner.
+   */
+  set(artifactId: string, gz: Buffer, owner: string | null): Promise<void>;
+  /** Null unless `userId` compiled it, or someone compiled it anonymously. */
+  get(artifactId: string, userId: string | null): Promise<Buffer | null>;
+  stats(): { entries: number };
+};
+
+/**
+ * SyncTeX data of recent compiles, kept apart from the compile cache so
+ * source/PDF sync works with the cache disabled or after its entry is evicted.
+ * Files live in `dirAbs` as <artifactId>.synctex.gz; entries expire `ttlMs`
+ * after their last use and beyond `maxEntries` the least recently used goes.
+ * The directory is wiped on startup since nothing in it is tracked across restarts.
+ */
+export function createSynctexStore(opts: { dirAbs: string; ttlMs: number; maxEntries: number }): SynctexStore {
+  // Map insertion order doubles as recency.
+  const entries = new Map<string, { lastUsed: number; owners: Set<string | null> }>();
+  const fileOf = (artifactId: string) => path.join(opts.dirAbs, `${artifactId}.synctex.gz`);
+
+  try {
+    fs.rmSync(opts.dirAbs, { recursive: true, force: true });
+    fs.mkdirSync(opts.dirAbs, { recursive: true });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.warn(`[WARN] Could not initialise SyncTeX storage at ${opts.dirAbs}:`, message);
+  }
+
+  async function remove(artifactId: string) {
+    entries.delete(artifactId);
+    await fs.promises.rm(fileOf(artifactId), { force: true }).catch(() => { });
+  }
+
+  function sweep() {
+    const now = Date.now();
+    for (const [artifactId, entry] of entries) {
+      if (now - entry.lastUsed > opts.ttlMs) void remove(artifactId);
+    }
+  }
+
+  setInterval(sweep, Math.max(10000, Math.floor(opts.ttlMs / 4))).unref();
+
+  return {
+    async set(artifactId, gz, owner) {
+      if (opts.maxEntries <= 0) return;
+      try {
+        await fs.promises.writeFile(fileOf(artifactId), gz);
+        const owners = entries.get(artifactId)?.owners ?? new Set<string | null>();
+        owners.add(owner);
+        entries.delete(artifactId);
+        entries.set(artifactId, { lastUsed: Date.now(), owners });
+        while (entries.size > opts.maxEntries) {
+          const oldest = entries.keys().next().value;
+          if (oldest === undefined) break;
+          await remove(oldest);
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn("[WARN] Could not store SyncTeX data:", message);
+      }
+    },
+
+    async get(artifactId, userId) {
+      const entry = entries.get(artifactId);
+      if (!entry || Date.now() - entry.lastUsed > opts.ttlMs) return null;
+      if (!entry.owners.has(null) && !entry.owners.has(userId)) return null;
+      const gz = await fs.promises.readFile(fileOf(artifactId)).catch(() => null);
+      if (!gz) {
+        entries.delete(artifactId);
+        return null;
+      }
+      entries.delete(artifactId);
+      entries.set(artifactId, { ...entry, lastUsed: Date.now() });
+      return gz;
+    },
+
+    stats() {
+      return { entries: entries.size };
+    },
+  };
+}
@@ -1,44 +1,350 @@
 // app-api/src/lib/templates.ts
 import fs from "fs";
 import path from "path";
-
-export type TemplateIndex = Record<string, string>; // templateId -> absPath
+import { makeHttpError } from "./errors";
 
 export const CONTENT_PLACEHOLDERS = ["{{CONTENT}}", "%%CONTENT%%", "%CONTENT%", "<<CONTENT>>"] as const;
 
-export function buildTemplateIndex(dirAbs: string): TemplateIndex {
-  const index: TemplateIndex = {};
-  if (!fs.existsSync(dirAbs)) return index;
+/*
+ * Every template is a `<id>.tex` plus a `<id>.json` manifest next to it:
+ *
+ *   {
+ *     "name": "Cornell Notes System",
+ *     "description": "Guided note-taking with Cues and Summary sections.",
+ *     "isPro": false,
+ *     "order": 3,
+ *     "preview": { "pdf": "cornell.pdf", "thumbnail": "cornell.png" },
+ *     "variables": [...]
+ *   }
+ *
+ * The catalogue is loaded and validated once at startup and served by
+ * GET /templates; the web app renders its template pickers from that.
+ * Preview files are served by app-web under /templates/previews/.
+ */
+
+export type TemplateManifest = {
+  id: string;
+  name: string;
+  description: string;
+  format: "latex";
+  isPro: boolean;
+  /** Position in the catalogue; ties are broken by id. */
+  order: number;
+  preview: { pdf: string | null; thumbnail: string | null };
+  variables: TemplateVariable[];
+  absPath: string;
+};
+
+export type TemplateCatalog = {
+  dirAbs: string;
+  templates: TemplateManifest[];
+  get(id: string): TemplateManifest | undefined;
+};
+
+/** What GET /templates returns for one template. */
+export type TemplateInfo = Omit<TemplateManifest, "absPath" | "preview" | "order"> & {
+  previewPath: string | null;
+  thumbnailPath: string | null;
+};
+
+const PREVIEW_URL_PREFIX = "/templates/previews/";
+const PREVIEW_FILE = /^[A-Za-z0-9._-]+\.(?:pdf|png|jpe?g|webp)$/;
+
+function manifestPathFor(templateAbsPath: string): string {
+  return templateAbsPath.replace(/\.tex$/, ".json");
+}
+
+function parseManifest(id: string, absPath: string, raw: any): TemplateManifest {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error("expected a JSON object");
+  const name = typeof raw.name === "string" ? raw.name.trim() : "";
+  if (!name) throw new Error(`"name" is required`);
+  if (raw.isPro !== undefined && typeof raw.isPro !== "boolean") throw new Error(`"isPro" must be true or false`);
+  if (raw.order !== undefined && !Number.isFinite(raw.order)) throw new Error(`"order" must be a number`);
+
+  const previewFile = (key: "pdf" | "thumbnail"): string | null => {
+    const file = raw.preview?.[key];
+    if (file === undefined || file === null) return null;
+    if (typeof file !== "string" || !PREVIEW_FILE.test(file)) throw new Error(`"preview.${key}" must be a file name like ${id}.${key === "pdf" ? "pdf" : "png"}`);
+    return file;
+  };
+
+  return {
+    id,
+    name,
+    description: typeof raw.description === "string" ? raw.description : "",
+    format: "latex",
+    isPro: raw.isPro ?? false,
+    order: raw.order ?? Number.MAX_SAFE_INTEGER,
+    preview: { pdf: previewFile("pdf"), thumbnail: previewFile("thumbnail") },
+    variables: parseTemplateVariables(raw.variables ?? []),
+    absPath,
+  };
+}
+
+/**
+ * Read every template and its manifest from `dirAbs`. Problems in any of them
+ * (a .tex without a manifest, a manifest without a .tex, an invalid field) are
+ * collected and thrown together so a bad deploy fails at startup, not on the
+ * first request that happens to pick that template.
+ */
+export function loadTemplateCatalog(dirAbs: string): TemplateCatalog {
+  const templates: TemplateManifest[] = [];
+  const problems: string[] = [];
+  const entries = fs.existsSync(dirAbs) ? fs.readdirSync(dirAbs) : [];
 
-  const files = fs.readdirSync(dirAbs);
-  for (const f of files) {
+  for (const f of entries) {
+    if (f.endsWith(".json") && !entries.includes(`${path.basename(f, ".json")}.tex`)) {
+      problems.push(`${f}: no matching .tex file`);
+    }
     if (!f.endsWith(".tex")) continue;
     const id = path.basename(f, ".tex");
-    index[id] = path.join(dirAbs, f);
+    const absPath = path.join(dirAbs, f);
+    const manifestPath = manifestPathFor(absPath);
+    if (!fs.existsSync(manifestPath)) {
+      problems.push(`${f}: missing manifest ${path.basename(manifestPath)}`);
+      continue;
+    }
+    try {
+      templates.push(parseManifest(id, absPath, JSON.parse(fs.readFileSync(manifestPath, "utf8"))));
+    } catch (e: any) {
+      problems.push(`${path.basename(manifestPath)}: ${e?.message ?? e}`);
+    }
   }
-  return index;
+
+  if (problems.length) {
+    throw makeHttpError(
+      `[TEMPLATE_MANIFEST_INVALID] ${dirAbs}\n${problems.map((p) => `  - ${p}`).join("\n")}`,
+      500,
+      undefined,
+      "TEMPLATE_MANIFEST_INVALID"
+    );
+  }
+
+  templates.sort((a, b) => a.order - b.order || a.id.localeCompare(b.id));
+  const byId = new Map(templates.map((t) => [t.id, t]));
+  return { dirAbs, templates, get: (id) => byId.get(id) };
 }
 
-export function loadTemplateOrThrow(templateDirAbs: string, templateId: string): { id: string; source: string; absPath: string } {
-  const idx = buildTemplateIndex(templateDirAbs);
-  const absPath = idx[templateId];
+export function describeTemplate(t: TemplateManifest): TemplateInfo {
+  return {
+    id: t.id,
+    name: t.name,
+    description: t.description,
+    format: t.format,
+    isPro: t.isPro,
+    previewPath: t.preview.pdf ? PREVIEW_URL_PREFIX + t.preview.pdf : null,
+    thumbnailPath: t.preview.thumbnail ? PREVIEW_URL_PREFIX + t.preview.thumbnail : null,
+    variables: t.variables,
+  };
+}
+
+export function loadTemplateOrThrow(
+  catalog: TemplateCatalog,
+  templateId: string
+): { id: string; source: string; absPath: string; isPro: boolean; variables: TemplateVariable[] } {
+  const template = catalog.get(templateId);
 
-  if (!absPath) {
-    const available = Object.keys(idx).sort();
+  if (!template) {
+    const available = catalog.templates.map((t) => t.id);
     const msg =
       `[TEMPLATE_NOT_FOUND] templateId="${templateId}" not found.\n` +
-      `TEMPLATE_DIR=${templateDirAbs}\n` +
+      `TEMPLATE_DIR=${catalog.dirAbs}\n` +
       `Available: ${available.length ? available.join(", ") : "(none)"}`;
     const err: any = new Error(msg);
     err.statusCode = 400;
     throw err;
   }
 
-  const source = fs.readFileSync(absPath, "utf8");
-  return { id: templateId, source, absPath };
+  const source = fs.readFileSync(template.absPath, "utf8");
+  return { id: template.id, source, absPath: template.absPath, isPro: template.isPro, variables: template.variables };
 }
 
 export function findPlaceholder(templateSrc: string): string | null {
   for (const p of CONTENT_PLACEHOLDERS) if (templateSrc.includes(p)) return p;
   return null;
-}
\ No newline at end of file
+}
+
+/* -------------------------
+   template variables
+------------------------- */
+
+/*
+ * A template can declare named fields (title, course, column count, accent
+ * colour, ...) in the "variables" of its manifest:
+ *
+ *   "variables": [{ "name": "columns", "type": "integer", "label": "Columns", "default": 2, "min": 1, "max": 4 }]
+ *
+ * and use them in the source as {{columns}}. Every declared field has a
+ * default, so a template renders exactly as before when nothing is set.
+ */
+
+export type TemplateVariableType = "string" | "integer" | "date" | "color";
+
+export type TemplateVariable = {
+  name: string;
+  type: TemplateVariableType;
+  label: string;
+  description?: string;
+  /** string: text; integer: number; date: YYYY-MM-DD or "" for \today; color: #RRGGBB. */
+  default: string | number;
+  /** integer bounds */
+  min?: number;
+  max?: number;
+  /** string length limit */
+  maxLength?: number;
+};
+
+export type TemplateVariableValues = Record<string, string | number>;
+
+const VARIABLE_TYPES: TemplateVariableType[] = ["string", "integer", "date", "color"];
+const VARIABLE_NAME = /^[A-Za-z][A-Za-z0-9_]*$/;
+const DEFAULT_MAX_STRING_LENGTH = 200;
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+/** Why `value` isn't valid for `v`, or null when it is. */
+function checkVariableValue(v: TemplateVariable, value: unknown): string | null {
+  switch (v.type) {
+    case "string":
+      if (typeof value !== "string") return "must be text";
+      if (value.length > (v.maxLength ?? DEFAULT_MAX_STRING_LENGTH)) {
+        return `must be at most ${v.maxLength ?? DEFAULT_MAX_STRING_LENGTH} characters`;
+      }
+      return null;
+    case "integer":
+      if (typeof value !== "number" || !Number.isInteger(value)) return "must be a whole number";
+      if (v.min !== undefined && value < v.min) return `must be at least ${v.min}`;
+      if (v.max !== undefined && value > v.max) return `must be at most ${v.max}`;
+      return null;
+    case "date": {
+      if (value === "") return null;
+      const m = typeof value === "string" ? value.match(ISO_DATE) : null;
+      const month = m ? Number(m[2]) : 0;
+      const day = m ? Number(m[3]) : 0;
+      return m && month >= 1 && month <= 12 && day >= 1 && day <= 31 ? null : "must be a date (YYYY-MM-DD)";
+    }
+    case "color":
+      return typeof value === "string" && HEX_COLOR.test(value) ? null : "must be a colour like #1F6FEB";
+  }
+}
+
+/** Validate the "variables" array of a manifest. */
+function parseTemplateVariables(list: unknown): TemplateVariable[] {
+  if (!Array.isArray(list)) throw new Error(`"variables" must be an array`);
+
+  const seen = new Set<string>();
+  return list.map((raw: any, i: number): TemplateVariable => {
+    const name = String(raw?.name ?? "");
+    if (!VARIABLE_NAME.test(name)) throw new Error(`variables[${i}] has an invalid name "${name}"`);
+    if (seen.has(name)) throw new Error(`variable "${name}" is declared twice`);
+    if (name === "CONTENT") throw new Error(`"${name}" is reserved for the content placeholder`);
+    seen.add(name);
+    if (!VARIABLE_TYPES.includes(raw?.type)) throw new Error(`variable "${name}" has unknown type "${raw?.type}"`);
+
+    const v: TemplateVariable = {
+      name,
+      type: raw.type,
+      label: typeof raw.label === "string" && raw.label.trim() ? raw.label : name,
+      description: typeof raw.description === "string" ? raw.description : undefined,
+      default: raw.default ?? (raw.type === "integer" ? raw.min ?? 1 : ""),
+      min: typeof raw.min === "number" ? raw.min : undefined,
+      max: typeof raw.max === "number" ? raw.max : undefined,
+      maxLength: typeof raw.maxLength === "number" ? raw.maxLength : undefined,
+    };
+    const problem = checkVariableValue(v, v.default);
+    if (problem) throw new Error(`default of "${name}" ${problem}`);
+    return v;
+  });
+}
+
+/**
+ * Validate user-supplied values against the schema and fill in defaults.
+ * `provided` lists the fields the user actually set.
+ */
+export function resolveTemplateVariables(
+  variables: TemplateVariable[],
+  raw: unknown
+): { values: TemplateVariableValues; provided: string[] } {
+  if (raw !== undefined && raw !== null && (typeof raw !== "object" || Array.isArray(raw))) {
+    throw makeHttpError("'templateVariables' must be an object.", 400, undefined, "TEMPLATE_VARIABLE_INVALID");
+  }
+  const input = (raw ?? {}) as Record<string, unknown>;
+
+  const unknown = Object.keys(input).filter((k) => !variables.some((v) => v.name === k));
+  if (unknown.length) {
+    throw makeHttpError(
+      `Unknown template variable${unknown.length > 1 ? "s" : ""}: ${unknown.join(", ")}.`,
+      400,
+      undefined,
+      "TEMPLATE_VARIABLE_UNKNOWN"
+    );
+  }
+
+  const values: TemplateVariableValues = {};
+  const provided: string[] = [];
+  for (const v of variables) {
+    let value = input[v.name];
+    // A cleared text field means "use the template's text".
+    if (v.type === "string" && typeof value === "string" && !value.trim()) value = undefined;
+    if (value === undefined || value === null) {
+      values[v.name] = v.default;
+      continue;
+    }
+    // Form fields arrive as strings.
+    if (v.type === "integer" && typeof value === "string" && value.trim()) value = Number(value);
+    if (typeof value === "string" && v.type !== "date") value = value.trim();
+    const problem = checkVariableValue(v, value);
+    if (problem) {
+      throw makeHttpError(`Template variable "${v.label}" ${problem}.`, 400, undefined, "TEMPLATE_VARIABLE_INVALID");
+    }
+    values[v.name] = value as string | number;
+    provided.push(v.name);
+  }
+  return { values, provided };
+}
+
+function escapeLatexText(text: string): string {
+  return text
+    .replace(/\s+/g, " ")
+    .replace(/[\\{}#$%&_~^]/g, (ch) => {
+      if (ch === "\\") return "\\textbackslash{}";
+      if (ch === "~") return "\\textasciitilde{}";
+      if (ch === "^") return "\\textasciicircum{}";
+      return `\\${ch}`;
+    });
+}
+
+/** A value as it is written into the LaTeX source. */
+export function formatTemplateVariable(v: TemplateVariable, value: string | number): string {
+  switch (v.type) {
+    case "integer":
+      return String(value);
+    case "date": {
+      const m = String(value).match(ISO_DATE);
+      return m ? `${Number(m[3])} ${MONTHS[Number(m[2]) - 1]} ${m[1]}` : "\\today";
+    }
+    case "color":
+      // For \definecolor{name}{HTML}{{{accent}}}
+      return String(value).slice(1).toUpperCase();
+    case "string":
+      return escapeLatexText(String(value));
+  }
+}
+
+/** Replace every {{name}} of a declared variable. Undeclared {{...}} are left alone. */
+export function renderTemplateVariables(
+  source: string,
+  variables: TemplateVariable[],
+  values: TemplateVariableValues
+): string {
+  if (!variables.length) return source;
+  const byName = new Map(variables.map((v) => [v.name, v]));
+  return source.replace(/\{\{([A-Za-z][A-Za-z0-9_]*)\}\}/g, (match, name: string) => {
+    const v = byName.get(name);
+    return v ? formatTemplateVariable(v, values[name] ?? v.default) : match;
+  });
+}
@@ -0,0 +1,165 @@
+// app-api/src/lib/thumbnails.ts
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import { execFile } from "child_process";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { makeHttpError } from "./errors";
+import { withRlimits, type SandboxLimits } from "./sandbox";
+
+const execFileAsync = promisify(execFile);
+
+/** Target widths in pixels; the height follows the page's aspect ratio. */
+export const THUMBNAIL_SIZES = { sm: 320, md: 640, lg: 1280 } as const;
+export type ThumbnailSize = keyof typeof THUMBNAIL_SIZES;
+
+export const THUMBNAIL_FORMATS = ["png", "webp"] as const;
+export type ThumbnailFormat = (typeof THUMBNAIL_FORMATS)[number];
+
+export const MAX_THUMBNAIL_PAGES = 8;
+
+export type RenderedThumbnail = {
+  page: number;
+  size: ThumbnailSize;
+  width: number;
+  format: ThumbnailFormat;
+  bytes: Buffer;
+};
+
+export type StoredThumbnail = Omit<RenderedThumbnail, "bytes"> & { url: string };
+
+export function parseThumbnailSizes(raw: unknown): ThumbnailSize[] {
+  if (raw === undefined || raw === null) return ["sm", "md"];
+  const list = Array.isArray(raw) ? raw : [raw];
+  const sizes = [...new Set(list.map((s) => String(s).trim()))];
+  const invalid = sizes.filter((s) => !(s in THUMBNAIL_SIZES));
+  if (!sizes.length || invalid.length) {
+    throw makeHttpError(
+      `Invalid thumbnail size "${invalid[0] ?? ""}". Use ${Object.keys(THUMBNAIL_SIZES).join(", ")}.`,
+      400,
+      undefined,
+      "THUMBNAIL_SIZE_INVALID"
+    );
+  }
+  return sizes as ThumbnailSize[];
+}
+
+export function parseThumbnailFormat(raw: unknown): ThumbnailFormat {
+  if (raw === undefined || raw === null || raw === "") return "png";
+  const value = String(raw).trim().toLowerCase();
+  if (!(THUMBNAIL_FORMATS as readonly string[]).includes(value)) {
+    throw makeHttpError(
+      `Invalid thumbnail format "${value}". Use ${THUMBNAIL_FORMATS.join(", ")}.`,
+      400,
+      undefined,
+      "THUMBNAIL_FORMAT_INVALID"
+    );
+  }
+  return value as ThumbnailFormat;
+}
+
+async function run(cmd: string, args: string[], timeoutMs: number, limits: SandboxLimits): Promise<string> {
+  const command = withRlimits(cmd, args, limits);
+  try {
+    const { stdout } = await execFileAsync(command.file, command.args, { timeout: timeoutMs, maxBuffer: 1024 * 1024 });
+    return stdout;
+  } catch (e: any) {
+    if (e?.code === "ENOENT" || e?.code === 127) {
+      throw makeHttpError(
+        `[THUMBNAIL_TOOLING_MISSING] ${cmd} is not installed (poppler-utils${cmd === "cwebp" ? " / webp" : ""}).`,
+        500,
+        undefined,
+        "THUMBNAIL_TOOLING_MISSING"
+      );
+    }
+    throw makeHttpError("Could not render the PDF.", 422, String(e?.stderr ?? e?.message ?? ""), "THUMBNAIL_RENDER_FAILED");
+  }
+}
+
+/**
+ * Rasterise the first `pages` pages of `pdf` at each size with pdftoppm
+ * (WebP is converted from the PNG with cwebp). Pages past the end of the
+ * document are skipped.
+ */
+export async function renderPdfThumbnails(
+  pdf: Buffer,
+  opts: { pages: number; sizes: ThumbnailSize[]; format: ThumbnailFormat; timeoutMs: number; limits: SandboxLimits }
+): Promise<RenderedThumbnail[]> {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "betternotes-thumbs-"));
+  const pdfPath = path.join(workDir, "input.pdf");
+
+  try {
+    await fs.promises.writeFile(pdfPath, pdf);
+    const info = await run("pdfinfo", [pdfPath], opts.timeoutMs, opts.limits);
+    const pageCount = Number(info.match(/^Pages:\s+(\d+)/m)?.[1] ?? 1);
+    const pages = Math.min(Math.max(1, opts.pages), pageCount, MAX_THUMBNAIL_PAGES);
+
+    const out: RenderedThumbnail[] = [];
+    for (let page = 1; page <= pages; page++) {
+      for (const size of opts.sizes) {
+        const width = THUMBNAIL_SIZES[size];
+        const base = path.join(workDir, `p${page}-${size}`);
+        await run(
+          "pdftoppm",
+          ["-png", "-singlefile", "-f", String(page), "-l", String(page), "-scale-to-x", String(width), "-scale-to-y", "-1", pdfPath, base],
+          opts.timeoutMs,
+          opts.limits
+        );
+        let file = `${base}.png`;
+        if (opts.format === "webp") {
+          await run("cwebp", ["-quiet", "-q", "82", file, "-o", `${base}.webp`], opts.timeoutMs, opts.limits);
+          file = `${base}.webp`;
+        }
+        out.push({ page, size, width, format: opts.format, bytes: await fs.promises.readFile(file) });
+      }
+    }
+    return out;
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => { });
+  }
+}
+
+export type ThumbnailStore = {
+  enabled: boolean;
+  /** Upload under a prefix derived from the PDF's hash, so re-uploads of the same PDF overwrite in place. */
+  upload(pdf: Buffer, images: RenderedThumbnail[]): Promise<StoredThumbnail[]>;
+};
+
+export function createThumbnailStore(opts: { supabaseAdmin: SupabaseClient | null; bucket: string }): ThumbnailStore {
+  const { supabaseAdmin, bucket } = opts;
+
+  return {
+    enabled: Boolean(supabaseAdmin),
+
+    async upload(pdf, images) {
+      if (!supabaseAdmin) {
+        throw makeHttpError(
+          "[THUMBNAIL_STORAGE_UNAVAILABLE] Supabase storage is not configured on this server.",
+          503,
+          undefined,
+          "THUMBNAIL_STORAGE_UNAVAILABLE"
+        );
+      }
+
+      const prefix = crypto.createHash("sha256").update(pdf).digest("hex");
+      const stored: StoredThumbnail[] = [];
+      for (const image of images) {
+        const objectPath = `${prefix}/p${image.page}-${image.size}.${image.format}`;
+        const { error } = await supabaseAdmin.storage.from(bucket).upload(objectPath, image.bytes, {
+          contentType: `image/${image.format}`,
+          cacheControl: "31536000",
+          upsert: true,
+        });
+        if (error) {
+          throw makeHttpError(`Could not upload thumbnail: ${error.message}`, 502, undefined, "THUMBNAIL_UPLOAD_FAILED");
+        }
+        const { data } = supabaseAdmin.storage.from(bucket).getPublicUrl(objectPath);
+        const { bytes: _bytes, ...meta } = image;
+        stored.push({ ...meta, url: data.publicUrl });
+      }
+      return stored;
+    },
+  };
+}
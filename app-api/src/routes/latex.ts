@@ -1,16 +1,101 @@
 // app-api/src/routes/latex.ts
+import crypto from "crypto";
 import express from "express";
-import OpenAI from "openai";
 import path from "path";
-import { loadTemplateOrThrow, findPlaceholder } from "../lib/templates";
-import { applyLatexFallbacks, stripMarkdownFences, compileLatexToPdf, compileMultiFileProject } from "../lib/latex";
-import { trimHugeLog } from "../lib/errors";
+import {
+  loadTemplateOrThrow,
+  findPlaceholder,
+  renderTemplateVariables,
+  resolveTemplateVariables,
+  type TemplateCatalog,
+} from "../lib/templates";
+import {
+  applyLatexFallbacks,
+  repairLatex,
+  stripMarkdownFences,
+  compileLatexToPdf,
+  compileMultiFileProject,
+  DEFAULT_TEX_ENGINE,
+  listInstalledEngines,
+  parseTexEngine,
+  TEX_ENGINES,
+  type CompileProgressListener,
+  type PackageSubstitutionApplied,
+  type ProjectFile,
+  type TexEngine,
+} from "../lib/latex";
+import { makeHttpError, trimHugeLog } from "../lib/errors";
+import { describeCompileJob, type CompileLimiter, type CompileJobStore } from "../lib/compileJobs";
+import { computeCompileCacheKey, type CompileCache } from "../lib/compileCache";
+import type { SandboxLimits } from "../lib/sandbox";
+import { assertValidBuildKey, type BuildDirStore } from "../lib/buildDirs";
+import { parseLatexDiagnostics, summarizeDiagnostics, type LatexDiagnostic } from "../lib/diagnostics";
+import { parseSynctex, synctexForward, synctexInverse } from "../lib/synctex";
+import type { SynctexStore } from "../lib/synctexStore";
+import type { ProjectAccess } from "../lib/projects";
+import { diffLatex, type LatexDiff } from "../lib/latexDiff";
+import type { LatexRepairApplied } from "../lib/latexRepairs";
+import {
+  MAX_THUMBNAIL_PAGES,
+  parseThumbnailFormat,
+  parseThumbnailSizes,
+  renderPdfThumbnails,
+  type ThumbnailStore,
+} from "../lib/thumbnails";
+import { convertProject, parseExportFormat } from "../lib/latexExport";
+import { applyFitParameters, countPdfPages, fitToPages, parseTargetPages, type FitResult } from "../lib/fitPages";
+import { analyzeLatexProject, type LatexStats } from "../lib/latexStats";
+import { lintLatexProject } from "../lib/latexLint";
+import { ATTACHMENT_LIMITS, makeProRequiredError, type PlanResolver } from "../lib/plans";
+import { callerOf, createAccessGuard } from "../lib/auth";
+import type { QuotaReservation, QuotaStatus, QuotaStore } from "../lib/quota";
+import type { RateLimiter } from "../lib/rateLimit";
+import { textOnlyMessages, tokenCost, type ChatContentPart, type ChatMessage, type ChatRequest, type LlmProvider, type LlmTask } from "../lib/llm";
 
 type LatexDeps = {
-  openai: OpenAI;
-  openaiModel: string;
-  templateDirAbs: string;
+  /** Chat model per task; see lib/llm.ts. */
+  llm: Record<LlmTask, LlmProvider>;
+  templates: TemplateCatalog;
+  plans: PlanResolver;
+  quota: QuotaStore;
+  rateLimit: RateLimiter;
   latexTimeoutMs: number;
+  compileLimiter: CompileLimiter;
+  compileJobs: CompileJobStore;
+  compileCache: CompileCache;
+  buildDirs: BuildDirStore;
+  projects: ProjectAccess;
+  synctex: SynctexStore;
+  thumbnails: ThumbnailStore;
+  sandboxLimits: SandboxLimits;
+};
+
+// artifactId is the compile cache key; SyncTeX lookups use it to find the .synctex.gz
+// (kept in the SyncTeX store, so it outlives the cache entry).
+// repairs lists the deterministic repair rules that changed the source before compiling,
+// substitutions the missing packages that were swapped for an installed one or stubbed.
+type CompileOutcome = {
+  pdf: Buffer;
+  log: string;
+  cacheHit: boolean;
+  artifactId: string;
+  repairs: LatexRepairApplied[];
+  substitutions: PackageSubstitutionApplied[];
+  fit?: FitResult;
+};
+
+type RepairAttempt = {
+  attempt: number;
+  ok: boolean;
+  error?: string;
+  code?: string;
+  diagnostics: LatexDiagnostic[];
+  // What the fix changed to produce this attempt (null for the original source)
+  diff: LatexDiff | null;
+  // The file that fix edited and the model's account of what it changed and why
+  file: string | null;
+  rationale: string | null;
+  tokens: number;
 };
 
 type IncomingAttachment = {
@@ -24,6 +109,11 @@ type IncomingAttachment = {
 const MAX_FILE_CONTEXT_CHARS = 12000;
 const MAX_TOTAL_FILE_CONTEXT_CHARS = 45000;
 
+const REPAIR_DEFAULT_ATTEMPTS = 3;
+const REPAIR_MAX_ATTEMPTS = 5;
+const REPAIR_DEFAULT_TOKEN_BUDGET = 60000;
+const REPAIR_MAX_TOKEN_BUDGET = 200000;
+
 function getFileExt(fileName: string) {
   return path.extname(fileName || "").toLowerCase();
 }
@@ -125,10 +215,338 @@ async function extractReadableText(file: IncomingAttachment, buffer: Buffer, mim
   throw new Error("Unsupported file type. Use image, PDF, DOCX, TXT, MD, or CSV.");
 }
 
+function parseProjectFiles(raw: unknown): ProjectFile[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw makeHttpError("Missing 'files' array.", 400);
+  }
+
+  // Validate file objects
+  for (const f of raw) {
+    if (!f?.path || typeof f.path !== "string") {
+      throw makeHttpError("Each file must have a 'path' string.", 400);
+    }
+    if (typeof f.content !== "string") {
+      throw makeHttpError(`File "${f.path}" is missing 'content'.`, 400);
+    }
+  }
+  return raw as ProjectFile[];
+}
+
+/**
+ * Successful compiles return the raw PDF by default. With `responseFormat: "json"`
+ * in the body (or `?format=json`) they return { pdfBase64, log, diagnostics, artifactId,
+ * repairs, substitutions } instead. Either way a diagnostics summary is sent in
+ * X-Latex-Diagnostics, the artifact id (for /synctex lookups) in X-Compile-Artifact,
+ * the ids of the repair rules that fired in X-Latex-Repairs and substituted packages
+ * (`name=replaced|stubbed`) in X-Latex-Substitutions.
+ */
+function sendCompiledPdf(req: express.Request, res: express.Response, outcome: CompileOutcome, mainFile: string) {
+  const diagnostics = parseLatexDiagnostics(outcome.log, { mainFile });
+  const summary = summarizeDiagnostics(diagnostics);
+
+  res.setHeader("X-Compile-Cache", outcome.cacheHit ? "hit" : "miss");
+  res.setHeader("X-Compile-Artifact", outcome.artifactId);
+  res.setHeader("X-Latex-Repairs", [...new Set(outcome.repairs.map((r) => r.id))].join(","));
+  res.setHeader("X-Latex-Substitutions", outcome.substitutions.map((s) => `${s.package}=${s.action}`).join(","));
+  res.setHeader(
+    "X-Latex-Diagnostics",
+    `errors=${summary.errors}; warnings=${summary.warnings}; badboxes=${summary.badboxes}`
+  );
+  if (outcome.fit) {
+    res.setHeader("X-Latex-Fit", `level=${outcome.fit.level}; pages=${outcome.fit.pages}; target=${outcome.fit.targetPages}`);
+  }
+
+  if (req.body?.responseFormat === "json" || req.query?.format === "json") {
+    return res.status(200).json({
+      ok: true,
+      pdfBase64: outcome.pdf.toString("base64"),
+      log: outcome.log,
+      diagnostics,
+      cacheHit: outcome.cacheHit,
+      artifactId: outcome.artifactId,
+      repairs: outcome.repairs,
+      substitutions: outcome.substitutions,
+      fit: outcome.fit ?? null,
+    });
+  }
+
+  res.setHeader("Content-Type", "application/pdf");
+  return res.status(200).send(outcome.pdf);
+}
+
+/** `files` with the fit block for `level` applied to the main file. */
+function withFitLevel(files: ProjectFile[], mainFile: string, level: number): ProjectFile[] {
+  const main = path.posix.normalize(mainFile);
+  return files.map((f) =>
+    !f.isBinary && path.posix.normalize(f.path) === main ? { ...f, content: applyFitParameters(f.content, level) } : f
+  );
+}
+
+function clampInt(raw: unknown, fallback: number, min: number, max: number) {
+  const n = Math.floor(Number(raw));
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, n));
+}
+
+/** Repair rules that fire on a project's .tex files (the compile applies the same ones). */
+function projectRepairs(files: ProjectFile[], engine: TexEngine): LatexRepairApplied[] {
+  return files
+    .filter((f) => !f.isBinary && f.path.endsWith(".tex"))
+    .flatMap((f) => repairLatex(f.content, { file: f.path, engine, fragment: true }).applied);
+}
+
+/** Splits the leading "RATIONALE: ..." line off a fix that was asked to explain itself. */
+function splitRationale(content: string): { rationale: string; rest: string } {
+  const m = content.match(/^\s*RATIONALE:[ \t]*(.*)(?:\r?\n|$)/i);
+  if (!m) return { rationale: "", rest: content };
+  return { rationale: m[1].trim(), rest: content.slice(m[0].length) };
+}
+
+/** The .tex file the first error points at, else the main file. */
+function fileToRepair(files: ProjectFile[], diagnostics: LatexDiagnostic[], mainFile: string): ProjectFile | null {
+  const editable = files.filter((f) => !f.isBinary && f.path.endsWith(".tex"));
+  const same = (a: string, b: string) => path.posix.normalize(a) === path.posix.normalize(b);
+  for (const d of diagnostics) {
+    const file = d.file;
+    if (d.severity !== "error" || !file) continue;
+    const hit = editable.find((f) => same(f.path, file));
+    if (hit) return hit;
+  }
+  return editable.find((f) => same(f.path, mainFile)) ?? editable[0] ?? null;
+}
+
+/** A failed fix call as a 502, unless the provider already picked a status. */
+function asModelError(e: any) {
+  if (e?.statusCode) return e;
+  const message = typeof e?.message === "string" ? e.message : String(e);
+  return makeHttpError("The automatic fix could not get an answer from the language model.", 502, message, "LLM_FAILED");
+}
+
+function sendCompileError(res: express.Response, e: any, fallbackMessage: string, mainFile: string) {
+  const status = Number(e?.statusCode ?? 400);
+  const log = typeof e?.log === "string" ? trimHugeLog(e.log) : undefined;
+  const code = typeof e?.code === "string" ? e.code : undefined;
+  const message = typeof e?.message === "string" ? e.message : fallbackMessage;
+  const diagnostics = log ? parseLatexDiagnostics(log, { mainFile }) : [];
+
+  return res.status(status).json({ ok: false, error: message, code, log, diagnostics });
+}
+
+function wantsEventStream(req: express.Request) {
+  return String(req.headers.accept ?? "").includes("text/event-stream");
+}
+
+// Switch `res` to Server-Sent Events: events are dropped once the client has gone,
+// a comment every 15s keeps proxies from closing an idle connection, and `signal`
+// aborts when the client disconnects.
+function openEventStream(res: express.Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+
+  const disconnected = new AbortController();
+  res.on("close", () => disconnected.abort());
+  const heartbeat = setInterval(() => {
+    if (!disconnected.signal.aborted) res.write(": keep-alive\n\n");
+  }, 15000);
+
+  return {
+    signal: disconnected.signal,
+    send(event: string, data: unknown) {
+      if (!disconnected.signal.aborted) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    end() {
+      clearInterval(heartbeat);
+      res.end();
+    },
+  };
+}
+
 export function createLatexRouter(deps: LatexDeps) {
   const router = express.Router();
+  // Every route declares who may call it; model-backed routes beyond the free
+  // generate need a signed-in user, and anything writing to storage does too.
+  const allow = createAccessGuard(deps.plans);
+
+  // Jobs already hold a limiter slot when they run, so they pass `limited: false`.
+  async function compileWithCache(
+    key: string,
+    compile: () => Promise<{
+      pdf: Buffer;
+      log: string;
+      synctex: Buffer | null;
+      substitutions: PackageSubstitutionApplied[];
+    }>,
+    opts: { limited: boolean; repairs: LatexRepairApplied[]; owner: string | null }
+  ): Promise<CompileOutcome> {
+    const { repairs, owner } = opts;
+    const cached = await deps.compileCache.get(key);
+    if (cached) {
+      const { pdf, log, synctex, substitutions } = cached;
+      if (synctex) await deps.synctex.set(key, synctex, owner);
+      return { pdf, log, cacheHit: true, artifactId: key, repairs, substitutions };
+    }
+
+    const { pdf, log, synctex, substitutions } = opts.limited
+      ? await deps.compileLimiter.run(compile)
+      : await compile();
+    if (synctex) await deps.synctex.set(key, synctex, owner);
+    await deps.compileCache.set(key, { pdf, log, synctex, substitutions });
+    return { pdf, log, cacheHit: false, artifactId: key, repairs, substitutions };
+  }
+
+  // Only the SyncTeX store knows who compiled what, so the compile cache's copy
+  // isn't consulted; a cache hit on recompile puts it back in the store.
+  async function loadSynctex(artifactId: string, userId: string | null) {
+    if (!/^[a-f0-9]{64}$/.test(artifactId)) {
+      throw makeHttpError("Invalid artifact id.", 400, undefined, "SYNCTEX_INVALID_ARTIFACT");
+    }
+    const gz = await deps.synctex.get(artifactId, userId);
+    if (!gz) {
+      throw makeHttpError(
+        "No SyncTeX data for this compile (it may have expired). Recompile and try again.",
+        404,
+        undefined,
+        "SYNCTEX_NOT_FOUND"
+      );
+    }
+    return parseSynctex(gz);
+  }
+
+  function compileSingle(
+    latexRaw: string,
+    opts: { engine: TexEngine; owner: string | null; limited?: boolean; onProgress?: CompileProgressListener }
+  ): Promise<CompileOutcome> {
+    const { engine, onProgress } = opts;
+    const key = computeCompileCacheKey({
+      files: [{ path: "main.tex", content: latexRaw }],
+      mainFile: "main.tex",
+      engine,
+      standalone: true,
+    });
+    return compileWithCache(
+      key,
+      () => compileLatexToPdf(latexRaw, { timeoutMs: deps.latexTimeoutMs, limits: deps.sandboxLimits, engine, onProgress }),
+      { limited: opts.limited ?? true, repairs: repairLatex(latexRaw, { engine }).applied, owner: opts.owner }
+    );
+  }
+
+  /**
+   * `{ incremental: true, projectId }` -> build directory key. Warm builds are only
+   * for a signed-in caller who owns the project, and the directory is keyed by both,
+   * so nobody can compile into (and poison the .aux of) someone else's. Anything
+   * else compiles cold in a temp directory.
+   */
+  async function resolveBuildKey(req: express.Request): Promise<string | null> {
+    if (req.body?.incremental !== true) return null;
+    const projectId = assertValidBuildKey(String(req.body?.projectId ?? ""));
+    const { userId } = callerOf(req);
+    if (!userId || !(await deps.projects.ownsProject(userId, projectId))) return null;
+    return crypto.createHash("sha256").update(`${userId}\0${projectId}`).digest("hex").slice(0, 48);
+  }
+
+  // With a buildKey the compile runs warm in that project's persistent build directory.
+  function compileProject(
+    files: ProjectFile[],
+    mainFile: string,
+    opts: {
+      engine: TexEngine;
+      buildKey: string | null;
+      owner: string | null;
+      limited?: boolean;
+      onProgress?: CompileProgressListener;
+    }
+  ): Promise<CompileOutcome> {
+    const key = computeCompileCacheKey({ files, mainFile, engine: opts.engine });
+    const compileOpts = {
+      timeoutMs: deps.latexTimeoutMs,
+      limits: deps.sandboxLimits,
+      engine: opts.engine,
+      onProgress: opts.onProgress,
+    };
+    const buildKey = opts.buildKey;
+    return compileWithCache(
+      key,
+      () =>
+        buildKey
+          ? deps.buildDirs.withBuildDir(buildKey, (buildDir) =>
+            compileMultiFileProject(files, mainFile, { ...compileOpts, buildDir })
+          )
+          : compileMultiFileProject(files, mainFile, compileOpts),
+      { limited: opts.limited ?? true, repairs: projectRepairs(files, opts.engine), owner: opts.owner }
+    );
+  }
+
+  /**
+   * Run the fit-to-pages search over `compileAt` and attach the result. Each
+   * attempt is reported on the progress stream so a long search doesn't look stuck.
+   */
+  async function compileToFit(
+    targetPages: number,
+    compileAt: (level: number) => Promise<CompileOutcome>,
+    onProgress?: CompileProgressListener
+  ): Promise<CompileOutcome & { fit: FitResult }> {
+    const { outcome, fit } = await fitToPages(targetPages, compileAt, ({ level, pages }) =>
+      onProgress?.({
+        type: "output",
+        stream: "stdout",
+        line: `[fit] level ${level}: ${pages} page${pages === 1 ? "" : "s"} (target ${targetPages})`,
+      })
+    );
+    return { ...outcome, fit };
+  }
+
+  /**
+   * Body of /jobs and /compile-stream: { latex } (single file) or { files, mainFile }
+   * (project), plus optional engine; `buildKey` comes from resolveBuildKey. Both run inside a job, which
+   * already holds a limiter slot. Returns null if neither form is present.
+   */
+  function parseCompileRequest(
+    body: any,
+    buildKey: string | null,
+    owner: string | null
+  ): {
+    mainFile: string;
+    repairs: LatexRepairApplied[];
+    run: (onProgress?: CompileProgressListener) => Promise<CompileOutcome>;
+  } | null {
+    const latexRaw = typeof body?.latex === "string" ? body.latex : "";
+    const engine = parseTexEngine(body?.engine);
+    const targetPages = parseTargetPages(body?.targetPages);
+
+    if (latexRaw.trim()) {
+      const compileAt = (level: number, onProgress?: CompileProgressListener) =>
+        compileSingle(applyFitParameters(latexRaw, level), { engine, owner, limited: false, onProgress });
+      return {
+        mainFile: "main.tex",
+        repairs: repairLatex(latexRaw, { engine }).applied,
+        run: (onProgress) =>
+          targetPages === null
+            ? compileSingle(latexRaw, { engine, owner, limited: false, onProgress })
+            : compileToFit(targetPages, (level) => compileAt(level, onProgress), onProgress),
+      };
+    }
+    if (body?.files !== undefined) {
+      const files = parseProjectFiles(body.files);
+      const mainFile = String(body?.mainFile ?? "main.tex").trim();
+      const compileAt = (level: number, onProgress?: CompileProgressListener) =>
+        compileProject(withFitLevel(files, mainFile, level), mainFile, { engine, buildKey, owner, limited: false, onProgress });
+      return {
+        mainFile,
+        repairs: projectRepairs(files, engine),
+        run: (onProgress) =>
+          targetPages === null
+            ? compileProject(files, mainFile, { engine, buildKey, owner, limited: false, onProgress })
+            : compileToFit(targetPages, (level) => compileAt(level, onProgress), onProgress),
+      };
+    }
+    return null;
+  }
 
-  async function extractFileContent(file: IncomingAttachment): Promise<string | { type: "image_url"; image_url: { url: string } }> {
+  async function extractFileContent(file: IncomingAttachment): Promise<string | ChatContentPart> {
     if (isImageAttachment(file)) {
       return {
         type: "image_url",
@@ -163,14 +581,19 @@ export function createLatexRouter(deps: LatexDeps) {
     prompt: string;
     templateId: string;
     templateSource: string;
+    /** Template fields the user set explicitly, as label/value pairs. */
+    templateSettings?: Array<{ label: string; value: string }>;
     wantOnlyBody: boolean;
     baseLatex?: string;
     files?: IncomingAttachment[];
+    /** Streams the model's output as it arrives; the return value is still the cleaned-up whole. */
+    onDelta?: (text: string) => void;
+    signal?: AbortSignal;
   }): Promise<{ latex?: string; message?: string }> {
-    const { prompt, templateId, templateSource, wantOnlyBody, baseLatex, files } = args;
+    const { prompt, templateId, templateSource, templateSettings, wantOnlyBody, baseLatex, files, onDelta, signal } = args;
 
     // Build content with files
-    const userContent: any[] = [{ type: "text", text: "" }];
+    const userContent: ChatContentPart[] = [{ type: "text", text: "" }];
     let fileTextContext = "";
     let remainingFileBudget = MAX_TOTAL_FILE_CONTEXT_CHARS;
 
@@ -208,7 +631,7 @@ export function createLatexRouter(deps: LatexDeps) {
       "CRITICAL: Use \\verify{...} instead of \\check{...} for solution verification steps.",
     ].join(" ");
 
-    const messages: { role: "system" | "assistant" | "user"; content: any }[] = [{ role: "system", content: system }];
+    const messages: ChatMessage[] = [{ role: "system", content: system }];
 
     // Construct User Message
     let textPrompt = "";
@@ -251,20 +674,30 @@ export function createLatexRouter(deps: LatexDeps) {
       ].join("\n");
     }
 
+    if (templateSettings?.length && !baseLatex?.trim()) {
+      textPrompt += [
+        "",
+        "",
+        "=== TEMPLATE SETTINGS (chosen by the user; keep them exactly as they appear in the template) ===",
+        ...templateSettings.map((s) => `${s.label}: ${s.value}`),
+      ].join("\n");
+    }
+
     if (fileTextContext) {
       textPrompt += `\n\n[Attached File Content]:\n${fileTextContext}`;
     }
 
-    userContent[0].text = textPrompt;
+    userContent[0] = { type: "text", text: textPrompt };
     messages.push({ role: "user", content: userContent });
 
-    const resp = await deps.openai.chat.completions.create({
-      model: deps.openaiModel, // Must support vision (gpt-4o)
+    const llm = deps.llm.generate;
+    const request: ChatRequest = {
       temperature: 0.2,
-      messages: messages as any,
-    });
+      messages: llm.vision ? messages : textOnlyMessages(messages),
+      signal,
+    };
+    const { content: out } = onDelta ? await llm.stream(request, onDelta) : await llm.chat(request);
 
-    const out = resp.choices?.[0]?.message?.content ?? "";
     const cleanOut = stripMarkdownFences(out);
 
     // Heuristic: Is it LaTeX or Message?
@@ -280,7 +713,7 @@ export function createLatexRouter(deps: LatexDeps) {
     // If full doc, look for \documentclass.
 
     if (cleanOut.includes("\\documentclass") || cleanOut.includes("\\begin{document}") || (wantOnlyBody && (cleanOut.includes("\\section") || cleanOut.includes("\\item")))) {
-      return { latex: applyLatexFallbacks(cleanOut) };
+      return { latex: cleanOut };
     }
 
     // If it's short and no latex syntax, assume message?
@@ -289,18 +722,30 @@ export function createLatexRouter(deps: LatexDeps) {
     }
 
     // Default to LaTeX if unsure, or treat as message if it really doesn't look like LaTeX
-    if (cleanOut.includes("\\")) return { latex: applyLatexFallbacks(cleanOut) };
+    if (cleanOut.includes("\\")) return { latex: cleanOut };
 
     return { message: cleanOut };
   }
 
-  async function fixLatexWithLog(args: { latex: string; log: string }): Promise<string> {
-    const { latex, log } = args;
+  // `tokens` is what the call cost (from the usage report, or estimated from the text).
+  // With `explain` the model also says what it changed and why, returned as `rationale`;
+  // `fileName` tells it which file of a project it is looking at.
+  async function fixLatexWithLog(args: {
+    latex: string;
+    log: string;
+    engine?: TexEngine;
+    fileName?: string;
+    explain?: boolean;
+  }): Promise<{ latex: string; tokens: number; rationale: string }> {
+    const { latex, log, fileName, explain } = args;
+    const engine = args.engine ?? DEFAULT_TEX_ENGINE;
 
     const system = [
       "You are BetterNotes AI.",
-      "You must output ONLY LaTeX source (no Markdown, no explanations).",
-      "Fix the LaTeX so it compiles with pdflatex.",
+      explain
+        ? "Start with ONE line of the form 'RATIONALE: <what caused the error and what you changed, in one or two sentences>', then output ONLY LaTeX source (no Markdown, no other explanations)."
+        : "You must output ONLY LaTeX source (no Markdown, no explanations).",
+      `Fix the LaTeX so it compiles with ${engine}.`,
       "Make the smallest changes necessary.",
       "Never output triple backticks.",
       "CRITICAL: If the error is 'Environment ... undefined', REPLACE that environment with a standard one (like 'itemize' or just \\textbf{Title}) or remove it. Do not try to define new environments in the body.",
@@ -308,8 +753,10 @@ export function createLatexRouter(deps: LatexDeps) {
     ].join(" ");
 
     const user = [
-      "The LaTeX compilation failed. Fix the LaTeX based on the compiler log.",
-      "Return the FULL corrected LaTeX document.",
+      fileName
+        ? `The LaTeX compilation failed. Fix the project file ${fileName} based on the compiler log.`
+        : "The LaTeX compilation failed. Fix the LaTeX based on the compiler log.",
+      fileName ? `Return the FULL corrected ${fileName}.` : "Return the FULL corrected LaTeX document.",
       "",
       "=== LATEX ===",
       latex,
@@ -318,21 +765,31 @@ export function createLatexRouter(deps: LatexDeps) {
       log,
     ].join("\n");
 
-    const resp = await deps.openai.chat.completions.create({
-      model: deps.openaiModel,
+    const request: ChatRequest = {
       temperature: 0.1,
       messages: [
         { role: "system", content: system },
         { role: "user", content: user },
       ],
-    });
-
-    const out = resp.choices?.[0]?.message?.content ?? "";
-    return stripMarkdownFences(out);
+    };
+    const result = await deps.llm.fix.chat(request);
+    const { rationale, rest } = explain ? splitRationale(result.content) : { rationale: "", rest: result.content };
+    return { latex: stripMarkdownFences(rest), tokens: tokenCost(request, result), rationale };
   }
 
   // POST /latex/generate-latex
-  router.post("/generate-latex", async (req, res) => {
+  // Takes one unit of the caller's monthly quota, given back if the request fails
+  // before the model answered or streamed anything; every response reports the
+  // caller's standing in { quota }.
+  // With "Accept: text/event-stream" the answer is SSE once the request has been
+  // accepted: "delta" { text } events carry the model's output as it arrives, then
+  // "done" has the usual JSON body (repaired, template-assembled LaTeX) or "error"
+  // has { error, code, quota }. Rejections before that are still plain JSON.
+  router.post("/generate-latex", allow("anonymous"), deps.rateLimit("generate"), async (req, res) => {
+    let reservation: QuotaReservation | null = null;
+    let events: ReturnType<typeof openEventStream> | null = null;
+    // Set once the caller has (some of) the model's output: the unit is then spent.
+    let spent = false;
     try {
       const prompt = String(req.body?.prompt ?? "").trim();
       const templateId = String(req.body?.templateId ?? "2cols_portrait").trim();
@@ -352,106 +809,624 @@ export function createLatexRouter(deps: LatexDeps) {
 
       if (!prompt && files.length === 0) return res.status(400).json({ ok: false, error: "Missing 'prompt' or 'files'." });
 
-      const { source: templateSource } = loadTemplateOrThrow(deps.templateDirAbs, templateId);
+      const template = loadTemplateOrThrow(deps.templates, templateId);
+      // The repairs applied to the result depend on the engine it will be compiled with.
+      const engine = parseTexEngine(req.body?.engine);
+
+      // The pickers hide Pro templates from free users; this is the check that counts.
+      const caller = callerOf(req);
+      if (template.isPro && caller.plan !== "pro") {
+        throw makeProRequiredError(`The "${templateId}" template is part of Pro.`);
+      }
+      if (files.length > ATTACHMENT_LIMITS[caller.plan]) {
+        if (caller.plan !== "pro" && files.length <= ATTACHMENT_LIMITS.pro) {
+          throw makeProRequiredError(`Free plans can attach up to ${ATTACHMENT_LIMITS.free} files per message.`);
+        }
+        throw makeHttpError(`At most ${ATTACHMENT_LIMITS.pro} files can be attached per message.`, 400, undefined, "TOO_MANY_ATTACHMENTS");
+      }
+      reservation = await deps.quota.reserve(req, res, caller);
+      const quota = reservation.status;
+      const { values: templateValues, provided } = resolveTemplateVariables(template.variables, req.body?.templateVariables);
+      const templateSource = renderTemplateVariables(template.source, template.variables, templateValues);
+      const templateSettings = template.variables
+        .filter((v) => provided.includes(v.name))
+        .map((v) => ({ label: v.label, value: String(templateValues[v.name]) || "(today)" }));
       const placeholder = findPlaceholder(templateSource);
       const wantOnlyBody = !hasBaseLatex && Boolean(placeholder);
 
+      if (wantsEventStream(req)) events = openEventStream(res);
+      const stream = events;
+      const reply = (body: Record<string, unknown>) => (stream ? stream.send("done", body) : res.json(body));
+
       const result = await generateLatexFromPrompt({
         prompt,
         templateId,
         templateSource,
+        templateSettings,
         wantOnlyBody,
         baseLatex: hasBaseLatex ? baseLatexTrimmed.trim() : undefined,
-        files
+        files,
+        onDelta: stream
+          ? (text) => {
+            spent = true;
+            stream.send("delta", { text });
+          }
+          : undefined,
+        // A client that hangs up mid-stream stops the model call; it keeps paying
+        // for what it already received.
+        signal: stream?.signal,
       });
+      spent = true;
 
       if (result.message) {
-        return res.json({ ok: true, message: result.message });
+        return reply({ ok: true, message: result.message, quota });
       }
 
       const generated = result.latex || "";
       const latexRaw = wantOnlyBody && placeholder ? templateSource.replace(placeholder, generated) : generated;
-      const latex = applyLatexFallbacks(latexRaw);
+      const { latex, applied: repairs } = repairLatex(latexRaw, { engine });
+
+      // With { targetPages } the generated document is compiled and tightened until it
+      // fits; the fit block is baked into the returned LaTeX. A failed fit still returns
+      // the generated LaTeX, with the reason in fitError.
+      const targetPages = parseTargetPages(req.body?.targetPages);
+      if (targetPages !== null) {
+        try {
+          const { fit, artifactId } = await compileToFit(targetPages, (level) =>
+            compileSingle(applyFitParameters(latex, level), { engine, owner: caller.userId })
+          );
+          return reply({ ok: true, latex: applyFitParameters(latex, fit.level), usedTemplateId: templateId, repairs, fit, artifactId, quota });
+        } catch (e: any) {
+          const code = typeof e?.code === "string" ? e.code : undefined;
+          return reply({ ok: true, latex, usedTemplateId: templateId, repairs, fit: null, fitError: { error: e?.message ?? "Fit failed.", code }, quota });
+        }
+      }
 
-      return res.json({ ok: true, latex, usedTemplateId: templateId });
+      return reply({ ok: true, latex, usedTemplateId: templateId, repairs, quota });
     } catch (e: any) {
       const status = Number(e?.statusCode ?? 500);
-      return res.status(status).json({ ok: false, error: e?.message ?? "Server error" });
+      const code = typeof e?.code === "string" ? e.code : undefined;
+      const quota = !reservation ? e?.quota : spent ? reservation.status : await reservation.refund();
+      if (events) return events.send("error", { ok: false, error: e?.message ?? "Server error", code, quota });
+      return res.status(status).json({ ok: false, error: e?.message ?? "Server error", code, quota });
+    } finally {
+      events?.end();
     }
   });
 
+  // GET /latex/usage
+  // The caller's plan and message quota for this period ({ quota: null } when metering is off).
+  router.get("/usage", allow("anonymous"), async (req, res) => {
+    try {
+      const caller = callerOf(req);
+      const quota = await deps.quota.status(req, caller);
+      return res.json({ ok: true, plan: caller.plan, signedIn: Boolean(caller.userId), quota });
+    } catch (e: any) {
+      const status = Number(e?.statusCode ?? 500);
+      const code = typeof e?.code === "string" ? e.code : undefined;
+      return res.status(status).json({ ok: false, error: e?.message ?? "Server error", code });
+    }
+  });
+
+  // GET /latex/engines
+  // Engines a compile request may ask for, and which of them this server has installed.
+  router.get("/engines", allow("anonymous"), async (_req, res) => {
+    const installed = await listInstalledEngines();
+    return res.json({ ok: true, engines: TEX_ENGINES, installed, default: DEFAULT_TEX_ENGINE });
+  });
+
   // POST /latex/compile
-  router.post("/compile", async (req, res) => {
+  // Optional { targetPages }: tighten fonts/spacing/margins until the PDF fits in that
+  // many pages (see lib/fitPages.ts); the chosen level comes back in X-Latex-Fit.
+  router.post("/compile", allow("anonymous"), deps.rateLimit("compile"), async (req, res) => {
     try {
       const latexRaw = String(req.body?.latex ?? "");
       if (!latexRaw.trim()) return res.status(400).json({ ok: false, error: "Missing 'latex'." });
-
-      const { pdf } = await compileLatexToPdf(latexRaw, { timeoutMs: deps.latexTimeoutMs });
-
-      res.setHeader("Content-Type", "application/pdf");
-      return res.status(200).send(pdf);
+      const engine = parseTexEngine(req.body?.engine);
+      const targetPages = parseTargetPages(req.body?.targetPages);
+      const owner = callerOf(req).userId;
+
+      const outcome = targetPages === null
+        ? await compileSingle(latexRaw, { engine, owner })
+        : await compileToFit(targetPages, (level) => compileSingle(applyFitParameters(latexRaw, level), { engine, owner }));
+      return sendCompiledPdf(req, res, outcome, "main.tex");
     } catch (e: any) {
-      const status = Number(e?.statusCode ?? 400);
-      const log = typeof e?.log === "string" ? trimHugeLog(e.log) : undefined;
-      const code = typeof e?.code === "string" ? e.code : undefined;
-      const message = typeof e?.message === "string" ? e.message : "Compilation failed.";
-
-      return res.status(status).json({ ok: false, error: message, code, log });
+      return sendCompileError(res, e, "Compilation failed.", "main.tex");
     }
   });
 
   // POST /latex/fix-latex
-  router.post("/fix-latex", async (req, res) => {
+  // Metered like /generate-latex: guests spend their anonymous quota.
+  router.post("/fix-latex", allow("anonymous"), deps.rateLimit("generate"), async (req, res) => {
+    let reservation: QuotaReservation | null = null;
     try {
       const latex = String(req.body?.latex ?? "");
       const log = String(req.body?.log ?? "");
       if (!latex.trim()) return res.status(400).json({ ok: false, error: "Missing 'latex'." });
       if (!log.trim()) return res.status(400).json({ ok: false, error: "Missing 'log'." });
+      const engine = parseTexEngine(req.body?.engine);
 
-      const fixedLatex = await fixLatexWithLog({ latex, log });
-      if (!fixedLatex.trim()) return res.status(500).json({ ok: false, error: "Fix returned empty LaTeX." });
+      reservation = await deps.quota.reserve(req, res, callerOf(req));
+      const { latex: fixedLatex } = await fixLatexWithLog({ latex, log, engine });
+      if (!fixedLatex.trim()) throw makeHttpError("Fix returned empty LaTeX.", 500);
 
-      return res.json({ ok: true, fixedLatex: applyLatexFallbacks(fixedLatex) });
+      const { latex: repaired, applied: repairs } = repairLatex(fixedLatex, { engine });
+      return res.json({ ok: true, fixedLatex: repaired, repairs, quota: reservation.status });
     } catch (e: any) {
       const status = Number(e?.statusCode ?? 500);
-      return res.status(status).json({ ok: false, error: e?.message ?? "Server error" });
+      const code = typeof e?.code === "string" ? e.code : undefined;
+      const quota = reservation ? await reservation.refund() : e?.quota;
+      return res.status(status).json({ ok: false, error: e?.message ?? "Server error", code, quota });
+    }
+  });
+
+  // POST /latex/compile-with-repair
+  // { latex } (single file) or { files, mainFile } (project, with { incremental, projectId }
+  // as for /compile-project), plus engine?, maxAttempts?, tokenBudget?. Compiles; on a
+  // LaTeX error asks the model to fix the .tex file the first error points at (the main
+  // file if none) and recompiles, up to maxAttempts fixes or until the fix calls have
+  // used tokenBudget tokens (checked before each call). Every attempt is returned with
+  // its diagnostics, the diff the fix applied and the model's rationale for it. The
+  // source comes back as `latex` (single file) or `files` (the files the fixes changed).
+  // Model failures are 502s (503 while the model is busy). Each fix call takes one unit
+  // of the caller's quota, given back only if the call fails; running out stops the
+  // repair with 429 QUOTA_EXCEEDED. Responses report the latest standing in { quota }.
+  router.post("/compile-with-repair", allow("authenticated"), deps.rateLimit("generate"), async (req, res) => {
+    const isProject = req.body?.files !== undefined;
+    const mainFile = isProject ? String(req.body?.mainFile ?? "main.tex").trim() : "main.tex";
+    try {
+      const original: ProjectFile[] = isProject
+        ? parseProjectFiles(req.body?.files)
+        : [{ path: "main.tex", content: String(req.body?.latex ?? "") }];
+      if (!isProject && !original[0].content.trim()) return res.status(400).json({ ok: false, error: "Missing 'latex'." });
+      const engine = parseTexEngine(req.body?.engine);
+      const buildKey = isProject ? await resolveBuildKey(req) : null;
+      const maxAttempts = clampInt(req.body?.maxAttempts, REPAIR_DEFAULT_ATTEMPTS, 0, REPAIR_MAX_ATTEMPTS);
+      const tokenBudget = clampInt(req.body?.tokenBudget, REPAIR_DEFAULT_TOKEN_BUDGET, 0, REPAIR_MAX_TOKEN_BUDGET);
+
+      const attempts: RepairAttempt[] = [];
+      let files = original;
+      let diff: LatexDiff | null = null;
+      let file: string | null = null;
+      let rationale: string | null = null;
+      let tokens = 0;
+      let tokensUsed = 0;
+      let quota: QuotaStatus | null = null;
+      const caller = callerOf(req);
+
+      const compile = () =>
+        isProject
+          ? compileProject(files, mainFile, { engine, buildKey, owner: caller.userId })
+          : compileSingle(files[0].content, { engine, owner: caller.userId });
+      const source = () =>
+        isProject
+          ? { files: files.filter((f, i) => f !== original[i]).map((f) => ({ path: f.path, content: f.content })) }
+          : { latex: files[0].content };
+
+      for (; ;) {
+        let failure: any;
+        try {
+          const outcome = await compile();
+          const diagnostics = parseLatexDiagnostics(outcome.log, { mainFile });
+          attempts.push({ attempt: attempts.length, ok: true, diagnostics, diff, file, rationale, tokens });
+          return res.json({
+            ok: true,
+            ...source(),
+            repaired: files !== original,
+            pdfBase64: outcome.pdf.toString("base64"),
+            log: outcome.log,
+            diagnostics,
+            cacheHit: outcome.cacheHit,
+            artifactId: outcome.artifactId,
+            repairs: outcome.repairs,
+            substitutions: outcome.substitutions,
+            attempts,
+            tokensUsed,
+            quota,
+          });
+        } catch (e: any) {
+          failure = e;
+        }
+
+        // Only LaTeX errors are worth a fix; tooling/engine/timeout errors are not.
+        const log = typeof failure?.log === "string" ? trimHugeLog(failure.log) : "";
+        if (Number(failure?.statusCode) !== 422 || !log) throw failure;
+
+        const diagnostics = parseLatexDiagnostics(log, { mainFile });
+        attempts.push({
+          attempt: attempts.length,
+          ok: false,
+          error: typeof failure?.message === "string" ? failure.message : "LaTeX compilation failed.",
+          code: typeof failure?.code === "string" ? failure.code : undefined,
+          diagnostics,
+          diff,
+          file,
+          rationale,
+          tokens,
+        });
+
+        const giveUp = (status: number, error: string, code: string) =>
+          res.status(status).json({ ok: false, error, code, ...source(), log, diagnostics, attempts, tokensUsed, quota });
+
+        const outOfAttempts = attempts.length > maxAttempts;
+        if (outOfAttempts || tokensUsed >= tokenBudget) {
+          return giveUp(
+            422,
+            outOfAttempts
+              ? `Still failing after ${maxAttempts} automatic fix attempt(s).`
+              : `Automatic fixing stopped: token budget of ${tokenBudget} used up.`,
+            outOfAttempts ? "LATEX_REPAIR_EXHAUSTED" : "LATEX_REPAIR_BUDGET_EXHAUSTED"
+          );
+        }
+
+        const target = fileToRepair(files, diagnostics, mainFile);
+        if (!target) throw failure;
+        let reservation: QuotaReservation;
+        try {
+          reservation = await deps.quota.reserve(req, res, caller);
+        } catch (e: any) {
+          if (e?.code !== "QUOTA_EXCEEDED") throw e;
+          quota = e.quota ?? quota;
+          return giveUp(429, e.message, "QUOTA_EXCEEDED");
+        }
+        quota = reservation.status;
+        const fix = await fixLatexWithLog({
+          latex: target.content,
+          log,
+          engine,
+          fileName: isProject ? target.path : undefined,
+          explain: true,
+        }).catch(async (e) => {
+          quota = await reservation.refund();
+          throw asModelError(e);
+        });
+        tokens = fix.tokens;
+        tokensUsed += fix.tokens;
+        const fixed = fix.latex.trim() ? applyLatexFallbacks(fix.latex, { engine, fragment: isProject }) : "";
+        if (!fixed || fixed === target.content) {
+          return giveUp(422, "The automatic fix made no changes.", "LATEX_REPAIR_NO_CHANGE");
+        }
+        diff = diffLatex(target.content, fixed, target.path);
+        file = target.path;
+        rationale = fix.rationale || null;
+        files = files.map((f) => (f === target ? { ...f, content: fixed } : f));
+      }
+    } catch (e: any) {
+      return sendCompileError(res, e, "Compilation failed.", mainFile);
     }
   });
 
   // POST /latex/compile-project
-  // Multi-file LaTeX project compilation
-  router.post("/compile-project", async (req, res) => {
+  // Multi-file LaTeX project compilation. Opt into warm rebuilds with
+  // { incremental: true, projectId }: aux files are kept between runs of that project
+  // (for the signed-in owner of the project; other callers compile cold).
+  // { targetPages } works as for /compile, applied to the main file.
+  router.post("/compile-project", allow("anonymous"), deps.rateLimit("compile"), async (req, res) => {
+    const mainFile = String(req.body?.mainFile ?? "main.tex").trim();
+    try {
+      const files = parseProjectFiles(req.body?.files);
+      const engine = parseTexEngine(req.body?.engine);
+      const buildKey = await resolveBuildKey(req);
+      const targetPages = parseTargetPages(req.body?.targetPages);
+      const owner = callerOf(req).userId;
+      const outcome = targetPages === null
+        ? await compileProject(files, mainFile, { engine, buildKey, owner })
+        : await compileToFit(targetPages, (level) =>
+          compileProject(withFitLevel(files, mainFile, level), mainFile, { engine, buildKey, owner })
+        );
+      return sendCompiledPdf(req, res, outcome, mainFile);
+    } catch (e: any) {
+      return sendCompileError(res, e, "Project compilation failed.", mainFile);
+    }
+  });
+
+  // POST /latex/jobs
+  // Queue a compile and return immediately. Body is either { latex } (single file)
+  // or { files, mainFile } (multi-file project), same as /compile and /compile-project,
+  // plus optional { engine }, { incremental, projectId } and { targetPages }.
+  router.post("/jobs", allow("anonymous"), deps.rateLimit("compile"), async (req, res) => {
     try {
-      const files = req.body?.files;
-      const mainFile = String(req.body?.mainFile ?? "main.tex").trim();
+      const request = parseCompileRequest(req.body, await resolveBuildKey(req), callerOf(req).userId);
+      if (!request) return res.status(400).json({ ok: false, error: "Missing 'latex' or 'files'." });
+
+      const job = deps.compileJobs.submit(() => request.run(), { owner: callerOf(req).userId });
+      return res.status(202).json({ ok: true, jobId: job.id, status: job.status });
+    } catch (e: any) {
+      const status = Number(e?.statusCode ?? 500);
+      const code = typeof e?.code === "string" ? e.code : undefined;
+      return res.status(status).json({ ok: false, error: e?.message ?? "Server error", code });
+    }
+  });
+
+  // POST /latex/compile-stream
+  // Same body as /jobs. Runs the compile as a job and streams Server-Sent Events:
+  //   status { status: "queued" | "running", jobId }
+  //   pass   { tool, index }            (each latexmk rule / engine / bibtex run)
+  //   log    { stream, line }           (stdout/stderr, line by line)
+  //   done   { jobId, pdfUrl, artifactId, cacheHit, diagnostics, repairs, substitutions, fit }
+  //   error  { error, code, log, diagnostics }
+  // The PDF is then fetched from pdfUrl (GET /latex/jobs/:id/pdf).
+  router.post("/compile-stream", allow("anonymous"), deps.rateLimit("compile"), async (req, res) => {
+    let request: ReturnType<typeof parseCompileRequest>;
+    try {
+      request = parseCompileRequest(req.body, await resolveBuildKey(req), callerOf(req).userId);
+      if (!request) return res.status(400).json({ ok: false, error: "Missing 'latex' or 'files'." });
+    } catch (e: any) {
+      return sendCompileError(res, e, "Invalid compile request.", "main.tex");
+    }
+    const { mainFile, repairs, run } = request;
 
-      if (!Array.isArray(files) || files.length === 0) {
-        return res.status(400).json({ ok: false, error: "Missing 'files' array." });
+    const events = openEventStream(res);
+    const send = events.send;
+
+    try {
+      const onProgress: CompileProgressListener = (event) => {
+        if (event.type === "pass") send("pass", { tool: event.tool, index: event.index });
+        else send("log", { stream: event.stream, line: event.line });
+      };
+      const job = deps.compileJobs.submit(() => run(onProgress), {
+        owner: callerOf(req).userId,
+        onStart: () => send("status", { status: "running", jobId: job.id }),
+      });
+      send("status", { status: job.status, jobId: job.id });
+
+      await deps.compileJobs.wait(job);
+      const diagnostics = parseLatexDiagnostics(job.log, { mainFile });
+      if (job.status === "succeeded") {
+        send("done", {
+          jobId: job.id,
+          pdfUrl: `/latex/jobs/${job.id}/pdf`,
+          artifactId: job.artifactId,
+          cacheHit: job.cacheHit,
+          diagnostics,
+          repairs,
+          substitutions: job.substitutions,
+          fit: job.fit,
+        });
+      } else {
+        send("error", { error: job.error, code: job.code, log: job.log, diagnostics });
       }
+    } catch (e: any) {
+      const code = typeof e?.code === "string" ? e.code : undefined;
+      send("error", { error: e?.message ?? "Compilation failed.", code, log: "", diagnostics: [] });
+    } finally {
+      events.end();
+    }
+  });
 
-      // Validate file objects
-      for (const f of files) {
-        if (!f.path || typeof f.path !== "string") {
-          return res.status(400).json({ ok: false, error: "Each file must have a 'path' string." });
+  // GET /latex/jobs/:id
+  // A signed-in user's jobs answer only to their token; others look expired.
+  router.get("/jobs/:id", allow("anonymous"), (req, res) => {
+    const job = deps.compileJobs.get(String(req.params.id), callerOf(req).userId);
+    if (!job) return res.status(404).json({ ok: false, error: "Job not found or expired.", code: "JOB_NOT_FOUND" });
+    return res.json({ ok: true, job: describeCompileJob(job), diagnostics: parseLatexDiagnostics(job.log) });
+  });
+
+  // GET /latex/jobs/:id/pdf
+  router.get("/jobs/:id/pdf", allow("anonymous"), (req, res) => {
+    const job = deps.compileJobs.get(String(req.params.id), callerOf(req).userId);
+    if (!job) return res.status(404).json({ ok: false, error: "Job not found or expired.", code: "JOB_NOT_FOUND" });
+    if (job.status === "failed") {
+      return res.status(422).json({ ok: false, error: job.error, code: job.code, log: job.log });
+    }
+    if (job.status !== "succeeded" || !job.pdf) {
+      return res.status(409).json({ ok: false, error: `Job is ${job.status}.`, code: "JOB_NOT_READY", status: job.status });
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("X-Compile-Cache", job.cacheHit ? "hit" : "miss");
+    if (job.artifactId) res.setHeader("X-Compile-Artifact", job.artifactId);
+    if (job.fit) res.setHeader("X-Latex-Fit", `level=${job.fit.level}; pages=${job.fit.pages}; target=${job.fit.targetPages}`);
+    return res.status(200).send(job.pdf);
+  });
+
+  // POST /latex/thumbnails
+  // { artifactId } (a cached compile) or { pdfBase64 }, plus optional pages (first N,
+  // default 1), sizes (["sm", "md"] by default) and format ("png" | "webp").
+  // Renders the pages, uploads them to the thumbnails bucket and returns their URLs;
+  // thumbnailUrl is page 1 at the middle requested size, for cover/thumbnail columns.
+  router.post("/thumbnails", allow("authenticated"), deps.rateLimit("compile"), async (req, res) => {
+    try {
+      const artifactId = String(req.body?.artifactId ?? "").trim();
+      const pdfBase64 = typeof req.body?.pdfBase64 === "string" ? req.body.pdfBase64 : "";
+      if (!artifactId && !pdfBase64) {
+        return res.status(400).json({ ok: false, error: "Missing 'artifactId' or 'pdfBase64'." });
+      }
+      const sizes = parseThumbnailSizes(req.body?.sizes);
+      const format = parseThumbnailFormat(req.body?.format);
+      const pages = clampInt(req.body?.pages, 1, 1, MAX_THUMBNAIL_PAGES);
+
+      let pdf: Buffer;
+      if (artifactId) {
+        if (!/^[a-f0-9]{64}$/.test(artifactId)) {
+          throw makeHttpError("Invalid artifact id.", 400, undefined, "THUMBNAIL_INVALID_ARTIFACT");
+        }
+        const cached = await deps.compileCache.get(artifactId);
+        if (!cached) {
+          throw makeHttpError(
+            "This compile is no longer cached. Recompile and try again.",
+            404,
+            undefined,
+            "THUMBNAIL_ARTIFACT_NOT_FOUND"
+          );
         }
-        if (typeof f.content !== "string") {
-          return res.status(400).json({ ok: false, error: `File "${f.path}" is missing 'content'.` });
+        pdf = cached.pdf;
+      } else {
+        pdf = Buffer.from(pdfBase64, "base64");
+        if (pdf.subarray(0, 5).toString("latin1") !== "%PDF-") {
+          throw makeHttpError("'pdfBase64' is not a PDF.", 400, undefined, "THUMBNAIL_NOT_A_PDF");
+        }
+        if (pdf.length > deps.sandboxLimits.maxOutputBytes) {
+          throw makeHttpError("PDF is too large to render.", 413, undefined, "THUMBNAIL_PDF_TOO_LARGE");
         }
       }
 
-      const { pdf } = await compileMultiFileProject(files, mainFile, {
-        timeoutMs: deps.latexTimeoutMs,
-      });
+      // Rasterising is as CPU-heavy as a compile, so it shares the compile slots.
+      const rendered = await deps.compileLimiter.run(() =>
+        renderPdfThumbnails(pdf, { pages, sizes, format, timeoutMs: deps.latexTimeoutMs, limits: deps.sandboxLimits })
+      );
+      const images = await deps.thumbnails.upload(pdf, rendered);
+      const firstPage = images.filter((i) => i.page === 1);
+      const cover = firstPage[Math.floor((firstPage.length - 1) / 2)] ?? images[0];
 
-      res.setHeader("Content-Type", "application/pdf");
-      return res.status(200).send(pdf);
+      return res.json({ ok: true, images, thumbnailUrl: cover?.url ?? null });
     } catch (e: any) {
-      const status = Number(e?.statusCode ?? 400);
-      const log = typeof e?.log === "string" ? trimHugeLog(e.log) : undefined;
+      const status = Number(e?.statusCode ?? 500);
       const code = typeof e?.code === "string" ? e.code : undefined;
-      const message = typeof e?.message === "string" ? e.message : "Project compilation failed.";
+      return res.status(status).json({ ok: false, error: e?.message ?? "Server error", code });
+    }
+  });
 
-      return res.status(status).json({ ok: false, error: message, code, log });
+  // POST /latex/export
+  // Convert { latex } or { files, mainFile } to { format: "docx" | "markdown" | "html" }.
+  // Responds with the converted file; X-Export-Converter says whether pandoc or the
+  // built-in converter produced it.
+  router.post("/export", allow("anonymous"), deps.rateLimit("compile"), async (req, res) => {
+    try {
+      const format = parseExportFormat(req.body?.format);
+      const latexRaw = typeof req.body?.latex === "string" ? req.body.latex : "";
+      const files = latexRaw.trim()
+        ? [{ path: "main.tex", content: latexRaw }]
+        : req.body?.files !== undefined
+          ? parseProjectFiles(req.body.files)
+          : null;
+      if (!files) {
+        return res.status(400).json({ ok: false, error: "Missing 'latex' or 'files'." });
+      }
+      const mainFile = latexRaw.trim() ? "main.tex" : String(req.body?.mainFile ?? "main.tex").trim();
+
+      const result = await deps.compileLimiter.run(() =>
+        convertProject(files, mainFile, format, { timeoutMs: deps.latexTimeoutMs, limits: deps.sandboxLimits })
+      );
+      const baseName = path.posix.basename(mainFile, ".tex").replace(/[^\w.-]+/g, "_") || "document";
+
+      res.setHeader("Content-Type", result.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${baseName}.${result.extension}"`);
+      res.setHeader("X-Export-Converter", result.converter);
+      return res.status(200).send(result.bytes);
+    } catch (e: any) {
+      const status = Number(e?.statusCode ?? 500);
+      const code = typeof e?.code === "string" ? e.code : undefined;
+      return res.status(status).json({ ok: false, error: e?.message ?? "Server error", code });
+    }
+  });
+
+  // POST /latex/stats
+  // { latex } or { files, mainFile }, plus optional { artifactId } of a cached compile
+  // for the page count. Counts words (text vs captions), equations, sections, floats
+  // and theorem-like environments; nothing is compiled.
+  router.post("/stats", allow("anonymous"), async (req, res) => {
+    try {
+      const latexRaw = typeof req.body?.latex === "string" ? req.body.latex : "";
+      const files = latexRaw.trim()
+        ? [{ path: "main.tex", content: latexRaw }]
+        : req.body?.files !== undefined
+          ? parseProjectFiles(req.body.files)
+          : null;
+      if (!files) {
+        return res.status(400).json({ ok: false, error: "Missing 'latex' or 'files'." });
+      }
+      const mainFile = latexRaw.trim() ? "main.tex" : String(req.body?.mainFile ?? "main.tex").trim();
+
+      let pages: number | null = null;
+      const artifactId = String(req.body?.artifactId ?? "").trim();
+      if (artifactId) {
+        if (!/^[a-f0-9]{64}$/.test(artifactId)) {
+          throw makeHttpError("Invalid artifact id.", 400, undefined, "STATS_INVALID_ARTIFACT");
+        }
+        // An expired compile just means no page count; the text stats are still useful.
+        const cached = await deps.compileCache.get(artifactId);
+        if (cached) {
+          try {
+            pages = countPdfPages(cached.pdf, cached.log);
+          } catch { }
+        }
+      }
+
+      const stats: LatexStats = { ...analyzeLatexProject(files, mainFile), pages };
+      return res.json({ ok: true, stats });
+    } catch (e: any) {
+      const status = Number(e?.statusCode ?? 500);
+      const code = typeof e?.code === "string" ? e.code : undefined;
+      return res.status(status).json({ ok: false, error: e?.message ?? "Server error", code });
+    }
+  });
+
+  // POST /latex/lint { latex } | { files, mainFile }, optional assets: string[]
+  // Static checks only, no TeX run: cheap enough to call while the user types.
+  router.post("/lint", allow("anonymous"), async (req, res) => {
+    try {
+      const latexRaw = typeof req.body?.latex === "string" ? req.body.latex : null;
+      const files = latexRaw !== null
+        ? [{ path: "main.tex", content: latexRaw }]
+        : req.body?.files !== undefined
+          ? parseProjectFiles(req.body.files)
+          : null;
+      if (!files) {
+        return res.status(400).json({ ok: false, error: "Missing 'latex' or 'files'." });
+      }
+      const mainFile = latexRaw !== null ? "main.tex" : String(req.body?.mainFile ?? "main.tex").trim();
+
+      const assetsRaw = req.body?.assets;
+      if (assetsRaw !== undefined && (!Array.isArray(assetsRaw) || assetsRaw.some((a: unknown) => typeof a !== "string"))) {
+        throw makeHttpError("'assets' must be an array of paths.", 400, undefined, "LINT_INVALID_ASSETS");
+      }
+      // A full project lists every file, so images can be checked without an explicit asset list.
+      const assets: string[] | undefined = assetsRaw ?? (latexRaw === null ? [] : undefined);
+
+      const findings = lintLatexProject(files, mainFile, { assets });
+      return res.json({ ok: true, findings });
+    } catch (e: any) {
+      const status = Number(e?.statusCode ?? 500);
+      const code = typeof e?.code === "string" ? e.code : undefined;
+      return res.status(status).json({ ok: false, error: e?.message ?? "Server error", code });
+    }
+  });
+
+  // GET /latex/synctex/:artifactId/forward?file=main.tex&line=12
+  // Source line -> { page, x, y, width, height } in PDF points (top-left origin).
+  router.get("/synctex/:artifactId/forward", allow("anonymous"), async (req, res) => {
+    try {
+      const file = String(req.query.file ?? "main.tex").trim();
+      const line = Number(req.query.line);
+      if (!Number.isInteger(line) || line < 1) {
+        return res.status(400).json({ ok: false, error: "'line' must be a positive integer." });
+      }
+
+      const data = await loadSynctex(String(req.params.artifactId), callerOf(req).userId);
+      const box = synctexForward(data, { file, line });
+      if (!box) {
+        return res.status(404).json({ ok: false, error: `No PDF location for ${file}:${line}.`, code: "SYNCTEX_NO_MATCH" });
+      }
+      return res.json({ ok: true, ...box });
+    } catch (e: any) {
+      const status = Number(e?.statusCode ?? 500);
+      const code = typeof e?.code === "string" ? e.code : undefined;
+      return res.status(status).json({ ok: false, error: e?.message ?? "Server error", code });
+    }
+  });
+
+  // GET /latex/synctex/:artifactId/inverse?page=1&x=120.5&y=310
+  // PDF point (PDF points, top-left origin) -> { file, line }.
+  router.get("/synctex/:artifactId/inverse", allow("anonymous"), async (req, res) => {
+    try {
+      const page = Number(req.query.page);
+      const x = Number(req.query.x);
+      const y = Number(req.query.y);
+      if (!Number.isInteger(page) || page < 1 || !Number.isFinite(x) || !Number.isFinite(y)) {
+        return res.status(400).json({ ok: false, error: "'page', 'x' and 'y' are required numbers." });
+      }
+
+      const data = await loadSynctex(String(req.params.artifactId), callerOf(req).userId);
+      const location = synctexInverse(data, { page, x, y });
+      if (!location) {
+        return res.status(404).json({ ok: false, error: `No source location on page ${page}.`, code: "SYNCTEX_NO_MATCH" });
+      }
+      return res.json({ ok: true, ...location });
+    } catch (e: any) {
+      const status = Number(e?.statusCode ?? 500);
+      const code = typeof e?.code === "string" ? e.code : undefined;
+      return res.status(status).json({ ok: false, error: e?.message ?? "Server error", code });
     }
   });
 
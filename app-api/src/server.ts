@@ -3,13 +3,25 @@ import express from "express";
 import cors from "cors";
 import crypto from "crypto";
 import fs from "fs";
+import os from "os";
 import path from "path";
 import dotenv from "dotenv";
-import OpenAI from "openai";
 import Stripe from "stripe";
 import { createClient } from "@supabase/supabase-js";
 
-import { buildTemplateIndex } from "./lib/templates";
+import { describeTemplate, loadTemplateCatalog } from "./lib/templates";
+import { createCompileJobStore, createCompileLimiter } from "./lib/compileJobs";
+import { createCompileCache } from "./lib/compileCache";
+import { createBuildDirStore } from "./lib/buildDirs";
+import { createSynctexStore } from "./lib/synctexStore";
+import { createProjectAccess } from "./lib/projects";
+import { createThumbnailStore } from "./lib/thumbnails";
+import { createPlanResolver } from "./lib/plans";
+import { createQuotaStore } from "./lib/quota";
+import { createClientAddressResolver } from "./lib/clientAddress";
+import { createLlmProvider, llmSettingsFromEnv, LLM_TASKS, type LlmProvider, type LlmTask } from "./lib/llm";
+import { createMemoryRateLimitStore, createRateLimiter, parseRateLimitConfig } from "./lib/rateLimit";
+import { DEFAULT_SANDBOX_LIMITS, type SandboxLimits } from "./lib/sandbox";
 import { createLatexRouter } from "./routes/latex";
 import { createStripeRouter } from "./routes/stripe";
 
@@ -160,17 +172,86 @@ function describeSupabaseAdmin(url: string, key: string) {
 const PORT = Number(process.env.PORT ?? 4000);
 
 const OPENAI_API_KEY = readEnv("OPENAI_API_KEY");
-if (!OPENAI_API_KEY) {
-  console.warn("[WARN] OPENAI_API_KEY is not set. /generate-latex and /fix-latex will fail.");
-}
 const OPENAI_MODEL = process.env.OPENAI_MODEL ?? "gpt-4o-mini";
+// Chat model per task (generate, fix): LLM_PROVIDER is openai (default), openai-compatible
+// (LLM_BASE_URL, e.g. a local llama.cpp or Ollama server) or fixture (replay LLM_FIXTURES_DIR).
+// Any LLM_* setting can be narrowed to one task as LLM_GENERATE_* / LLM_FIX_*; see lib/llm.ts.
+const LLM_SETTINGS = Object.fromEntries(
+  LLM_TASKS.map((task) => [task, llmSettingsFromEnv(task, readEnv, { apiKey: OPENAI_API_KEY, model: OPENAI_MODEL })])
+) as Record<LlmTask, ReturnType<typeof llmSettingsFromEnv>>;
+const OPENAI_TASKS = LLM_TASKS.filter((task) => LLM_SETTINGS[task].kind === "openai");
+if (OPENAI_TASKS.length && !OPENAI_API_KEY) {
+  console.warn(`[WARN] OPENAI_API_KEY is not set. ${OPENAI_TASKS.map((task) => `/${task}-latex`).join(" and ")} will fail.`);
+}
 
 const TEMPLATE_DIR = process.env.TEMPLATE_DIR
   ? path.resolve(process.env.TEMPLATE_DIR)
   : path.join(process.cwd(), "templates"); // app-api/templates
+// Throws on a missing or invalid manifest so a broken catalogue never starts serving.
+const TEMPLATES = loadTemplateCatalog(TEMPLATE_DIR);
 
 const MAX_JSON_SIZE = process.env.MAX_JSON_SIZE ?? "20mb";
 const LATEX_TIMEOUT_MS = Number(process.env.LATEX_TIMEOUT_MS ?? 180000);
+// Max latexmk/pdflatex runs at once; extra compiles wait in a FIFO queue.
+const LATEX_MAX_CONCURRENCY = Number(process.env.LATEX_MAX_CONCURRENCY ?? 2);
+const LATEX_MAX_QUEUED = Number(process.env.LATEX_MAX_QUEUED ?? 50);
+const LATEX_JOB_TTL_MS = Number(process.env.LATEX_JOB_TTL_MS ?? 10 * 60 * 1000);
+// Content-addressed cache of successful compiles (set LATEX_CACHE_MAX_BYTES=0 to disable).
+const LATEX_CACHE_DIR = process.env.LATEX_CACHE_DIR
+  ? path.resolve(process.env.LATEX_CACHE_DIR)
+  : path.join(os.tmpdir(), "betternotes-compile-cache");
+const LATEX_CACHE_MAX_BYTES = Number(process.env.LATEX_CACHE_MAX_BYTES ?? 512 * 1024 * 1024);
+const LATEX_CACHE_MAX_ENTRIES = Number(process.env.LATEX_CACHE_MAX_ENTRIES ?? 500);
+// Persistent per-project build dirs for { incremental: true } project compiles.
+const LATEX_BUILD_DIR = process.env.LATEX_BUILD_DIR
+  ? path.resolve(process.env.LATEX_BUILD_DIR)
+  : path.join(os.tmpdir(), "betternotes-builds");
+const LATEX_BUILD_DIR_TTL_MS = Number(process.env.LATEX_BUILD_DIR_TTL_MS ?? 30 * 60 * 1000);
+const LATEX_BUILD_DIR_MAX = Number(process.env.LATEX_BUILD_DIR_MAX ?? 50);
+// SyncTeX data of recent compiles, independent of the compile cache (see lib/synctexStore.ts).
+const LATEX_SYNCTEX_DIR = process.env.LATEX_SYNCTEX_DIR
+  ? path.resolve(process.env.LATEX_SYNCTEX_DIR)
+  : path.join(os.tmpdir(), "betternotes-synctex");
+const LATEX_SYNCTEX_TTL_MS = Number(process.env.LATEX_SYNCTEX_TTL_MS ?? 2 * 60 * 60 * 1000);
+const LATEX_SYNCTEX_MAX_ENTRIES = Number(process.env.LATEX_SYNCTEX_MAX_ENTRIES ?? 500);
+// Public Supabase Storage bucket for rendered PDF previews (see add_thumbnails_bucket.sql).
+const THUMBNAIL_BUCKET = readEnv("THUMBNAIL_BUCKET") || "thumbnails";
+// Compile sandbox caps (input/output sizes in bytes, memory in KB, CPU in seconds).
+const LATEX_SANDBOX_LIMITS: SandboxLimits = {
+  maxInputBytes: Number(process.env.LATEX_MAX_INPUT_BYTES ?? DEFAULT_SANDBOX_LIMITS.maxInputBytes),
+  maxFiles: Number(process.env.LATEX_MAX_FILES ?? DEFAULT_SANDBOX_LIMITS.maxFiles),
+  maxOutputBytes: Number(process.env.LATEX_MAX_OUTPUT_BYTES ?? DEFAULT_SANDBOX_LIMITS.maxOutputBytes),
+  memoryKb: Number(process.env.LATEX_MEMORY_LIMIT_KB ?? DEFAULT_SANDBOX_LIMITS.memoryKb),
+  cpuSeconds: Number(process.env.LATEX_CPU_LIMIT_SECONDS ?? DEFAULT_SANDBOX_LIMITS.cpuSeconds),
+};
+
+// Monthly model-call quota per caller (see supabase/migrations/add_message_quota.sql).
+// This is the only place the limits are set; the database just keeps the counts.
+const QUOTA_LIMITS = {
+  anonymous: Number(process.env.QUOTA_ANON_MESSAGES ?? 1),
+  anonymousPerIp: Number(process.env.QUOTA_ANON_IP_MESSAGES ?? 5),
+  free: Number(process.env.QUOTA_FREE_MESSAGES ?? 50),
+  pro: Number(process.env.QUOTA_PRO_MESSAGES ?? 1000),
+};
+// Signs the anonymous session cookie. Without it a random per-process secret is
+// used, so anonymous sessions (not their IP buckets) reset on every restart.
+const ANON_SESSION_SECRET = readEnv("ANON_SESSION_SECRET");
+if (!ANON_SESSION_SECRET) {
+  console.warn("[WARN] ANON_SESSION_SECRET is not set. Anonymous quota sessions reset when the server restarts.");
+}
+// Token buckets per route group and plan; RATE_LIMITS (JSON) overrides the defaults
+// in lib/rateLimit.ts. Throws on a malformed value so a typo doesn't go unnoticed.
+const RATE_LIMITS = parseRateLimitConfig(readEnv("RATE_LIMITS"));
+// Express "trust proxy" setting. Off by default: with it on, req.ip comes from
+// X-Forwarded-For, which callers can set to anything. Set a hop count (e.g. "1")
+// when a load balancer you run sits in front of this server.
+const TRUST_PROXY = readEnv("TRUST_PROXY") || "false";
+// Shared with app-web, whose proxies sign the browser's address with it
+// (lib/clientAddress.ts). Without it anonymous callers are metered by req.ip.
+const CLIENT_IP_SECRET = readEnv("CLIENT_IP_SECRET");
+if (!CLIENT_IP_SECRET) {
+  console.warn("[WARN] CLIENT_IP_SECRET is not set. Anonymous callers behind the web app share its address for quota and rate limits.");
+}
 
 const allowedOriginsRaw = readEnv("ALLOWED_ORIGINS");
 const allowedOrigins = allowedOriginsRaw
@@ -195,7 +276,7 @@ const SUPABASE_ANON_KEY = readEnv("SUPABASE_ANON_KEY");
 const SUPABASE_SERVICE_ROLE_KEY = readEnv("SUPABASE_SERVICE_ROLE_KEY");
 const supabaseAdminInfo = describeSupabaseAdmin(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
-  console.warn("[WARN] SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not set (checked runtime env + app-web/.env.local). Stripe webhook DB sync will fail.");
+  console.warn("[WARN] SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not set (checked runtime env + app-web/.env.local). Stripe webhook DB sync will fail and every caller is treated as anonymous.");
 } else {
   if (supabaseAdminInfo.role && supabaseAdminInfo.role !== "service_role") {
     console.warn("[WARN] SUPABASE_SERVICE_ROLE_KEY is not a service_role key. Stripe sync requires service_role.");
@@ -210,7 +291,7 @@ if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
 // -------------------------
 // Clients
 // -------------------------
-const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
+const llm = Object.fromEntries(LLM_TASKS.map((task) => [task, createLlmProvider(LLM_SETTINGS[task])])) as Record<LlmTask, LlmProvider>;
 
 const stripe = STRIPE_SECRET_KEY
   ? new Stripe(STRIPE_SECRET_KEY, {
@@ -224,9 +305,51 @@ const supabaseAdmin =
     ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
     : (null as any);
 
+const compileLimiter = createCompileLimiter({
+  maxConcurrent: LATEX_MAX_CONCURRENCY,
+  maxWaiting: LATEX_MAX_QUEUED,
+});
+const compileJobs = createCompileJobStore({
+  limiter: compileLimiter,
+  ttlMs: LATEX_JOB_TTL_MS,
+  maxPending: LATEX_MAX_QUEUED,
+});
+const compileCache = createCompileCache({
+  dirAbs: LATEX_CACHE_DIR,
+  maxBytes: LATEX_CACHE_MAX_BYTES,
+  maxEntries: LATEX_CACHE_MAX_ENTRIES,
+});
+const buildDirs = createBuildDirStore({
+  rootDirAbs: LATEX_BUILD_DIR,
+  ttlMs: LATEX_BUILD_DIR_TTL_MS,
+  maxDirs: LATEX_BUILD_DIR_MAX,
+});
+const synctex = createSynctexStore({
+  dirAbs: LATEX_SYNCTEX_DIR,
+  ttlMs: LATEX_SYNCTEX_TTL_MS,
+  maxEntries: LATEX_SYNCTEX_MAX_ENTRIES,
+});
+const thumbnails = createThumbnailStore({ supabaseAdmin, bucket: THUMBNAIL_BUCKET });
+const plans = createPlanResolver({ supabaseAdmin });
+const projects = createProjectAccess({ supabaseAdmin });
+const clientAddress = createClientAddressResolver({ secret: CLIENT_IP_SECRET });
+// Buckets live in this process; a multi-instance deploy would pass a shared RateLimitStore.
+const rateLimit = createRateLimiter({ store: createMemoryRateLimitStore(), limits: RATE_LIMITS, clientAddress });
+const quota = createQuotaStore({
+  supabaseAdmin,
+  limits: QUOTA_LIMITS,
+  secret: ANON_SESSION_SECRET || crypto.randomBytes(32).toString("hex"),
+  clientAddress,
+});
+
 // -------------------------
 // Middleware
 // -------------------------
+app.set(
+  "trust proxy",
+  TRUST_PROXY === "true" ? true : TRUST_PROXY === "false" ? false : /^\d+$/.test(TRUST_PROXY) ? Number(TRUST_PROXY) : TRUST_PROXY
+);
+
 app.use(
   cors({
     origin: (origin, cb) => {
@@ -269,6 +392,7 @@ app.get("/health", (_req, res) => {
     port: PORT,
     templateDir: TEMPLATE_DIR,
     hasOpenAIKey: Boolean(OPENAI_API_KEY),
+    llm: Object.fromEntries(LLM_TASKS.map((task) => [task, { provider: llm[task].kind, model: llm[task].model }])),
     hasStripeKey: Boolean(STRIPE_SECRET_KEY),
     hasWebhookSecret: Boolean(STRIPE_WEBHOOK_SECRET),
     stripeKeyInfo: describeStripeKey(STRIPE_SECRET_KEY),
@@ -281,12 +405,15 @@ app.get("/health", (_req, res) => {
     hasSupabaseAnon: Boolean(SUPABASE_ANON_KEY),
     supabaseAdminInfo,
     siteUrl: SITE_URL,
+    compileQueue: compileLimiter.stats(),
+    buildDirs: buildDirs.stats(),
+    synctex: synctex.stats(),
+    thumbnailStorage: thumbnails.enabled ? THUMBNAIL_BUCKET : null,
   });
 });
 
 app.get("/templates", (_req, res) => {
-  const idx = buildTemplateIndex(TEMPLATE_DIR);
-  res.json({ ok: true, templateDir: TEMPLATE_DIR, templates: Object.keys(idx).sort() });
+  res.json({ ok: true, templateDir: TEMPLATE_DIR, templates: TEMPLATES.templates.map(describeTemplate) });
 });
 
 // -------------------------
@@ -296,11 +423,30 @@ app.get("/templates", (_req, res) => {
 // LaTeX router (we mount twice: old endpoints + new /latex/* endpoints)
 // - Old:  POST /generate-latex, /compile, /fix-latex
 // - New:  POST /latex/generate-latex, /latex/compile, /latex/fix-latex
+// - Jobs: POST /latex/jobs, GET /latex/jobs/:id, GET /latex/jobs/:id/pdf
+// - Engines: GET /latex/engines (pass { engine: "pdflatex" | "xelatex" | "lualatex" } to compile)
+// - SyncTeX: GET /latex/synctex/:artifactId/forward, GET /latex/synctex/:artifactId/inverse
+// - Thumbnails: POST /latex/thumbnails (PNG/WebP previews of a compiled PDF, uploaded to THUMBNAIL_BUCKET)
+// - Auth: callers send their Supabase access token as "Authorization: Bearer <token>";
+//   each route declares whether it takes anonymous, signed-in or Pro callers (lib/auth.ts)
+// - Usage: GET /latex/usage (plan + monthly message quota; generate/fix responses carry { quota } too)
+// - Rate limits: generate/fix and compile routes answer 429 RATE_LIMITED with Retry-After when
+//   a caller outruns its token bucket (RATE_LIMITS, lib/rateLimit.ts)
 const latexRouter = createLatexRouter({
-  openai,
-  openaiModel: OPENAI_MODEL,
-  templateDirAbs: TEMPLATE_DIR,
+  llm,
+  templates: TEMPLATES,
+  plans,
+  quota,
+  rateLimit,
   latexTimeoutMs: LATEX_TIMEOUT_MS,
+  compileLimiter,
+  compileJobs,
+  compileCache,
+  buildDirs,
+  projects,
+  synctex,
+  thumbnails,
+  sandboxLimits: LATEX_SANDBOX_LIMITS,
 });
 app.use("/", latexRouter);
 app.use("/latex", latexRouter);
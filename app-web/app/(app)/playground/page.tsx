@@ -10,6 +10,8 @@ import {
 import { savePlaygroundDraft, loadPlaygroundDraft, clearPlaygroundDraft } from "@/lib/playgroundDraft";
 import ImportProjectModal from "@/app/components/ImportProjectModal";
 import ExportProjectModal from "@/app/components/ExportProjectModal";
+import LintedTextarea from "@/app/components/LintedTextarea";
+import { useLatexLint } from "@/lib/latexLint";
 import { useToast } from "@/app/components/Toast";
 import { useDialog } from "@/app/components/ConfirmDialog";
 import type { User } from "@supabase/supabase-js";
@@ -200,6 +202,7 @@ function PlaygroundContent() {
     // ── File operations ──
     const activeFile = files.find((f) => f.path === activeFilePath);
     const activeContent = activeFile?.content ?? "";
+    const lintFindings = useLatexLint({ files: files.map((f) => ({ path: f.path, content: f.content })), mainFile: "main.tex" });
 
     function updateFileContent(path: string, content: string) {
         setFiles((prev) => prev.map((f) => f.path === path ? { ...f, content, dirty: true } : f));
@@ -365,6 +368,10 @@ function PlaygroundContent() {
                     return;
                 }
             }
+            if (data?.code === "RATE_LIMITED") {
+                toast(data.error, "warning");
+                return;
+            }
 
             const rawErr = (data?.error ?? "Compilation failed.").toString();
             const markerIdx = rawErr.indexOf("----- compiler output -----");
@@ -593,12 +600,12 @@ function PlaygroundContent() {
                     <div ref={splitContainerRef} className="flex-1 flex min-h-0">
                         {/* Code editor */}
                         <div style={{ width: `${splitRatio}%` }} className="flex flex-col min-w-0 border-r border-white/8">
-                            <textarea
+                            <LintedTextarea
                                 value={activeContent}
                                 onChange={(e) => updateFileContent(activeFilePath, e.target.value)}
-                                className="flex-1 w-full bg-transparent p-4 font-mono text-sm outline-none text-white/90 resize-none"
+                                findings={lintFindings.filter((f) => f.file === activeFilePath)}
+                                className="flex-1"
                                 placeholder={`${activeFilePath} — start typing LaTeX…`}
-                                spellCheck={false}
                             />
                         </div>
 
@@ -6,7 +6,7 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { listProjects, createProject, loadChats, type Project } from "@/lib/api";
 import { supabase } from "@/supabaseClient";
 import ProjectCard from "@/app/components/ProjectCard";
-import { templates } from "@/lib/templates";
+import { useTemplates } from "@/lib/templates";
 import type { User } from "@supabase/supabase-js";
 
 type Filter = "all" | "starred" | "chats";
@@ -21,6 +21,7 @@ export default function ProjectsPage() {
 
 function ProjectsContent() {
     const router = useRouter();
+    const templates = useTemplates();
     const searchParams = useSearchParams();
     const [user, setUser] = useState<User | null>(null);
     const [projects, setProjects] = useState<Project[]>([]);
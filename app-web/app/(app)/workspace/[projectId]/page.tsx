@@ -4,18 +4,23 @@ import { useEffect, useRef, useState, useCallback } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { supabase } from "@/supabaseClient";
 import {
-    getUsageStatus, incrementMessageCount,
+    getUsageStatus, usageStatusFromQuota,
     listProjectFiles, createProjectFolder, deleteProjectFile,
-    listOutputFiles, saveOutputFile,
-    type Project, type ProjectFileRecord, type UsageStatus
+    listOutputFiles, saveOutputFile, updateProject, refreshProjectCover, publishDocument, getLatexStats, TEX_ENGINES,
+    type LatexStats, type Project, type ProjectFileRecord, type ProjectFitSettings, type TexEngine, type UsageStatus
 } from "@/lib/api";
 import { uploadProjectFile, getProjectFileUrl } from "@/lib/storage";
 import FileTree from "@/app/components/FileTree";
 import InlineEditMenu from "@/app/components/InlineEditMenu";
 import PaywallModal from "@/app/components/PaywallModal";
 import ChatThinkingBubble from "@/app/components/ChatThinkingBubble";
+import ProblemsList from "@/app/components/ProblemsList";
+import DocumentStatsPanel from "@/app/components/DocumentStatsPanel";
+import SyncedPdfViewer, { type PdfHighlight } from "@/app/components/SyncedPdfViewer";
+import { normalizeDiagnostics, normalizeRepairAttempts, type LatexDiagnostic } from "@/lib/latexDiagnostics";
+import { readServerSentEvents, type ServerSentEvent } from "@/lib/sse";
 import SlashCommandPicker, { type SlashCommandPickerRef } from "@/app/components/SlashCommandPicker";
-import { templates } from "@/lib/templates";
+import { useTemplates } from "@/lib/templates";
 import { useToast } from "@/app/components/Toast";
 import { useDialog } from "@/app/components/ConfirmDialog";
 import type { User } from "@supabase/supabase-js";
@@ -30,9 +35,37 @@ interface OutputEntry {
 }
 
 const GENERATE_API_ENDPOINT = "/api/generate-latex";
-const FIX_API_ENDPOINT = "/api/fix-latex";
-const COMPILE_API_ENDPOINT = "/api/compile";
-const COMPILE_PROJECT_API_ENDPOINT = "/api/latex/compile-project";
+const REPAIR_API_ENDPOINT = "/api/latex/compile-with-repair";
+const COMPILE_STREAM_API_ENDPOINT = "/api/compile/stream";
+const COMPILE_JOB_PDF_API_ENDPOINT = "/api/compile/jobs";
+const SYNCTEX_API_ENDPOINT = "/api/latex/synctex";
+const EXPORT_API_ENDPOINT = "/api/latex/export";
+
+// Cheat-sheet templates get the page-limit picker by default; other projects once one is set.
+const FIT_TEMPLATE_IDS = ["landscape_3col_maths", "2cols_portrait"];
+const FIT_PAGE_OPTIONS = [1, 2, 3, 4];
+
+type ExportFormat = "docx" | "markdown" | "html";
+const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+    { value: "docx", label: "Word (.docx)" },
+    { value: "markdown", label: "Markdown (.md)" },
+    { value: "html", label: "HTML" },
+];
+
+/** Starter content for a new "References" output file. */
+const REFERENCES_FILE_PATH = "references.bib";
+const REFERENCES_TEMPLATE = `% References: cite entries with \\cite{key}. In main.tex use either
+%   \\bibliographystyle{plain} \\bibliography{references}
+% or
+%   \\usepackage{biblatex} \\addbibresource{references.bib} ... \\printbibliography
+
+@article{example2024,
+  author  = {Doe, Jane and Smith, John},
+  title   = {An Example Article},
+  journal = {Journal of Examples},
+  year    = {2024},
+}
+`;
 
 export default function ProjectWorkspace() {
     const { projectId } = useParams<{ projectId: string }>();
@@ -98,10 +131,19 @@ export default function ProjectWorkspace() {
     // Status flags
     const [isGenerating, setIsGenerating] = useState(false);
     const [isCompiling, setIsCompiling] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [isPublishing, setIsPublishing] = useState(false);
     const [isFixing, setIsFixing] = useState(false);
     const [isSending, setIsSending] = useState(false);
     const [compileError, setCompileError] = useState("");
     const [compileLog, setCompileLog] = useState("");
+    const [compileDiagnostics, setCompileDiagnostics] = useState<LatexDiagnostic[]>([]);
+    // SyncTeX: id of the compile behind the current preview, and the box to outline in it
+    const [compileArtifactId, setCompileArtifactId] = useState<string | null>(null);
+    // Live compiler output streamed while a compile runs
+    const [compileOutput, setCompileOutput] = useState<string[]>([]);
+    const compileOutputRef = useRef<HTMLPreElement | null>(null);
+    const [pdfHighlight, setPdfHighlight] = useState<PdfHighlight | null>(null);
     const sendInFlightRef = useRef(false);
 
     // Auto-compile flag
@@ -113,6 +155,8 @@ export default function ProjectWorkspace() {
     // Freemium
     const [usageStatus, setUsageStatus] = useState<UsageStatus | null>(null);
     const [showPaywallModal, setShowPaywallModal] = useState(false);
+    // Set when app-api refused a Pro-only template or option (code PRO_REQUIRED).
+    const [proRequiredReason, setProRequiredReason] = useState<string | null>(null);
 
     // Panels
     const [leftCollapsed, setLeftCollapsed] = useState(false);
@@ -120,16 +164,26 @@ export default function ProjectWorkspace() {
     // Slash-command template override (one-shot)
     const slashPickerRef = useRef<SlashCommandPickerRef>(null);
     const [templateOverride, setTemplateOverride] = useState<string | null>(null);
+    const templates = useTemplates();
     const selectedTemplate = templateOverride ? templates.find((t) => t.id === templateOverride) ?? null : null;
 
     // Console panel state
     const [consoleOpen, setConsoleOpen] = useState(false);
 
+    // Document stats panel; lastGenerationStats feeds the usage line under the chat
+    const [statsOpen, setStatsOpen] = useState(false);
+    const [docStats, setDocStats] = useState<LatexStats | null>(null);
+    const [statsLoading, setStatsLoading] = useState(false);
+    const [lastGenerationStats, setLastGenerationStats] = useState<LatexStats | null>(null);
+
     // ── Derived state ──
     const activeEntry = outputFiles.find((f) => f.filePath === activeOutputPath);
     const activeContent = activeEntry?.content ?? "";
     const mainTex = outputFiles.find((f) => f.filePath === "main.tex");
     const anyDirty = outputFiles.some((f) => f.dirty);
+    const engine: TexEngine = project?.engine ?? "pdflatex";
+    const targetPages = project?.fit_settings?.targetPages ?? null;
+    const showFitPicker = targetPages !== null || FIT_TEMPLATE_IDS.includes(project?.template_id ?? "");
     const busy = () => isSending || isGenerating || isCompiling || isFixing;
 
     // ── Auth ──
@@ -203,6 +257,12 @@ export default function ProjectWorkspace() {
     // ── Scroll chat ──
     useEffect(() => { bottomRef.current?.scrollIntoView({ behavior: "smooth" }); }, [messages]);
 
+    // ── Follow live compile output ──
+    useEffect(() => {
+        const el = compileOutputRef.current;
+        if (el) el.scrollTop = el.scrollHeight;
+    }, [compileOutput]);
+
     // ── Cleanup PDF URL ──
     useEffect(() => {
         return () => { if (pdfUrl) URL.revokeObjectURL(pdfUrl); };
@@ -248,7 +308,7 @@ export default function ProjectWorkspace() {
     }
 
     async function addNewOutputFile() {
-        const name = await showPrompt({ title: "New File", message: "Enter file name (e.g. preamble.tex, chapters/intro.tex):", placeholder: "preamble.tex", confirmText: "Create" });
+        const name = await showPrompt({ title: "New File", message: "Enter file name (e.g. preamble.tex, chapters/intro.tex, references.bib):", placeholder: "preamble.tex", confirmText: "Create" });
         if (!name?.trim()) return;
         const normalized = name.trim().replace(/\\/g, "/");
         const exists = outputFiles.some((f) => f.filePath === normalized);
@@ -258,6 +318,19 @@ export default function ProjectWorkspace() {
         setActiveTab("latex");
     }
 
+    function addReferencesFile() {
+        const existing = outputFiles.find((f) => f.filePath.endsWith(".bib"));
+        if (existing) {
+            setActiveOutputPath(existing.filePath);
+            setActiveTab("latex");
+            toast(`References already live in ${existing.filePath}.`, "info");
+            return;
+        }
+        setOutputFiles((prev) => [...prev, { filePath: REFERENCES_FILE_PATH, content: REFERENCES_TEMPLATE, dirty: true }]);
+        setActiveOutputPath(REFERENCES_FILE_PATH);
+        setActiveTab("latex");
+    }
+
     async function deleteOutputEntry(filePath: string) {
         if (filePath === "main.tex") { toast("Cannot delete main.tex", "warning"); return; }
         const ok = await showConfirm({ title: "Delete File", message: `Delete output file "${filePath}"?`, variant: "danger", confirmText: "Delete" });
@@ -266,6 +339,56 @@ export default function ProjectWorkspace() {
         if (activeOutputPath === filePath) setActiveOutputPath("main.tex");
     }
 
+    /** Open an output file in the editor and put the cursor at the start of `line` (1-based). */
+    function revealSourceLine(filePath: string | null, line: number | null) {
+        const target = filePath && outputFiles.some((f) => f.filePath === filePath) ? filePath : activeOutputPath;
+        setActiveOutputPath(target);
+        if (activeTab === "preview") setActiveTab("latex");
+        if (line === null) return;
+        // Wait for the editor to mount / switch content before moving the cursor
+        setTimeout(() => {
+            const el = editorRef.current;
+            if (!el) return;
+            const lines = el.value.split("\n");
+            const idx = Math.min(Math.max(line, 1), lines.length) - 1;
+            const start = lines.slice(0, idx).reduce((n, l) => n + l.length + 1, 0);
+            el.focus();
+            el.setSelectionRange(start, start + (lines[idx]?.length ?? 0));
+            const lineHeight = parseFloat(getComputedStyle(el).lineHeight) || 20;
+            el.scrollTop = Math.max(0, idx * lineHeight - el.clientHeight / 3);
+        }, 0);
+    }
+
+    // ═══ SyncTeX ═══
+    /** Preview click -> source line. */
+    async function inverseSearch(point: { page: number; x: number; y: number }) {
+        if (!compileArtifactId) return;
+        const qs = new URLSearchParams({ page: String(point.page), x: point.x.toFixed(2), y: point.y.toFixed(2) });
+        const r = await fetch(`${SYNCTEX_API_ENDPOINT}/${compileArtifactId}/inverse?${qs}`).catch(() => null);
+        const data = await r?.json().catch(() => null);
+        if (!r?.ok || !data?.file) {
+            toast(data?.error ?? "No source location for that spot.", "info");
+            return;
+        }
+        revealSourceLine(String(data.file), Number(data.line) || null);
+    }
+
+    /** Editor cursor line -> box in the preview. */
+    async function forwardSearch() {
+        const el = editorRef.current;
+        if (!compileArtifactId || !el) return;
+        const line = el.value.slice(0, el.selectionStart).split("\n").length;
+        const qs = new URLSearchParams({ file: activeOutputPath, line: String(line) });
+        const r = await fetch(`${SYNCTEX_API_ENDPOINT}/${compileArtifactId}/forward?${qs}`).catch(() => null);
+        const data = await r?.json().catch(() => null);
+        if (!r?.ok || !data?.page) {
+            toast(data?.error ?? "That line is not in the PDF.", "info");
+            return;
+        }
+        if (activeTab === "latex") setActiveTab("split");
+        setPdfHighlight({ page: data.page, x: data.x, y: data.y, width: data.width, height: data.height });
+    }
+
     // ═══ Helpers ═══
     const thinkingProgressSteps = [
         "Generating document...",
@@ -337,7 +460,7 @@ export default function ProjectWorkspace() {
     async function generateLatex(prompt: string, baseLatex?: string) {
         try {
             setIsGenerating(true);
-            const payload: Record<string, unknown> = { prompt };
+            const payload: Record<string, unknown> = { prompt, engine };
             if (project?.template_id) payload.templateId = project.template_id;
             // Use one-shot template override if set
             if (templateOverride) payload.templateId = templateOverride;
@@ -358,6 +481,13 @@ export default function ProjectWorkspace() {
             clearTimeout(timeoutId);
 
             const data = await r.json().catch(() => null);
+            if (data?.quota) setUsageStatus((prev) => usageStatusFromQuota(data.quota, prev?.is_paid ?? false) ?? prev);
+            if (data?.code === "QUOTA_EXCEEDED") setShowPaywallModal(true);
+            if (data?.code === "RATE_LIMITED") toast(data.error, "warning");
+            if (data?.code === "PRO_REQUIRED") {
+                setProRequiredReason(data.error ?? null);
+                setShowPaywallModal(true);
+            }
             if (!r.ok) return { ok: false as const, error: data?.error ?? "Failed to generate." };
             if (data.message) return { ok: true as const, message: data.message as string };
             const latex = (data?.latex ?? "").toString();
@@ -371,9 +501,41 @@ export default function ProjectWorkspace() {
         }
     }
 
-    // ═══ Compile (multi-file aware) ═══
+    // ═══ Compile (multi-file aware, streamed) ═══
+    function appendCompileOutput(line: string) {
+        setCompileOutput((prev) => (prev.length >= 500 ? [...prev.slice(-499), line] : [...prev, line]));
+    }
+
+    /**
+     * Compile body for the non-empty output files: { latex } for a single file, else
+     * { files, mainFile } with the project images attached, built warm on the server.
+     */
+    async function compileSource(texFiles: OutputEntry[]) {
+        if (texFiles.length <= 1) return { latex: mainTex?.content || texFiles[0].content, engine };
+
+        const filesPayload: { path: string; content: string; isBinary?: boolean }[] = texFiles.map((f) => ({
+            path: f.filePath,
+            content: f.content,
+        }));
+
+        // Add project images as binary files (base64)
+        const images = projectFiles.filter((f) => !f.is_folder && f.mime_type?.startsWith("image/") && f.storage_path);
+        for (const img of images) {
+            const url = await getProjectFileUrl(img.storage_path!);
+            if (url) {
+                try {
+                    const resp = await fetch(url);
+                    const buf = await resp.arrayBuffer();
+                    const base64 = btoa(String.fromCharCode(...new Uint8Array(buf)));
+                    filesPayload.push({ path: `figures/${img.name}`, content: base64, isBinary: true });
+                } catch { /* skip failed images */ }
+            }
+        }
+        return { files: filesPayload, mainFile: "main.tex", engine, incremental: true, projectId };
+    }
+
     async function compileProject() {
-        setCompileError(""); setCompileLog("");
+        setCompileError(""); setCompileLog(""); setCompileDiagnostics([]);
         const texFiles = outputFiles.filter((f) => f.content.trim());
         if (texFiles.length === 0) { setCompileError("No files to compile."); return { ok: false as const }; }
 
@@ -382,73 +544,68 @@ export default function ProjectWorkspace() {
             const controller = new AbortController();
             const timeoutId = setTimeout(() => controller.abort(), 180000);
 
-            // Build files array for the backend
-            const filesPayload = texFiles.map((f) => ({
-                path: f.filePath,
-                content: f.content,
-            }));
-
-            // Add project images as binary files (base64)
-            const images = projectFiles.filter((f) => !f.is_folder && f.mime_type?.startsWith("image/") && f.storage_path);
-            for (const img of images) {
-                const url = await getProjectFileUrl(img.storage_path!);
-                if (url) {
-                    try {
-                        const resp = await fetch(url);
-                        const buf = await resp.arrayBuffer();
-                        const base64 = btoa(String.fromCharCode(...new Uint8Array(buf)));
-                        filesPayload.push({
-                            path: `figures/${img.name}`,
-                            content: base64,
-                            isBinary: true,
-                        } as { path: string; content: string; isBinary?: boolean });
-                    } catch { /* skip failed images */ }
-                }
-            }
-
-            // Use single-file or multi-file endpoint
-            const isMultiFile = texFiles.length > 1;
-            const endpoint = isMultiFile ? COMPILE_PROJECT_API_ENDPOINT : COMPILE_API_ENDPOINT;
-            const body = isMultiFile
-                ? { files: filesPayload, mainFile: "main.tex" }
-                : { latex: mainTex?.content || texFiles[0].content };
+            const body = { ...(await compileSource(texFiles)), targetPages };
 
-            const r = await fetch(endpoint, {
+            setCompileOutput([]);
+            const r = await fetch(COMPILE_STREAM_API_ENDPOINT, {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify(body),
                 signal: controller.signal,
             });
+
+            // Live console: log lines and pass boundaries until the final done/error event
+            let final: ServerSentEvent | null = null;
+            if ((r.headers.get("content-type") || "").includes("text/event-stream")) {
+                await readServerSentEvents(r, (ev) => {
+                    const d = (ev.data ?? {}) as { line?: string; tool?: string; index?: number };
+                    if (ev.event === "log") appendCompileOutput(String(d.line ?? ""));
+                    else if (ev.event === "pass") appendCompileOutput(`── pass ${d.index}: ${d.tool} ──`);
+                    else if (ev.event === "done" || ev.event === "error") final = ev;
+                });
+            } else {
+                final = { event: "error", data: await r.json().catch(() => null) };
+            }
             clearTimeout(timeoutId);
 
-            const ct = (r.headers.get("content-type") || "").toLowerCase();
-            if (r.ok && ct.includes("application/pdf")) {
-                const buf = await r.arrayBuffer();
+            const result = final as ServerSentEvent | null;
+            const data = (result?.data ?? null) as Record<string, unknown> | null;
+            if (result?.event === "done" && data?.jobId) {
+                const pdfRes = await fetch(`${COMPILE_JOB_PDF_API_ENDPOINT}/${data.jobId}/pdf`);
+                const buf = pdfRes.ok ? await pdfRes.arrayBuffer() : null;
                 if (!buf || buf.byteLength === 0) { setCompileError("Empty PDF."); return { ok: false as const }; }
                 const blob = new Blob([buf], { type: "application/pdf" });
                 setPdfUrl((prev) => { if (prev) URL.revokeObjectURL(prev); return URL.createObjectURL(blob); });
-                return { ok: true as const };
-            }
-
-            const data = await r.json().catch(() => null);
-            if (r.ok) {
-                const b64 = (data?.pdfBase64 ?? data?.pdf_base64 ?? data?.pdf ?? "").toString();
-                if (b64.trim()) {
-                    const bin = atob(b64);
-                    const bytes = new Uint8Array(bin.length);
-                    for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
-                    const blob = new Blob([bytes], { type: "application/pdf" });
-                    setPdfUrl((prev) => { if (prev) URL.revokeObjectURL(prev); return URL.createObjectURL(blob); });
-                    return { ok: true as const };
+                const artifactId = data.artifactId ? String(data.artifactId) : null;
+                setCompileArtifactId(artifactId);
+                setPdfHighlight(null);
+                const substituted = Array.isArray(data.substitutions)
+                    ? (data.substitutions as { package: string }[]).map((sub) => sub.package)
+                    : [];
+                if (substituted.length) {
+                    toast(`Not installed on the server, used a substitute: ${substituted.join(", ")}.`, "info");
+                }
+                const fit = data.fit as ProjectFitSettings | null | undefined;
+                if (fit && project) {
+                    const settings: ProjectFitSettings = { targetPages: fit.targetPages, level: fit.level, pages: fit.pages, parameters: fit.parameters };
+                    setProject({ ...project, fit_settings: settings });
+                    void updateProject(project.id, { fit_settings: settings });
                 }
+                return { ok: true as const, artifactId };
             }
 
+            if (data?.code === "RATE_LIMITED") {
+                // Not a compiler error: leave the log and "Fix with AI" alone.
+                toast(String(data.error), "warning");
+                return { ok: false as const };
+            }
             const rawErr = (data?.error ?? "Compilation failed.").toString();
             const markerIdx = rawErr.indexOf("----- compiler output -----");
             const message = markerIdx === -1 ? rawErr : rawErr.slice(0, markerIdx).trim();
             const log = markerIdx === -1 ? "" : rawErr.slice(markerIdx + 27).trim();
             setCompileError(message || "Compilation failed.");
             setCompileLog(log || (data?.log ? String(data.log) : ""));
+            setCompileDiagnostics(normalizeDiagnostics(data?.diagnostics));
             return { ok: false as const };
         } catch (e: unknown) {
             if ((e as Error)?.name === "AbortError") {
@@ -462,29 +619,73 @@ export default function ProjectWorkspace() {
         }
     }
 
+    // ═══ Stats ═══
+    async function refreshStats(artifactId: string | null = compileArtifactId) {
+        const texFiles = outputFiles.filter((f) => f.content.trim());
+        if (texFiles.length === 0) { setDocStats(null); return null; }
+        setStatsLoading(true);
+        const source = texFiles.length > 1
+            ? { files: texFiles.map((f) => ({ path: f.filePath, content: f.content })), mainFile: "main.tex" }
+            : { latex: texFiles[0].content };
+        const stats = await getLatexStats(source, artifactId);
+        setStatsLoading(false);
+        setDocStats(stats);
+        return stats;
+    }
+
+    function toggleStats() {
+        const next = !statsOpen;
+        setStatsOpen(next);
+        if (next) void refreshStats();
+    }
+
     // ═══ Fix with AI ═══
+    // Compile, let the model fix the failing file and recompile, a few rounds at most
+    // (app-api /latex/compile-with-repair). Each fix's rationale goes to the chat.
     async function fixWithAI() {
-        const current = activeEntry?.content || mainTex?.content;
-        if (!current?.trim() || !compileLog.trim()) return;
+        const texFiles = outputFiles.filter((f) => f.content.trim());
+        if (texFiles.length === 0 || !compileLog.trim()) return;
         setIsFixing(true);
         try {
-            const r = await fetch(FIX_API_ENDPOINT, {
+            const r = await fetch(REPAIR_API_ENDPOINT, {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ latex: current, log: compileLog }),
+                body: JSON.stringify(await compileSource(texFiles)),
             });
             const data = await r.json().catch(() => null);
-            if (!r.ok) throw new Error(data?.error ?? "Fix failed.");
-            const fixed = (data?.fixedLatex ?? "").toString();
-            if (!fixed.trim()) throw new Error("Empty fix result.");
-            updateOutputFile(activeOutputPath, fixed);
-            setCompileError(""); setCompileLog("");
-            // Recompile after fix
-            const comp = await compileProject();
-            if (comp.ok) {
-                setOutputFiles((prev) => prev.map((f) => ({ ...f, dirty: false })));
-                setMessages((m) => [...m, { role: "assistant", content: "Applied AI fix and recompiled successfully." }]);
+            if (data?.quota) setUsageStatus((prev) => usageStatusFromQuota(data.quota, prev?.is_paid ?? false) ?? prev);
+            if (data?.code === "QUOTA_EXCEEDED") setShowPaywallModal(true);
+            if (data?.code === "RATE_LIMITED") {
+                toast(data.error, "warning");
+                return;
+            }
+
+            const attempts = normalizeRepairAttempts(data?.attempts);
+            const explained = attempts.filter((a) => a.file);
+            if (explained.length) {
+                const steps = explained.map((a) => `• ${a.file} (+${a.added} −${a.removed}): ${a.rationale || "no explanation given."}`);
+                const outcome = r.ok ? "Fixed with AI and recompiled." : "AI fixes tried, but it still doesn't compile:";
+                setMessages((m) => [...m, { role: "assistant", content: [outcome, ...steps].join("\n") }]);
             }
+            if (!r.ok) {
+                setCompileError(data?.error ?? "Fix failed.");
+                if (data?.log) setCompileLog(String(data.log));
+                setCompileDiagnostics(normalizeDiagnostics(data?.diagnostics));
+                return;
+            }
+
+            // Only the files the fixes touched come back
+            const changed: { path: string; content: string }[] = Array.isArray(data.files)
+                ? data.files
+                : data.repaired ? [{ path: texFiles[0].filePath, content: String(data.latex ?? "") }] : [];
+            for (const f of changed) updateOutputFile(f.path, f.content);
+
+            const bytes = Uint8Array.from(atob(String(data.pdfBase64 ?? "")), (c) => c.charCodeAt(0));
+            const blob = new Blob([bytes], { type: "application/pdf" });
+            setPdfUrl((prev) => { if (prev) URL.revokeObjectURL(prev); return URL.createObjectURL(blob); });
+            setCompileArtifactId(data.artifactId ? String(data.artifactId) : null);
+            setPdfHighlight(null);
+            setCompileError(""); setCompileLog(""); setCompileDiagnostics(normalizeDiagnostics(data.diagnostics));
         } catch (e: unknown) {
             setCompileError((e as Error)?.message ?? "Fix error");
         } finally {
@@ -534,7 +735,6 @@ export default function ProjectWorkspace() {
             const compilePromise = compileProject();
             const savePromise = (async () => {
                 try {
-                    await incrementMessageCount();
                     if (projectId) await saveOutputFile(projectId, "main.tex", newLatex);
                 } catch { /* skip */ }
             })();
@@ -543,6 +743,10 @@ export default function ProjectWorkspace() {
             if (comp.ok) {
                 setOutputFiles((prev) => prev.map((f) => ({ ...f, dirty: false })));
                 setMessages((m) => replaceLastWorking(m, "Done. Preview updated."));
+                void getLatexStats({ latex: newLatex }, comp.artifactId).then((stats) => {
+                    setLastGenerationStats(stats);
+                    if (stats && statsOpen) setDocStats(stats);
+                });
             } else {
                 setMessages((m) => replaceLastWorking(m, 'Generated LaTeX, but compilation failed. Use "Fix with AI".'));
             }
@@ -558,7 +762,7 @@ export default function ProjectWorkspace() {
     // ═══ Save & Compile ═══
     async function saveAndCompile() {
         if (outputFiles.length === 0 || busy()) return;
-        setCompileError(""); setCompileLog("");
+        setCompileError(""); setCompileLog(""); setCompileDiagnostics([]);
 
         // Save all dirty output files to DB
         const savePromises = outputFiles.filter((f) => f.dirty).map((f) =>
@@ -570,6 +774,9 @@ export default function ProjectWorkspace() {
             setOutputFiles((prev) => prev.map((f) => ({ ...f, dirty: false })));
         }
         await Promise.all(savePromises);
+        // Keep the project card preview in step with what was saved
+        if (comp.ok && comp.artifactId) void refreshProjectCover(projectId, comp.artifactId);
+        if (comp.ok && statsOpen) void refreshStats(comp.artifactId);
     }
 
     // ═══ Downloads ═══
@@ -625,6 +832,81 @@ export default function ProjectWorkspace() {
         }
     }
 
+    async function exportDocument(format: ExportFormat) {
+        const texFiles = outputFiles.filter((f) => f.content.trim());
+        if (texFiles.length === 0 || isExporting) return;
+        setIsExporting(true);
+        try {
+            const res = await fetch(EXPORT_API_ENDPOINT, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    files: texFiles.map((f) => ({ path: f.filePath, content: f.content })),
+                    mainFile: mainTex ? "main.tex" : texFiles[0].filePath,
+                    format,
+                }),
+            });
+            if (!res.ok) {
+                const data = await res.json().catch(() => null);
+                toast(data?.error || "Export failed.", data?.code === "RATE_LIMITED" ? "warning" : "error");
+                return;
+            }
+            const blob = await res.blob();
+            const extension = format === "markdown" ? "md" : format;
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement("a");
+            a.href = url;
+            a.download = `${project?.title || "project"}.${extension}`;
+            a.click();
+            URL.revokeObjectURL(url);
+        } catch {
+            toast("Export failed. Check your connection and try again.", "error");
+        } finally {
+            setIsExporting(false);
+        }
+    }
+
+    // ═══ Publish ═══
+    // Publishes the compile shown in the preview; its first page becomes the thumbnail.
+    async function publishProject() {
+        if (!project || !compileArtifactId || isPublishing) return;
+        const title = await showPrompt({ title: "Publish", message: "Title shown with the published document:", defaultValue: project.title, confirmText: "Publish" });
+        if (!title?.trim()) return;
+        setIsPublishing(true);
+        const documentId = await publishDocument(
+            { project_id: project.id, title: title.trim(), description: project.description || undefined },
+            { artifactId: compileArtifactId }
+        );
+        setIsPublishing(false);
+        if (documentId) toast("Published.", "success");
+        else toast("Could not publish this project. Try again.", "error");
+    }
+
+    // ═══ Engine ═══
+    async function changeEngine(next: TexEngine) {
+        if (!project || next === engine) return;
+        const previous = project.engine;
+        setProject({ ...project, engine: next });
+        const ok = await updateProject(project.id, { engine: next });
+        if (!ok) {
+            setProject((p) => (p ? { ...p, engine: previous } : p));
+            toast("Could not save the engine for this project.", "error");
+        }
+    }
+
+    // ═══ Page limit ═══
+    async function changeTargetPages(next: number | null) {
+        if (!project || next === targetPages) return;
+        const previous = project.fit_settings ?? null;
+        const settings: ProjectFitSettings | null = next === null ? null : { targetPages: next, level: null, pages: null, parameters: null };
+        setProject({ ...project, fit_settings: settings });
+        const ok = await updateProject(project.id, { fit_settings: settings });
+        if (!ok) {
+            setProject((p) => (p ? { ...p, fit_settings: previous } : p));
+            toast("Could not save the page limit for this project.", "error");
+        }
+    }
+
     function downloadPdf() {
         if (!pdfUrl) return;
         const a = document.createElement("a");
@@ -748,6 +1030,11 @@ export default function ProjectWorkspace() {
                                 <div className={`w-1.5 h-1.5 rounded-full ${usageStatus.remaining > 2 ? "bg-emerald-400" : usageStatus.remaining > 0 ? "bg-amber-400" : "bg-red-400"}`} />
                                 <span className="text-white/50">{usageStatus.is_paid ? "Pro" : "Free"}: <span className="text-white/70 font-medium">{usageStatus.remaining}</span>/{usageStatus.free_limit}</span>
                             </div>
+                            {lastGenerationStats && (
+                                <span className="text-[11px] text-white/35 truncate" title="Content produced by the last generation">
+                                    Last: {lastGenerationStats.words.total.toLocaleString()} words · {lastGenerationStats.equations.display + lastGenerationStats.equations.inline} eq.{lastGenerationStats.pages !== null ? ` · ${lastGenerationStats.pages} p.` : ""}
+                                </span>
+                            )}
                             {!usageStatus.is_paid && usageStatus.remaining <= 2 && (
                                 <a href="/pricing" className="text-emerald-400 hover:underline text-[11px]">Upgrade</a>
                             )}
@@ -829,15 +1116,50 @@ export default function ProjectWorkspace() {
                             <svg className="w-3.5 h-3.5 inline-block" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="1.5"><path strokeLinecap="round" strokeLinejoin="round" d="M9 4.5v15m6-15v15M4.5 4.5h15a1.5 1.5 0 011.5 1.5v12a1.5 1.5 0 01-1.5 1.5h-15A1.5 1.5 0 013 18V6a1.5 1.5 0 011.5-1.5z" /></svg>
                         </button>
                         <div className="w-px h-5 bg-white/10 mx-0.5" />
+                        <select
+                            value={engine}
+                            onChange={(e) => changeEngine(e.target.value as TexEngine)}
+                            disabled={busy()}
+                            title="TeX engine"
+                            className="rounded-lg px-2 py-1.5 text-xs border border-white/10 bg-white/8 text-white/70 hover:bg-white/12 disabled:opacity-30"
+                        >
+                            {TEX_ENGINES.map((e) => <option key={e} value={e} className="bg-neutral-900">{e}</option>)}
+                        </select>
+                        {showFitPicker && (
+                            <select
+                                value={targetPages ?? ""}
+                                onChange={(e) => changeTargetPages(e.target.value ? Number(e.target.value) : null)}
+                                disabled={busy()}
+                                title={project?.fit_settings?.level ? `Fitted at level ${project.fit_settings.level}` : "Page limit"}
+                                className="rounded-lg px-2 py-1.5 text-xs border border-white/10 bg-white/8 text-white/70 hover:bg-white/12 disabled:opacity-30"
+                            >
+                                <option value="" className="bg-neutral-900">No page limit</option>
+                                {FIT_PAGE_OPTIONS.map((n) => <option key={n} value={n} className="bg-neutral-900">Fit to {n} page{n === 1 ? "" : "s"}</option>)}
+                            </select>
+                        )}
                         <button onClick={saveAndCompile} disabled={!canCompile} className={`rounded-lg px-2.5 py-1.5 text-xs font-semibold ${canCompile ? "bg-white text-neutral-950 hover:bg-white/90" : "bg-white/15 text-white/40 cursor-not-allowed"}`}>
                             {isCompiling ? "Compiling…" : "Compile"}
                         </button>
+                        <button onClick={toggleStats} disabled={!outputFiles.some((f) => f.content.trim())} className={`rounded-lg px-2.5 py-1.5 text-xs border ${statsOpen ? "bg-white text-neutral-950 border-white" : "border-white/10 bg-white/8 hover:bg-white/12"} disabled:opacity-30`} title="Words, equations, sections and pages">Stats</button>
                         <div className="w-px h-5 bg-white/10 mx-0.5" />
                         <button onClick={downloadCurrentTex} disabled={!activeContent.trim()} className="rounded-lg px-2.5 py-1.5 text-xs border border-white/10 bg-white/8 hover:bg-white/12 disabled:opacity-30">.tex</button>
                         {outputFiles.length > 1 && (
                             <button onClick={downloadZip} className="rounded-lg px-2.5 py-1.5 text-xs border border-white/10 bg-white/8 hover:bg-white/12">.zip</button>
                         )}
                         <button onClick={downloadPdf} disabled={!pdfUrl} className="rounded-lg px-2.5 py-1.5 text-xs border border-white/10 bg-white/8 hover:bg-white/12 disabled:opacity-30">PDF</button>
+                        <select
+                            value=""
+                            onChange={(e) => { if (e.target.value) exportDocument(e.target.value as ExportFormat); }}
+                            disabled={!outputFiles.some((f) => f.content.trim()) || isExporting}
+                            title="Export as"
+                            className="rounded-lg px-2 py-1.5 text-xs border border-white/10 bg-white/8 text-white/70 hover:bg-white/12 disabled:opacity-30"
+                        >
+                            <option value="" className="bg-neutral-900">{isExporting ? "Exporting…" : "Export…"}</option>
+                            {EXPORT_FORMATS.map((f) => <option key={f.value} value={f.value} className="bg-neutral-900">{f.label}</option>)}
+                        </select>
+                        <button onClick={publishProject} disabled={!compileArtifactId || isPublishing} className="rounded-lg px-2.5 py-1.5 text-xs border border-white/10 bg-white/8 hover:bg-white/12 disabled:opacity-30" title={compileArtifactId ? "Publish the compiled PDF" : "Compile first to publish"}>
+                            {isPublishing ? "Publishing…" : "Publish"}
+                        </button>
                     </div>
                 </div>
 
@@ -848,11 +1170,18 @@ export default function ProjectWorkspace() {
                         <div className="w-48 border-r border-white/8 flex flex-col">
                             <div className="flex items-center justify-between px-3 py-2 border-b border-white/8">
                                 <span className="text-[10px] font-semibold text-white/30 uppercase tracking-wider">Output Files</span>
-                                <button onClick={addNewOutputFile} className="h-5 w-5 rounded text-white/25 hover:text-white/60 hover:bg-white/10 flex items-center justify-center" title="New file">
-                                    <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
-                                        <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
-                                    </svg>
-                                </button>
+                                <div className="flex items-center gap-0.5">
+                                    <button onClick={addReferencesFile} className="h-5 w-5 rounded text-white/25 hover:text-white/60 hover:bg-white/10 flex items-center justify-center" title="New references file (.bib)">
+                                        <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 6.042A8.967 8.967 0 006 3.75c-1.052 0-2.062.18-3 .512v14.25A8.987 8.987 0 016 18c2.305 0 4.408.867 6 2.292m0-14.25a8.966 8.966 0 016-2.292c1.052 0 2.062.18 3 .512v14.25A8.987 8.987 0 0018 18a8.967 8.967 0 00-6 2.292m0-14.25v14.25" />
+                                        </svg>
+                                    </button>
+                                    <button onClick={addNewOutputFile} className="h-5 w-5 rounded text-white/25 hover:text-white/60 hover:bg-white/10 flex items-center justify-center" title="New file">
+                                        <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+                                        </svg>
+                                    </button>
+                                </div>
                             </div>
                             <div className="flex-1 overflow-y-auto py-1">
                                 {outputFiles.length === 0 ? (
@@ -868,6 +1197,7 @@ export default function ProjectWorkspace() {
                                                     <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
                                                 </svg>
                                                 <span className="truncate">{f.filePath}</span>
+                                                {f.filePath.endsWith(".bib") && <span className="text-[9px] text-white/30 flex-shrink-0">References</span>}
                                                 {f.dirty && <span className="w-1.5 h-1.5 rounded-full bg-amber-400 flex-shrink-0" title="Unsaved" />}
                                             </button>
                                             {f.filePath !== "main.tex" && (
@@ -889,7 +1219,10 @@ export default function ProjectWorkspace() {
                             <div ref={splitContainerRef} className="flex-1 flex rounded-2xl border border-white/8 bg-white/[0.03] overflow-hidden">
                                 {/* Code panel */}
                                 <div style={{ width: `${splitRatio}%` }} className="flex flex-col min-w-0">
-                                    <div className="px-3 py-1.5 border-b border-white/8 text-[10px] text-white/30 font-semibold uppercase tracking-wider">LaTeX — {activeOutputPath}</div>
+                                    <div className="flex items-center justify-between px-3 py-1.5 border-b border-white/8">
+                                        <span className="text-[10px] text-white/30 font-semibold uppercase tracking-wider">LaTeX — {activeOutputPath}</span>
+                                        <button onClick={forwardSearch} disabled={!compileArtifactId} className="text-[10px] text-white/40 hover:text-white/80 disabled:opacity-30" title="Show the cursor line in the PDF">Show in PDF →</button>
+                                    </div>
                                     <div className="relative flex-1">
                                         <textarea
                                             ref={editorRef}
@@ -909,8 +1242,8 @@ export default function ProjectWorkspace() {
                                 {/* Preview panel */}
                                 <div style={{ width: `${100 - splitRatio}%` }} className="flex flex-col min-w-0">
                                     <div className="px-3 py-1.5 border-b border-white/8 text-[10px] text-white/30 font-semibold uppercase tracking-wider">Preview</div>
-                                    <div className="flex-1">
-                                        {pdfUrl ? <iframe title="PDF Preview" src={pdfUrl} className="w-full h-full" /> : <div className="h-full flex items-center justify-center text-white/30 text-sm">No PDF yet</div>}
+                                    <div className="flex-1 min-h-0">
+                                        {pdfUrl ? <SyncedPdfViewer url={pdfUrl} highlight={pdfHighlight} onPointClick={compileArtifactId ? inverseSearch : undefined} /> : <div className="h-full flex items-center justify-center text-white/30 text-sm">No PDF yet</div>}
                                     </div>
                                 </div>
                             </div>
@@ -919,7 +1252,7 @@ export default function ProjectWorkspace() {
                             <div className="flex-1 rounded-2xl border border-white/8 bg-white/[0.03] overflow-hidden relative">
                                 {activeTab === "preview" ? (
                                     pdfUrl ? (
-                                        <iframe title="PDF Preview" src={pdfUrl} className="w-full h-full" />
+                                        <SyncedPdfViewer url={pdfUrl} highlight={pdfHighlight} onPointClick={compileArtifactId ? inverseSearch : undefined} />
                                     ) : (
                                         <div className="h-full flex items-center justify-center text-white/30 text-sm">
                                             No PDF yet. Send a prompt or compile.
@@ -940,6 +1273,20 @@ export default function ProjectWorkspace() {
                             </div>
                         )}
 
+                        {/* ── Document stats ── */}
+                        {statsOpen && (
+                            <div className="rounded-xl border border-white/10 bg-white/[0.03] p-3">
+                                <div className="mb-2 flex items-center justify-between">
+                                    <span className="text-sm font-medium text-white/80">Document stats</span>
+                                    <div className="flex items-center gap-2">
+                                        <button onClick={() => refreshStats()} disabled={statsLoading} className="rounded-lg px-2 py-1 text-xs border border-white/8 bg-white/5 hover:bg-white/10 text-white/50 disabled:opacity-30">Refresh</button>
+                                        <button onClick={() => setStatsOpen(false)} className="rounded-lg px-2 py-1 text-xs border border-white/8 bg-white/5 hover:bg-white/10 text-white/40">Close</button>
+                                    </div>
+                                </div>
+                                <DocumentStatsPanel stats={docStats} loading={statsLoading} />
+                            </div>
+                        )}
+
                         {/* ── Compilation Console ── */}
                         {(compileError || isCompiling || consoleOpen) && (
                             <div className={`rounded-xl border p-3 transition-all ${compileError ? "border-red-400/20 bg-red-500/10" : isCompiling ? "border-amber-400/20 bg-amber-500/10" : "border-emerald-400/20 bg-emerald-500/10"}`}>
@@ -963,9 +1310,17 @@ export default function ProjectWorkspace() {
                                                 {isFixing ? "Fixing…" : "Fix with AI"}
                                             </button>
                                         )}
-                                        <button onClick={() => { setCompileError(""); setCompileLog(""); setConsoleOpen(false); }} className="rounded-lg px-2 py-1 text-xs border border-white/8 bg-white/5 hover:bg-white/10 text-white/40">Clear</button>
+                                        <button onClick={() => { setCompileError(""); setCompileLog(""); setCompileDiagnostics([]); setConsoleOpen(false); }} className="rounded-lg px-2 py-1 text-xs border border-white/8 bg-white/5 hover:bg-white/10 text-white/40">Clear</button>
                                     </div>
                                 </div>
+                                <ProblemsList
+                                    diagnostics={compileDiagnostics}
+                                    onSelect={(d) => revealSourceLine(d.file, d.line)}
+                                    className="mt-2"
+                                />
+                                {isCompiling && compileOutput.length > 0 && (
+                                    <pre ref={compileOutputRef} className="mt-2 max-h-32 overflow-auto rounded-lg border border-white/8 bg-black/30 p-2 text-xs text-white/60 font-mono">{compileOutput.join("\n")}</pre>
+                                )}
                                 {compileLog && (
                                     <pre className="mt-2 max-h-32 overflow-auto rounded-lg border border-white/8 bg-black/30 p-2 text-xs text-white/60 font-mono">{compileLog}</pre>
                                 )}
@@ -975,7 +1330,7 @@ export default function ProjectWorkspace() {
                 </div>
             </div>
 
-            <PaywallModal isOpen={showPaywallModal} onClose={() => setShowPaywallModal(false)} remaining={usageStatus?.remaining} resetsAt={usageStatus?.resets_at} />
+            <PaywallModal isOpen={showPaywallModal} onClose={() => { setShowPaywallModal(false); setProRequiredReason(null); }} remaining={usageStatus?.remaining} resetsAt={usageStatus?.resets_at} reason={proRequiredReason} />
         </div>
     );
 }
@@ -7,10 +7,15 @@ import TemplateCardSelect from "@/app/components/TemplateCardSelect";
 import PaywallModal from "@/app/components/PaywallModal";
 import PdfPreviewModal from "@/app/components/PdfPreviewModal";
 import ChatThinkingBubble from "@/app/components/ChatThinkingBubble";
+import ProblemsList from "@/app/components/ProblemsList";
+import LintedTextarea from "@/app/components/LintedTextarea";
+import { useLatexLint } from "@/lib/latexLint";
+import { normalizeDiagnostics, type LatexDiagnostic } from "@/lib/latexDiagnostics";
+import { readServerSentEvents } from "@/lib/sse";
 import SlashCommandPicker, { type SlashCommandPickerRef } from "@/app/components/SlashCommandPicker";
-import { templates } from "../../../lib/templates";
+import { fetchTemplates, useTemplates, type TemplateInfo } from "../../../lib/templates";
 import { saveWorkspaceDraft, loadWorkspaceDraft, clearWorkspaceDraft, WorkspaceDraft } from "../../../lib/workspaceDraft";
-import { getUsageStatus, incrementMessageCount, saveChat, updateChat, loadChat, createProject, listProjects, saveOutputFile, UsageStatus } from "../../../lib/api";
+import { getUsageStatus, usageStatusFromQuota, saveChat, updateChat, loadChat, createProject, listProjects, saveOutputFile, UsageStatus, TemplateVariableValues } from "../../../lib/api";
 import SaveProjectModal from "@/app/components/SaveProjectModal";
 import { supabase } from "@/supabaseClient";
 import type { User } from "@supabase/supabase-js";
@@ -19,11 +24,28 @@ import { useDialog } from "@/app/components/ConfirmDialog";
 
 type Mode = "start" | "project";
 type Msg = { role: "user" | "assistant"; content: string };
+type GenerateResponseBody = { ok?: boolean; error?: string; code?: string; message?: string; latex?: string; quota?: unknown };
 
 const GENERATE_API_ENDPOINT = "/api/generate-latex";
 const FIX_API_ENDPOINT = "/api/fix-latex";
 const COMPILE_API_ENDPOINT = "/api/compile";
 
+// A streamed /generate-latex answer: the raw model output goes to onProgress as it
+// arrives, then "done" (or "error") carries the same body a plain JSON response would.
+async function readGenerateStream(r: Response, onProgress?: (streamed: string) => void): Promise<GenerateResponseBody> {
+  let streamed = "";
+  let result = null as GenerateResponseBody | null;
+  await readServerSentEvents(r, (ev) => {
+    if (ev.event === "delta") {
+      streamed += String((ev.data as { text?: string } | null)?.text ?? "");
+      onProgress?.(streamed);
+    } else if (ev.event === "done" || ev.event === "error") {
+      result = ev.data as GenerateResponseBody;
+    }
+  });
+  return result ?? { ok: false, error: "The response ended before the document was complete." };
+}
+
 function base64ToUint8Array(base64: string) {
   const bin = atob(base64);
   const len = bin.length;
@@ -68,7 +90,10 @@ function WorkspaceContent() {
 
   // START mode
   const [startInput, setStartInput] = useState("");
+  const templates = useTemplates();
   const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  // Template variable values the user changed, by template id
+  const [templateValues, setTemplateValues] = useState<Record<string, TemplateVariableValues>>({});
   const pendingAutoSendRef = useRef<string | null>(null);
   const [fileError, setFileError] = useState("");
 
@@ -144,10 +169,9 @@ function WorkspaceContent() {
   useEffect(() => {
     const templateParam = searchParams.get("template");
     if (templateParam) {
-      const exists = templates.some((t) => t.id === templateParam);
-      if (exists) {
-        setSelectedTemplateId(templateParam);
-      }
+      fetchTemplates().then((list) => {
+        if (list.some((t) => t.id === templateParam)) setSelectedTemplateId(templateParam);
+      });
     }
 
     const promptParam = searchParams.get("prompt");
@@ -219,6 +243,7 @@ function WorkspaceContent() {
   const [draftLatex, setDraftLatex] = useState("");
   const [savedLatex, setSavedLatex] = useState("");
   const [compiledLatex, setCompiledLatex] = useState(""); // last latex that produced current pdf
+  const lintFindings = useLatexLint({ latex: draftLatex });
 
   const [dirty, setDirty] = useState(false);
   const previewOutdated = compiledLatex !== "" && compiledLatex !== savedLatex;
@@ -231,6 +256,7 @@ function WorkspaceContent() {
 
   const [compileError, setCompileError] = useState<string>("");
   const [compileLog, setCompileLog] = useState<string>("");
+  const [compileDiagnostics, setCompileDiagnostics] = useState<LatexDiagnostic[]>([]);
 
   // AI fix (client-driven via /generate-latex)
   const [isFixing, setIsFixing] = useState(false);
@@ -244,9 +270,10 @@ function WorkspaceContent() {
   // ========== FREEMIUM STATE ==========
   const [user, setUser] = useState<User | null>(null);
   const [usageStatus, setUsageStatus] = useState<UsageStatus | null>(null);
-  const [anonymousMessageSent, setAnonymousMessageSent] = useState(false);
   const [showPaywallModal, setShowPaywallModal] = useState(false);
-  const [previewTemplate, setPreviewTemplate] = useState<typeof templates[number] | null>(null);
+  // Set when app-api refused a Pro-only template or option (code PRO_REQUIRED).
+  const [proRequiredReason, setProRequiredReason] = useState<string | null>(null);
+  const [previewTemplate, setPreviewTemplate] = useState<TemplateInfo | null>(null);
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
 
   const bottomRef = useRef<HTMLDivElement | null>(null);
@@ -393,15 +420,6 @@ function WorkspaceContent() {
     return () => subscription.unsubscribe();
   }, []);
 
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const sent = localStorage.getItem('betternotes_anonymous_sent');
-      if (sent === 'true') {
-        setAnonymousMessageSent(true);
-      }
-    }
-  }, []);
-
   useEffect(() => {
     const chatId = searchParams.get("chat");
     if (!chatId || !user) return;
@@ -423,55 +441,38 @@ function WorkspaceContent() {
   }, [searchParams, user]);
 
   // ========== GATE LOGIC ==========
-  const canSendMessage = useCallback(async (): Promise<boolean> => {
-    console.log('[GATE] canSendMessage called', { user: !!user, anonymousMessageSent });
-
-    if (!user && !anonymousMessageSent) return true;
-
-    if (!user && anonymousMessageSent) {
+  // app-api meters every generate request; this only explains a used-up quota.
+  const showQuotaExceeded = useCallback(() => {
+    if (!user) {
       router.push('/login?message=' + encodeURIComponent('Sign up to continue generating documents. Your work will be saved!'));
-      return false;
+      return;
     }
+    setShowPaywallModal(true);
+  }, [user, router]);
 
-    if (user) {
-      try {
-        const status = await Promise.race<UsageStatus | null>([
-          getUsageStatus(),
-          new Promise<UsageStatus | null>((resolve) => setTimeout(() => resolve(null), 5000)),
-        ]);
-        if (status) setUsageStatus(status);
-        if (!status) return true; // Fail open
-        if (typeof status.can_send === "boolean" && !status.can_send) {
-          setShowPaywallModal(true);
-          return false;
-        }
-      } catch (e) {
-        console.warn('[GATE] Exception checking usage, failing open', e);
-        return true;
+  // Checked before sending so a used-up quota doesn't cost a round trip with attachments.
+  const canSendMessage = useCallback(async (): Promise<boolean> => {
+    try {
+      const status = await Promise.race<UsageStatus | null>([
+        getUsageStatus(),
+        new Promise<UsageStatus | null>((resolve) => setTimeout(() => resolve(null), 5000)),
+      ]);
+      if (!status) return true; // Fail open: the server still enforces the quota
+      if (user) setUsageStatus(status);
+      if (!status.can_send) {
+        showQuotaExceeded();
+        return false;
       }
-      return true;
+    } catch (e) {
+      console.warn('[GATE] Exception checking usage, failing open', e);
     }
     return true;
-  }, [user, anonymousMessageSent, router]);
+  }, [user, showQuotaExceeded]);
 
   const onMessageSent = useCallback(async (latexContent?: string, newMessages?: Msg[]) => {
-    if (!user) {
-      setAnonymousMessageSent(true);
-      if (typeof window !== 'undefined') localStorage.setItem('betternotes_anonymous_sent', 'true');
-      return;
-    }
+    if (!user) return;
 
     try {
-      const result = await incrementMessageCount();
-      if (result) {
-        setUsageStatus(prev => prev ? {
-          ...prev,
-          message_count: result.new_count,
-          remaining: result.remaining,
-          can_send: !result.limit_reached
-        } : null);
-      }
-
       const messagesToSave = newMessages || messages;
       const userMsgs = messagesToSave.filter(m => m.role === 'user');
       const title = userMsgs[0]?.content.slice(0, 50) || 'Untitled';
@@ -508,20 +509,24 @@ function WorkspaceContent() {
   // ---------- Core actions ----------
   const selectedTemplate = useMemo(() => {
     return templates.find((t) => t.id === selectedTemplateId) ?? null;
-  }, [selectedTemplateId]);
+  }, [templates, selectedTemplateId]);
 
   async function generateLatexFromPrompt(
     prompt: string,
     templateId?: string | null,
     baseLatex?: string,
-    files?: any[]
+    files?: any[],
+    onProgress?: (streamed: string) => void
   ): Promise<{ ok: true; latex?: string; message?: string } | { ok: false; error: string }> {
     console.log('[generate] Starting generation...', { prompt, templateId, hasBase: !!baseLatex, filesCount: files?.length });
     try {
       setIsGenerating(true);
 
-      const payload: { prompt: string; templateId?: string; baseLatex?: string; files?: any[] } = { prompt };
+      const payload: { prompt: string; templateId?: string; templateVariables?: TemplateVariableValues; baseLatex?: string; files?: any[] } = { prompt };
       if (templateId) payload.templateId = templateId;
+      if (templateId && templateValues[templateId] && Object.keys(templateValues[templateId]).length) {
+        payload.templateVariables = templateValues[templateId];
+      }
       if (baseLatex?.trim()) payload.baseLatex = baseLatex;
       if (files && files.length > 0) payload.files = files;
 
@@ -530,22 +535,34 @@ function WorkspaceContent() {
 
       const r = await fetch(GENERATE_API_ENDPOINT, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
         body: JSON.stringify(payload),
         signal: controller.signal,
       });
+
+      const data: GenerateResponseBody | null = (r.headers.get("content-type") || "").includes("text/event-stream")
+        ? await readGenerateStream(r, onProgress)
+        : await r.json().catch(() => null);
       clearTimeout(timeoutId);
 
-      const data = await r.json().catch(() => null);
-      if (!r.ok) return { ok: false, error: data?.error ?? "Failed to generate." };
+      if (user && data?.quota) {
+        setUsageStatus((prev) => usageStatusFromQuota(data.quota, prev?.is_paid ?? false) ?? prev);
+      }
+      if (data?.code === "QUOTA_EXCEEDED") showQuotaExceeded();
+      if (data?.code === "RATE_LIMITED") toast(data.error ?? "Too many requests.", "warning");
+      if (data?.code === "PRO_REQUIRED") {
+        setProRequiredReason(data.error ?? null);
+        setShowPaywallModal(true);
+      }
+      if (!r.ok || data?.ok === false) return { ok: false, error: data?.error ?? "Failed to generate." };
 
-      if (data.message) {
+      if (data?.message) {
         return { ok: true, message: data.message };
       }
 
       const latex = (data?.latex ?? "").toString();
       // Relaxed check: if message is present, latex is optional. If neither, error.
-      if (!latex.trim() && !data.message) return { ok: false, error: "Model returned empty response." };
+      if (!latex.trim() && !data?.message) return { ok: false, error: "Model returned empty response." };
 
       return { ok: true, latex };
     } catch (e: any) {
@@ -597,6 +614,12 @@ function WorkspaceContent() {
         body: JSON.stringify({ latex: savedLatex, log: compileLog }),
       });
       const data = await r.json().catch(() => null);
+      if (data?.quota) setUsageStatus((prev) => usageStatusFromQuota(data.quota, prev?.is_paid ?? false) ?? prev);
+      if (data?.code === "QUOTA_EXCEEDED") showQuotaExceeded();
+      if (data?.code === "RATE_LIMITED") {
+        toast(data.error, "warning");
+        return;
+      }
       if (!r.ok) throw new Error(data?.error ?? "Fix failed.");
       const fixed = (data?.fixedLatex ?? "").toString();
       if (!fixed.trim()) throw new Error("Fix endpoint returned empty LaTeX.");
@@ -672,43 +695,41 @@ function WorkspaceContent() {
     return processed;
   }
 
-  // ── Animated loading steps ──
-  const loadingSteps = [
-    "Analyzing your request…",
-    "Generating LaTeX content…",
-    "Structuring document layout…",
-    "Formatting equations and symbols…",
-    "Finalizing output…",
-  ];
+  // ── Generation progress ──
+  // The bubble waits on WAITING_STEP until the model starts streaming, then counts what it has written.
+  const WAITING_STEP = "Analyzing your request…";
+  const WRITING_STEP_PREFIX = "Writing…";
   // Keep the expandable progress list tied to real stages only.
   const thinkingProgressSteps = ["Generating AI response…", "Compiling PDF preview…"];
 
+  function writingStep(streamed: string) {
+    const lines = streamed.split("\n").length;
+    return `${WRITING_STEP_PREFIX} ${lines} line${lines === 1 ? "" : "s"} so far`;
+  }
+
   function isTransientAssistantMessageText(text: string) {
     const normalized = (text || "").trim();
     return (
-      loadingSteps.includes(normalized) ||
+      normalized === WAITING_STEP ||
+      normalized.startsWith(WRITING_STEP_PREFIX) ||
       normalized.startsWith("Generated. Compiling PDF...")
     );
   }
 
   function getThinkingStepIndex(text: string) {
     const normalized = (text || "").trim();
-    if (loadingSteps.includes(normalized)) return 0;
     if (normalized.startsWith("Generated. Compiling PDF...")) return 1;
     return 0;
   }
 
-  function startLoadingAnimation() {
-    let step = 0;
-    const interval = setInterval(() => {
-      if (step >= loadingSteps.length - 1) {
-        clearInterval(interval);
-        return;
-      }
-      step += 1;
-      setMessages((m) => replaceLastWorking(m, loadingSteps[step]));
-    }, 3000);
-    return interval;
+  // Live view of a streaming generation: progress in the chat bubble and, once the
+  // output looks like LaTeX, in the editor. The finished result replaces both.
+  function showGenerationProgress(streamed: string) {
+    setMessages((m) => replaceLastWorking(m, writingStep(streamed)));
+    if (streamed.includes("\\")) {
+      setDraftLatex(streamed);
+      setActiveRightTab((tab) => (tab === "preview" ? "latex" : tab));
+    }
   }
 
   async function startSend() {
@@ -717,7 +738,7 @@ function WorkspaceContent() {
 
     if ((!text && !hasFiles) || busy() || sendInFlightRef.current) return;
 
-    let loadingInterval: ReturnType<typeof setInterval> | null = null;
+    const draftBefore = draftLatex;
     sendInFlightRef.current = true;
     setIsSending(true);
     try {
@@ -731,17 +752,17 @@ function WorkspaceContent() {
       setMessages((m) => [
         ...m,
         { role: "user", content: text || (hasFiles ? `[Sent ${files.length} file(s)]` : "") },
-        { role: "assistant", content: loadingSteps[0] },
+        { role: "assistant", content: WAITING_STEP },
       ]);
 
-      loadingInterval = startLoadingAnimation();
-
       // Process files
       const filePayload = await processFilesForPayload(files);
       setFiles([]);
       setFileError("");
 
-      const gen = await generateLatexFromPrompt(text, selectedTemplate?.id, undefined, filePayload);
+      const gen = await generateLatexFromPrompt(text, selectedTemplate?.id, undefined, filePayload, showGenerationProgress);
+      // A failed or chat-only answer leaves the editor as it was before streaming.
+      if (!gen.ok || gen.message) setDraftLatex(draftBefore);
 
       if (!gen.ok) {
         setMessages((m) => replaceLastWorking(m, `Error: ${gen.error}`));
@@ -752,7 +773,6 @@ function WorkspaceContent() {
     } catch (e: any) {
       setMessages((m) => replaceLastWorking(m, `Error: ${e?.message ?? "Send failed."}`));
     } finally {
-      if (loadingInterval) clearInterval(loadingInterval);
       sendInFlightRef.current = false;
       setIsSending(false);
     }
@@ -764,7 +784,7 @@ function WorkspaceContent() {
 
     if ((!text && !hasFiles) || busy() || sendInFlightRef.current) return;
 
-    let loadingInterval: ReturnType<typeof setInterval> | null = null;
+    const draftBefore = draftLatex;
     sendInFlightRef.current = true;
     setIsSending(true);
     try {
@@ -776,18 +796,17 @@ function WorkspaceContent() {
       setMessages((m) => [
         ...m,
         { role: "user", content: text || (hasFiles ? `[Sent ${files.length} file(s)]` : "") },
-        { role: "assistant", content: loadingSteps[0] },
+        { role: "assistant", content: WAITING_STEP },
       ]);
 
-      loadingInterval = startLoadingAnimation();
-
       // Process files
       const filePayload = await processFilesForPayload(files);
       setFiles([]);
       setFileError("");
 
       const base = (draftLatex || savedLatex || "").trim();
-      const gen = await generateLatexFromPrompt(text, selectedTemplate?.id, base, filePayload);
+      const gen = await generateLatexFromPrompt(text, selectedTemplate?.id, base, filePayload, showGenerationProgress);
+      if (!gen.ok || gen.message) setDraftLatex(draftBefore);
 
       if (!gen.ok) {
         setMessages((m) => replaceLastWorking(m, `Error: ${gen.error}`));
@@ -798,7 +817,6 @@ function WorkspaceContent() {
     } catch (e: any) {
       setMessages((m) => replaceLastWorking(m, `Error: ${e?.message ?? "Send failed."}`));
     } finally {
-      if (loadingInterval) clearInterval(loadingInterval);
       sendInFlightRef.current = false;
       setIsSending(false);
     }
@@ -854,6 +872,7 @@ function WorkspaceContent() {
   async function compileDirect(latex: string): Promise<{ ok: true } | { ok: false; error: string; log?: string }> {
     setCompileError("");
     setCompileLog("");
+    setCompileDiagnostics([]);
     try {
       setIsCompiling(true);
       const controller = new AbortController();
@@ -893,10 +912,16 @@ function WorkspaceContent() {
       }
 
       const data = await r.json().catch(() => null);
+      if (data?.code === "RATE_LIMITED") {
+        // Not a compiler error: leave the log and "Fix with AI" alone.
+        toast(data.error, "warning");
+        return { ok: false, error: data.error };
+      }
       const rawErr = (data?.error ?? "Compilation failed.").toString();
       const { message, log } = splitCompilerOutput(rawErr);
       setCompileError(message);
       setCompileLog(log || (data?.log ? String(data.log) : ""));
+      setCompileDiagnostics(normalizeDiagnostics(data?.diagnostics));
       return { ok: false, error: message, log: log || (data?.log ? String(data.log) : "") };
     } catch (e: any) {
       if (e?.name === "AbortError") {
@@ -1091,7 +1116,7 @@ function WorkspaceContent() {
                   {/* Code panel */}
                   <div style={{ width: `${splitRatio}%` }} className="flex flex-col min-w-0">
                     <div className="px-3 py-1.5 border-b border-white/8 text-[10px] text-white/30 font-semibold uppercase tracking-wider">LaTeX</div>
-                    <textarea value={draftLatex} onChange={(e) => { setDraftLatex(e.target.value); setDirty(e.target.value !== savedLatex); }} className="flex-1 w-full bg-transparent p-4 font-mono text-sm outline-none text-white/90 resize-none" placeholder="LaTeX will appear here…" />
+                    <LintedTextarea value={draftLatex} onChange={(e) => { setDraftLatex(e.target.value); setDirty(e.target.value !== savedLatex); }} findings={lintFindings} className="flex-1" placeholder="LaTeX will appear here…" />
                   </div>
                   {/* Draggable divider */}
                   <div onMouseDown={onSplitMouseDown} className="w-1.5 bg-white/8 hover:bg-white/20 cursor-col-resize transition-colors flex-shrink-0 relative group">
@@ -1128,7 +1153,7 @@ function WorkspaceContent() {
                       </div>
                     )
                   ) : (
-                    <textarea value={draftLatex} onChange={(e) => { setDraftLatex(e.target.value); setDirty(e.target.value !== savedLatex); }} className="w-full h-full bg-transparent p-4 font-mono text-sm outline-none text-white/90" placeholder="LaTeX will appear here…" />
+                    <LintedTextarea value={draftLatex} onChange={(e) => { setDraftLatex(e.target.value); setDirty(e.target.value !== savedLatex); }} findings={lintFindings} className="h-full" placeholder="LaTeX will appear here…" />
                   )}
                 </div>
               )}
@@ -1153,9 +1178,10 @@ function WorkspaceContent() {
                       {compileError && compileLog.trim() && (
                         <button onClick={fixWithAI} disabled={busy()} className={`rounded-xl px-3 py-1.5 text-xs font-semibold ${!busy() ? "bg-white text-neutral-950 hover:bg-white/90" : "bg-white/20 text-white/60 cursor-not-allowed"}`}>{isFixing ? "Fixing…" : "Fix with AI"}</button>
                       )}
-                      <button onClick={() => { setCompileError(""); setCompileLog(""); setConsoleOpen(false); }} className="rounded-lg px-2 py-1 text-xs border border-white/10 bg-white/5 hover:bg-white/10 text-white/40">Clear</button>
+                      <button onClick={() => { setCompileError(""); setCompileLog(""); setCompileDiagnostics([]); setConsoleOpen(false); }} className="rounded-lg px-2 py-1 text-xs border border-white/10 bg-white/5 hover:bg-white/10 text-white/40">Clear</button>
                     </div>
                   </div>
+                  <ProblemsList diagnostics={compileDiagnostics} className="mt-2" />
                   {compileLog && (
                     <pre className="mt-2 max-h-36 overflow-auto rounded-xl border border-white/10 bg-black/30 p-3 text-xs text-white/60 font-mono">{compileLog}</pre>
                   )}
@@ -1164,7 +1190,7 @@ function WorkspaceContent() {
             </div>
           </section>
         </div>
-        <PaywallModal isOpen={showPaywallModal} onClose={() => setShowPaywallModal(false)} remaining={usageStatus?.remaining} resetsAt={usageStatus?.resets_at} />
+        <PaywallModal isOpen={showPaywallModal} onClose={() => { setShowPaywallModal(false); setProRequiredReason(null); }} remaining={usageStatus?.remaining} resetsAt={usageStatus?.resets_at} reason={proRequiredReason} />
         <SaveProjectModal
           open={showSaveModal}
           onClose={() => setShowSaveModal(false)}
@@ -1312,22 +1338,24 @@ function WorkspaceContent() {
             {templates.slice(0, 6).map(t => (
               <TemplateCardSelect
                 key={t.id}
-                t={t as any}
+                t={t}
                 selected={selectedTemplateId === t.id}
                 onSelect={() => setSelectedTemplateId(curr => curr === t.id ? null : t.id)}
                 onPreview={() => setPreviewTemplate(t)}
                 userIsPro={usageStatus?.is_paid ?? false}
                 onProBlocked={() => setShowPaywallModal(true)}
+                values={templateValues[t.id]}
+                onValuesChange={(values) => setTemplateValues((prev) => ({ ...prev, [t.id]: values }))}
               />
             ))}
           </div>
         </div>
       </div>
-      <PaywallModal isOpen={showPaywallModal} onClose={() => setShowPaywallModal(false)} remaining={usageStatus?.remaining} resetsAt={usageStatus?.resets_at} />
+      <PaywallModal isOpen={showPaywallModal} onClose={() => { setShowPaywallModal(false); setProRequiredReason(null); }} remaining={usageStatus?.remaining} resetsAt={usageStatus?.resets_at} reason={proRequiredReason} />
       <PdfPreviewModal
         isOpen={previewTemplate !== null}
         onClose={() => setPreviewTemplate(null)}
-        pdfUrl={(previewTemplate as any)?.previewPath ?? previewTemplate?.publicPath ?? ""}
+        pdfUrl={previewTemplate?.previewPath ?? ""}
         title={previewTemplate?.name ?? ""}
         templateId={previewTemplate?.id}
         isPro={previewTemplate?.isPro ?? false}
@@ -0,0 +1,56 @@
+import { upstreamAuthHeaders } from "@/lib/server/upstreamAuth";
+
+export const runtime = "nodejs";
+
+function getApiBaseUrl() {
+  return (process.env.API_BASE_URL ?? "").replace(/\/$/, "");
+}
+
+function jsonError(status: number, error: string) {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// GET /api/compile/jobs/:jobId/pdf -> app-api GET /latex/jobs/:id/pdf
+// (the PDF of a finished streaming compile).
+export async function GET(req: Request, { params }: { params: Promise<{ jobId: string }> }) {
+  const baseUrl = getApiBaseUrl();
+  if (!baseUrl) {
+    return jsonError(500, "API_BASE_URL is not set.");
+  }
+
+  const { jobId } = await params;
+
+  try {
+    const upstream = await fetch(`${baseUrl}/latex/jobs/${encodeURIComponent(jobId)}/pdf`, {
+      headers: await upstreamAuthHeaders(req),
+    });
+
+    const isPdf = (upstream.headers.get("content-type") ?? "").includes("application/pdf");
+    if (upstream.ok && isPdf) {
+      const pdfBuffer = await upstream.arrayBuffer();
+      const headers: Record<string, string> = { "Content-Type": "application/pdf" };
+      const cacheStatus = upstream.headers.get("x-compile-cache");
+      if (cacheStatus) headers["X-Compile-Cache"] = cacheStatus;
+      const artifactId = upstream.headers.get("x-compile-artifact");
+      if (artifactId) headers["X-Compile-Artifact"] = artifactId;
+      return new Response(pdfBuffer, { status: upstream.status, headers });
+    }
+
+    const responseBody = await upstream.text();
+    const responseContentType = upstream.headers.get("content-type") ?? "application/json";
+
+    return new Response(responseBody, {
+      status: upstream.status,
+      headers: { "Content-Type": responseContentType },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown upstream error.";
+    return jsonError(
+      502,
+      `Cannot reach app-api at ${baseUrl}. Check API_BASE_URL and ensure app-api is running. (${message})`
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { upstreamAuthHeaders, upstreamClientHeaders } from "@/lib/server/upstreamAuth";
+import { rateLimitedResponse } from "@/lib/server/rateLimit";
+
+export const runtime = "nodejs";
+
+function getApiBaseUrl() {
+  return (process.env.API_BASE_URL ?? "").replace(/\/$/, "");
+}
+
+function jsonError(status: number, error: string) {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// POST /api/compile/stream -> app-api POST /latex/compile-stream (Server-Sent Events).
+// The upstream body is piped through unbuffered so the console updates live.
+export async function POST(req: Request) {
+  const baseUrl = getApiBaseUrl();
+  if (!baseUrl) {
+    return jsonError(500, "API_BASE_URL is not set.");
+  }
+
+  const body = await req.text();
+  const contentType = req.headers.get("content-type") ?? "application/json";
+
+  try {
+    const upstream = await fetch(`${baseUrl}/latex/compile-stream`, {
+      method: "POST",
+      headers: { "Content-Type": contentType, Accept: "text/event-stream", ...(await upstreamAuthHeaders(req)), ...upstreamClientHeaders(req) },
+      body,
+      signal: req.signal,
+    });
+
+    const limited = await rateLimitedResponse(upstream);
+    if (limited) return limited;
+
+    const isStream = (upstream.headers.get("content-type") ?? "").includes("text/event-stream");
+    if (upstream.ok && isStream && upstream.body) {
+      return new Response(upstream.body, {
+        status: 200,
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache, no-transform",
+          "X-Accel-Buffering": "no",
+        },
+      });
+    }
+
+    const responseBody = await upstream.text();
+    const responseContentType = upstream.headers.get("content-type") ?? "application/json";
+
+    return new Response(responseBody, {
+      status: upstream.status,
+      headers: { "Content-Type": responseContentType },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown upstream error.";
+    return jsonError(
+      502,
+      `Cannot reach app-api at ${baseUrl}. Check API_BASE_URL and ensure app-api is running. (${message})`
+    );
+  }
+}
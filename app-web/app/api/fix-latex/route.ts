@@ -1,3 +1,6 @@
+import { upstreamAuthHeaders, upstreamQuotaHeaders, withQuotaCookie } from "@/lib/server/upstreamAuth";
+import { rateLimitedResponse } from "@/lib/server/rateLimit";
+
 export const runtime = "nodejs";
 
 function getApiBaseUrl() {
@@ -23,16 +26,19 @@ export async function POST(req: Request) {
   try {
     const upstream = await fetch(`${baseUrl}/fix-latex`, {
       method: "POST",
-      headers: { "Content-Type": contentType },
+      headers: { "Content-Type": contentType, ...(await upstreamAuthHeaders(req)), ...upstreamQuotaHeaders(req) },
       body,
     });
 
+    const limited = await rateLimitedResponse(upstream);
+    if (limited) return limited;
+
     const responseBody = await upstream.text();
     const responseContentType = upstream.headers.get("content-type") ?? "application/json";
 
     return new Response(responseBody, {
       status: upstream.status,
-      headers: { "Content-Type": responseContentType },
+      headers: withQuotaCookie(upstream, { "Content-Type": responseContentType }),
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown upstream error.";
@@ -1,3 +1,6 @@
+import { upstreamAuthHeaders, upstreamQuotaHeaders, withQuotaCookie } from "@/lib/server/upstreamAuth";
+import { rateLimitedResponse } from "@/lib/server/rateLimit";
+
 export const runtime = "nodejs";
 
 function getApiBaseUrl() {
@@ -11,6 +14,8 @@ function jsonError(status: number, error: string) {
   });
 }
 
+// POST /api/generate-latex -> app-api POST /generate-latex. A caller asking for
+// text/event-stream gets the model's tokens piped through unbuffered as they arrive.
 export async function POST(req: Request) {
   const baseUrl = getApiBaseUrl();
   if (!baseUrl) {
@@ -19,20 +24,42 @@ export async function POST(req: Request) {
 
   const body = await req.text();
   const contentType = req.headers.get("content-type") ?? "application/json";
+  const accept = req.headers.get("accept") ?? "application/json";
 
   try {
     const upstream = await fetch(`${baseUrl}/generate-latex`, {
       method: "POST",
-      headers: { "Content-Type": contentType },
+      headers: {
+        "Content-Type": contentType,
+        Accept: accept,
+        ...(await upstreamAuthHeaders(req)),
+        ...upstreamQuotaHeaders(req),
+      },
       body,
+      signal: req.signal,
     });
 
+    const limited = await rateLimitedResponse(upstream);
+    if (limited) return limited;
+
+    const isStream = (upstream.headers.get("content-type") ?? "").includes("text/event-stream");
+    if (upstream.ok && isStream && upstream.body) {
+      return new Response(upstream.body, {
+        status: 200,
+        headers: withQuotaCookie(upstream, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache, no-transform",
+          "X-Accel-Buffering": "no",
+        }),
+      });
+    }
+
     const responseBody = await upstream.text();
     const responseContentType = upstream.headers.get("content-type") ?? "application/json";
 
     return new Response(responseBody, {
       status: upstream.status,
-      headers: { "Content-Type": responseContentType },
+      headers: withQuotaCookie(upstream, { "Content-Type": responseContentType }),
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown upstream error.";
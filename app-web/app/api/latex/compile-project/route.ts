@@ -1,3 +1,6 @@
+import { upstreamAuthHeaders, upstreamClientHeaders } from "@/lib/server/upstreamAuth";
+import { rateLimitedResponse } from "@/lib/server/rateLimit";
+
 export const runtime = "nodejs";
 
 function getApiBaseUrl() {
@@ -23,15 +26,30 @@ export async function POST(req: Request) {
   try {
     const upstream = await fetch(`${baseUrl}/latex/compile-project`, {
       method: "POST",
-      headers: { "Content-Type": contentType },
+      headers: { "Content-Type": contentType, ...(await upstreamAuthHeaders(req)), ...upstreamClientHeaders(req) },
       body,
     });
 
-    if (upstream.ok) {
+    const limited = await rateLimitedResponse(upstream);
+    if (limited) return limited;
+
+    const isPdf = (upstream.headers.get("content-type") ?? "").includes("application/pdf");
+    if (upstream.ok && isPdf) {
       const pdfBuffer = await upstream.arrayBuffer();
+      const headers: Record<string, string> = { "Content-Type": "application/pdf" };
+      const cacheStatus = upstream.headers.get("x-compile-cache");
+      if (cacheStatus) headers["X-Compile-Cache"] = cacheStatus;
+      const artifactId = upstream.headers.get("x-compile-artifact");
+      if (artifactId) headers["X-Compile-Artifact"] = artifactId;
+      const diagnosticsSummary = upstream.headers.get("x-latex-diagnostics");
+      if (diagnosticsSummary) headers["X-Latex-Diagnostics"] = diagnosticsSummary;
+      const repairs = upstream.headers.get("x-latex-repairs");
+      if (repairs) headers["X-Latex-Repairs"] = repairs;
+      const substitutions = upstream.headers.get("x-latex-substitutions");
+      if (substitutions) headers["X-Latex-Substitutions"] = substitutions;
       return new Response(pdfBuffer, {
         status: upstream.status,
-        headers: { "Content-Type": "application/pdf" },
+        headers,
       });
     }
 
@@ -0,0 +1,54 @@
+import { upstreamAuthHeaders } from "@/lib/server/upstreamAuth";
+
+export const runtime = "nodejs";
+
+function getApiBaseUrl() {
+  return (process.env.API_BASE_URL ?? "").replace(/\/$/, "");
+}
+
+function jsonError(status: number, error: string) {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// GET /api/latex/synctex/:artifactId/forward?file=&line=
+// GET /api/latex/synctex/:artifactId/inverse?page=&x=&y=
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ artifactId: string; direction: string }> }
+) {
+  const baseUrl = getApiBaseUrl();
+  if (!baseUrl) {
+    return jsonError(500, "API_BASE_URL is not set.");
+  }
+
+  const { artifactId, direction } = await params;
+  if (direction !== "forward" && direction !== "inverse") {
+    return jsonError(404, "Unknown SyncTeX direction.");
+  }
+
+  const search = new URL(req.url).search;
+
+  try {
+    const upstream = await fetch(
+      `${baseUrl}/latex/synctex/${encodeURIComponent(artifactId)}/${direction}${search}`,
+      { headers: await upstreamAuthHeaders(req) }
+    );
+
+    const responseBody = await upstream.text();
+    const responseContentType = upstream.headers.get("content-type") ?? "application/json";
+
+    return new Response(responseBody, {
+      status: upstream.status,
+      headers: { "Content-Type": responseContentType },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown upstream error.";
+    return jsonError(
+      502,
+      `Cannot reach app-api at ${baseUrl}. Check API_BASE_URL and ensure app-api is running. (${message})`
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { upstreamAuthHeaders, upstreamQuotaHeaders } from "@/lib/server/upstreamAuth";
+
+export const runtime = "nodejs";
+
+function getApiBaseUrl() {
+  return (process.env.API_BASE_URL ?? "").replace(/\/$/, "");
+}
+
+function jsonError(status: number, error: string) {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// GET /api/usage -> app-api GET /latex/usage (the caller's plan and message quota)
+export async function GET(req: Request) {
+  const baseUrl = getApiBaseUrl();
+  if (!baseUrl) {
+    return jsonError(500, "API_BASE_URL is not set.");
+  }
+
+  try {
+    const upstream = await fetch(`${baseUrl}/latex/usage`, {
+      headers: { ...(await upstreamAuthHeaders(req)), ...upstreamQuotaHeaders(req) },
+      cache: "no-store",
+    });
+
+    const responseBody = await upstream.text();
+    const responseContentType = upstream.headers.get("content-type") ?? "application/json";
+
+    return new Response(responseBody, {
+      status: upstream.status,
+      headers: { "Content-Type": responseContentType },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown upstream error.";
+    return jsonError(
+      502,
+      `Cannot reach app-api at ${baseUrl}. Check API_BASE_URL and ensure app-api is running. (${message})`
+    );
+  }
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import type { LatexStats } from "@/lib/api";
+
+type DocumentStatsPanelProps = {
+  stats: LatexStats | null;
+  loading?: boolean;
+  className?: string;
+};
+
+function joinClasses(...parts: Array<string | false | null | undefined>) {
+  return parts.filter(Boolean).join(" ");
+}
+
+function Stat({ label, value, hint }: { label: string; value: number | string; hint?: string }) {
+  return (
+    <div className="rounded-lg border border-white/8 bg-black/20 px-2.5 py-2" title={hint}>
+      <div className="text-[10px] uppercase tracking-wide text-white/40">{label}</div>
+      <div className="text-sm font-semibold text-white/85 tabular-nums">{value}</div>
+    </div>
+  );
+}
+
+export default function DocumentStatsPanel({ stats, loading, className }: DocumentStatsPanelProps) {
+  if (loading && !stats) {
+    return <div className={joinClasses("text-xs text-white/40", className)}>Counting…</div>;
+  }
+  if (!stats) return null;
+
+  const headings = stats.sections.chapter + stats.sections.section;
+  const subheadings = stats.sections.subsection + stats.sections.subsubsection;
+  const theorems = Object.entries(stats.theorems).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <div className={joinClasses("space-y-2", className)}>
+      <div className="grid grid-cols-3 gap-2">
+        <Stat label="Words" value={stats.words.total.toLocaleString()} hint={`${stats.words.text} in text, ${stats.words.captions} in captions`} />
+        <Stat label="Equations" value={stats.equations.display + stats.equations.inline} hint={`${stats.equations.display} display, ${stats.equations.inline} inline`} />
+        <Stat label="Pages" value={stats.pages ?? "—"} hint={stats.pages === null ? "Compile to count pages" : undefined} />
+        <Stat label="Sections" value={headings} hint={`${subheadings} subsections`} />
+        <Stat label="Figures" value={stats.figures} />
+        <Stat label="Tables" value={stats.tables} />
+      </div>
+      {theorems.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {theorems.map(([name, count]) => (
+            <span key={name} className="rounded-full border border-white/10 bg-white/5 px-2 py-0.5 text-[11px] text-white/60">
+              {name} <span className="text-white/85 font-medium">{count}</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
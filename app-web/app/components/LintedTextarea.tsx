@@ -0,0 +1,89 @@
+"use client";
+
+import { useRef } from "react";
+import ProblemsList from "@/app/components/ProblemsList";
+import { lintFindingsToDiagnostics, type LintFinding, type LintSeverity } from "@/lib/latexLint";
+
+type LintedTextareaProps = {
+  value: string;
+  onChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
+  /** Findings for this file only. */
+  findings: LintFinding[];
+  placeholder?: string;
+  className?: string;
+};
+
+const LINE_STYLES: Record<LintSeverity, string> = {
+  error: "bg-red-500/10 underline decoration-wavy decoration-red-400/70",
+  warning: "bg-amber-500/10 underline decoration-wavy decoration-amber-400/60",
+};
+
+// The backdrop must wrap exactly like the textarea, so both share these.
+const TEXT_LAYOUT = "p-4 font-mono text-sm whitespace-pre-wrap break-words overflow-y-scroll";
+
+function joinClasses(...parts: Array<string | false | null | undefined>) {
+  return parts.filter(Boolean).join(" ");
+}
+
+/**
+ * Plain textarea with lint findings drawn behind the text: flagged lines get
+ * a tinted background and wavy underline, and the findings are listed below.
+ */
+export default function LintedTextarea({ value, onChange, findings, placeholder, className }: LintedTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  const severityByLine = new Map<number, LintSeverity>();
+  for (const f of findings) {
+    if (severityByLine.get(f.line) !== "error") severityByLine.set(f.line, f.severity);
+  }
+
+  function syncScroll() {
+    const el = textareaRef.current;
+    const backdrop = backdropRef.current;
+    if (!el || !backdrop) return;
+    backdrop.scrollTop = el.scrollTop;
+    backdrop.scrollLeft = el.scrollLeft;
+  }
+
+  /** Select `line` (1-based) and scroll it into view. */
+  function revealLine(line: number | null) {
+    const el = textareaRef.current;
+    if (!el || line === null) return;
+    const lines = el.value.split("\n");
+    const idx = Math.min(Math.max(line, 1), lines.length) - 1;
+    const start = lines.slice(0, idx).reduce((n, l) => n + l.length + 1, 0);
+    el.focus();
+    el.setSelectionRange(start, start + (lines[idx]?.length ?? 0));
+    const lineHeight = parseFloat(getComputedStyle(el).lineHeight) || 20;
+    el.scrollTop = Math.max(0, idx * lineHeight - el.clientHeight / 3);
+    syncScroll();
+  }
+
+  return (
+    <div className={joinClasses("flex flex-col min-h-0", className)}>
+      <div className="relative flex-1 min-h-0">
+        <div ref={backdropRef} aria-hidden className={joinClasses("absolute inset-0 pointer-events-none text-transparent", TEXT_LAYOUT)}>
+          {value.split("\n").map((line, idx) => {
+            const severity = severityByLine.get(idx + 1);
+            return (
+              <div key={idx} className={severity ? LINE_STYLES[severity] : undefined}>
+                {line || " "}
+              </div>
+            );
+          })}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={onChange}
+          onScroll={syncScroll}
+          className={joinClasses("absolute inset-0 w-full h-full bg-transparent outline-none text-white/90 resize-none", TEXT_LAYOUT)}
+          placeholder={placeholder}
+          spellCheck={false}
+        />
+      </div>
+      <ProblemsList diagnostics={lintFindingsToDiagnostics(findings)} onSelect={(d) => revealLine(d.line)} className="m-2" />
+    </div>
+  );
+}
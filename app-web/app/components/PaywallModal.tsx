@@ -7,9 +7,11 @@ interface PaywallModalProps {
     onClose: () => void;
     remaining?: number;
     resetsAt?: string;
+    /** Why a Pro-only feature was refused; replaces the out-of-messages copy. */
+    reason?: string | null;
 }
 
-export default function PaywallModal({ isOpen, onClose, remaining = 0, resetsAt }: PaywallModalProps) {
+export default function PaywallModal({ isOpen, onClose, remaining = 0, resetsAt, reason }: PaywallModalProps) {
     if (!isOpen) return null;
 
     const resetDate = resetsAt ? new Date(resetsAt) : null;
@@ -45,14 +47,14 @@ export default function PaywallModal({ isOpen, onClose, remaining = 0, resetsAt
                 </div>
 
                 <h2 className="text-xl font-semibold text-white">
-                    You&apos;ve used all your free messages
+                    {reason ? "This is a Pro feature" : <>You&apos;ve used all your free messages</>}
                 </h2>
 
                 <p className="mt-2 text-sm text-white/70">
-                    Upgrade to Pro for unlimited LaTeX generation and compilation.
+                    {reason ? `${reason} Upgrade to use it.` : "Upgrade to Pro for unlimited LaTeX generation and compilation."}
                 </p>
 
-                {daysUntilReset !== null && daysUntilReset > 0 && (
+                {!reason && daysUntilReset !== null && daysUntilReset > 0 && (
                     <p className="mt-2 text-xs text-white/50">
                         Or wait {daysUntilReset} day{daysUntilReset > 1 ? 's' : ''} for your free messages to reset.
                     </p>
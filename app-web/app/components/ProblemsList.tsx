@@ -0,0 +1,49 @@
+"use client";
+
+import type { LatexDiagnostic } from "@/lib/latexDiagnostics";
+
+type ProblemsListProps = {
+  diagnostics: LatexDiagnostic[];
+  onSelect?: (diagnostic: LatexDiagnostic) => void;
+  className?: string;
+};
+
+const SEVERITY_STYLES: Record<LatexDiagnostic["severity"], { label: string; className: string }> = {
+  error: { label: "Error", className: "text-red-300 border-red-400/30 bg-red-500/10" },
+  warning: { label: "Warning", className: "text-amber-300 border-amber-400/30 bg-amber-500/10" },
+  badbox: { label: "Box", className: "text-sky-300 border-sky-400/30 bg-sky-500/10" },
+};
+
+function joinClasses(...parts: Array<string | false | null | undefined>) {
+  return parts.filter(Boolean).join(" ");
+}
+
+export default function ProblemsList({ diagnostics, onSelect, className }: ProblemsListProps) {
+  if (diagnostics.length === 0) return null;
+
+  return (
+    <ul className={joinClasses("max-h-40 overflow-auto rounded-lg border border-white/8 bg-black/30 divide-y divide-white/5", className)}>
+      {diagnostics.map((d, idx) => {
+        const style = SEVERITY_STYLES[d.severity];
+        const location = d.file ? `${d.file}${d.line !== null ? `:${d.line}` : ""}` : d.line !== null ? `line ${d.line}` : "";
+        return (
+          <li key={`${idx}-${d.message}`}>
+            <button
+              type="button"
+              onClick={() => onSelect?.(d)}
+              disabled={!onSelect}
+              className="w-full text-left px-2 py-1.5 flex items-start gap-2 text-xs hover:bg-white/5 disabled:cursor-default"
+              title={d.context || d.message}
+            >
+              <span className={joinClasses("flex-shrink-0 rounded border px-1.5 py-px text-[10px] font-semibold uppercase", style.className)}>
+                {style.label}
+              </span>
+              <span className="flex-1 text-white/75 break-words">{d.message}</span>
+              {location && <span className="flex-shrink-0 font-mono text-white/35">{location}</span>}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
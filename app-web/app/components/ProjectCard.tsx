@@ -62,11 +62,17 @@ export default function ProjectCard({ project, onUpdate }: ProjectCardProps) {
             <div className="group relative rounded-2xl border border-white/8 bg-white/[0.03] hover:bg-white/[0.06] hover:border-white/15 transition-all duration-200 overflow-hidden">
                 {/* Cover area */}
                 <Link href={`/workspace/${project.id}`} className="block">
-                    <div className="h-32 bg-gradient-to-br from-purple-500/10 via-blue-500/5 to-transparent flex items-center justify-center">
-                        <svg className="h-10 w-10 text-white/10" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="0.75">
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
-                        </svg>
-                    </div>
+                    {project.cover_image_url ? (
+                        <div className="h-32 bg-white/90 overflow-hidden">
+                            <img src={project.cover_image_url} alt="" loading="lazy" className="w-full object-cover object-top" />
+                        </div>
+                    ) : (
+                        <div className="h-32 bg-gradient-to-br from-purple-500/10 via-blue-500/5 to-transparent flex items-center justify-center">
+                            <svg className="h-10 w-10 text-white/10" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="0.75">
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
+                            </svg>
+                        </div>
+                    )}
                 </Link>
 
                 {/* Info */}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useRef, useEffect, forwardRef, useImperativeHandle } from "react";
-import { templates } from "@/lib/templates";
+import { useTemplates, type TemplateInfo } from "@/lib/templates";
 
 export interface SlashCommandPickerRef {
     /** Call this from the parent input's onKeyDown. Returns true if the event was consumed. */
@@ -18,6 +18,7 @@ interface SlashCommandPickerProps {
 
 const SlashCommandPicker = forwardRef<SlashCommandPickerRef, SlashCommandPickerProps>(
     function SlashCommandPicker({ inputValue, isPro, onSelect, onProBlocked, onDismiss }, ref) {
+        const templates = useTemplates();
         const [activeIndex, setActiveIndex] = useState(0);
         const listRef = useRef<HTMLDivElement | null>(null);
 
@@ -92,7 +93,7 @@ const SlashCommandPicker = forwardRef<SlashCommandPickerRef, SlashCommandPickerP
 
         if (!isOpen || filtered.length === 0) return null;
 
-        function handleItemClick(t: typeof templates[number]) {
+        function handleItemClick(t: TemplateInfo) {
             if (t.isPro && !isPro) {
                 onProBlocked();
                 return;
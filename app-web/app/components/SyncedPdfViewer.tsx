@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+
+/** Rectangle in PDF points with a top-left origin (what app-api's SyncTeX endpoints return). */
+export type PdfHighlight = { page: number; x: number; y: number; width: number; height: number };
+
+type SyncedPdfViewerProps = {
+  url: string;
+  highlight?: PdfHighlight | null;
+  onPointClick?: (point: { page: number; x: number; y: number }) => void;
+  className?: string;
+};
+
+type RenderedPage = { page: number; width: number; height: number; scale: number };
+
+/**
+ * Renders a PDF with pdf.js (instead of the browser viewer in an <iframe>) so we
+ * know where on which page the user clicked, and can scroll to / outline a box.
+ */
+export default function SyncedPdfViewer({ url, highlight, onPointClick, className }: SyncedPdfViewerProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const pageRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+  const [pages, setPages] = useState<RenderedPage[]>([]);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    let doc: PDFDocumentProxy | null = null;
+
+    async function render() {
+      setError("");
+      const container = containerRef.current;
+      if (!container) return;
+
+      const pdfjs = await import("pdfjs-dist");
+      pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
+
+      doc = await pdfjs.getDocument(url).promise;
+      if (cancelled) return;
+
+      const available = Math.max(200, container.clientWidth - 24);
+      const dpr = window.devicePixelRatio || 1;
+      const rendered: RenderedPage[] = [];
+      const canvases: HTMLCanvasElement[] = [];
+
+      for (let n = 1; n <= doc.numPages; n++) {
+        const page = await doc.getPage(n);
+        if (cancelled) return;
+        const base = page.getViewport({ scale: 1 });
+        const scale = available / base.width;
+        const viewport = page.getViewport({ scale: scale * dpr });
+
+        const canvas = document.createElement("canvas");
+        canvas.width = Math.floor(viewport.width);
+        canvas.height = Math.floor(viewport.height);
+        canvas.style.width = "100%";
+        canvas.style.height = "100%";
+        await page.render({ canvas, viewport }).promise;
+        if (cancelled) return;
+
+        canvases.push(canvas);
+        rendered.push({ page: n, width: base.width * scale, height: base.height * scale, scale });
+      }
+
+      setPages(rendered);
+      // Mount canvases after React has created the page wrappers
+      requestAnimationFrame(() => {
+        rendered.forEach((p, i) => {
+          const host = pageRefs.current.get(p.page)?.querySelector("[data-canvas-host]");
+          if (host) host.replaceChildren(canvases[i]);
+        });
+      });
+    }
+
+    render().catch((e: unknown) => {
+      if (!cancelled) setError((e as Error)?.message || "Could not render PDF.");
+    });
+
+    return () => {
+      cancelled = true;
+      doc?.destroy();
+    };
+  }, [url]);
+
+  useEffect(() => {
+    if (!highlight) return;
+    const el = pageRefs.current.get(highlight.page);
+    const container = containerRef.current;
+    const rendered = pages.find((p) => p.page === highlight.page);
+    if (!el || !container || !rendered) return;
+    container.scrollTo({
+      top: el.offsetTop + highlight.y * rendered.scale - container.clientHeight / 3,
+      behavior: "smooth",
+    });
+  }, [highlight, pages]);
+
+  function handleClick(e: React.MouseEvent<HTMLDivElement>, p: RenderedPage) {
+    if (!onPointClick) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onPointClick({
+      page: p.page,
+      x: (e.clientX - rect.left) / p.scale,
+      y: (e.clientY - rect.top) / p.scale,
+    });
+  }
+
+  if (error) {
+    return <div className="h-full flex items-center justify-center text-red-300/70 text-sm">{error}</div>;
+  }
+
+  return (
+    <div ref={containerRef} className={`h-full overflow-auto bg-neutral-800/60 p-3 space-y-3 ${className ?? ""}`}>
+      {pages.map((p) => (
+        <div
+          key={p.page}
+          ref={(el) => { if (el) pageRefs.current.set(p.page, el); else pageRefs.current.delete(p.page); }}
+          onClick={(e) => handleClick(e, p)}
+          style={{ width: p.width, height: p.height }}
+          className={`relative mx-auto bg-white shadow-lg ${onPointClick ? "cursor-crosshair" : ""}`}
+          title={onPointClick ? "Click to jump to the source" : undefined}
+        >
+          <div data-canvas-host className="absolute inset-0" />
+          {highlight?.page === p.page && (
+            <div
+              className="absolute pointer-events-none rounded-sm border-2 border-amber-400/80 bg-amber-300/20"
+              style={{
+                left: highlight.x * p.scale - 2,
+                top: highlight.y * p.scale - 2,
+                width: highlight.width * p.scale + 4,
+                height: highlight.height * p.scale + 4,
+              }}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,19 +1,11 @@
 "use client";
 
 import Image from "next/image";
-
-type Template = {
-  id: string;
-  name: string;
-  format: string;
-  publicPath: string;
-  previewPath?: string;
-  thumbnailPath?: string;
-};
+import type { TemplateInfo } from "@/lib/templates";
 
 interface TemplateCardProps {
-  t: Template;
-  onClick?: (template: Template) => void;
+  t: TemplateInfo;
+  onClick?: (template: TemplateInfo) => void;
 }
 
 export default function TemplateCard({ t, onClick }: TemplateCardProps) {
@@ -24,7 +16,7 @@ export default function TemplateCard({ t, onClick }: TemplateCardProps) {
     }
   }
 
-  const href = t.previewPath ?? t.publicPath;
+  const href = t.previewPath ?? "#";
 
   return (
     <a
@@ -1,14 +1,6 @@
 import Image from "next/image";
-
-type Template = {
-  id: string;
-  name: string;
-  format: string;
-  publicPath: string;
-  previewPath?: string;
-  thumbnailPath?: string;
-  isPro?: boolean;
-};
+import type { TemplateVariable, TemplateVariableValues } from "@/lib/api";
+import type { TemplateInfo } from "@/lib/templates";
 
 export default function TemplateCardSelect({
   t,
@@ -17,15 +9,20 @@ export default function TemplateCardSelect({
   onPreview,
   userIsPro = false,
   onProBlocked,
+  values,
+  onValuesChange,
 }: {
-  t: Template;
+  t: TemplateInfo;
   selected: boolean;
   onSelect: () => void;
   onPreview?: () => void;
   userIsPro?: boolean;
   onProBlocked?: () => void;
+  /** The template's fields (shown as a form while the card is selected): only those the user changed. */
+  values?: TemplateVariableValues;
+  onValuesChange?: (values: TemplateVariableValues) => void;
 }) {
-  const isPro = t.isPro ?? false;
+  const isPro = t.isPro;
   const isLocked = isPro && !userIsPro;
 
   function handleSelect() {
@@ -130,6 +127,86 @@ export default function TemplateCardSelect({
           </button>
         )}
       </div>
+
+      {selected && t.variables.length > 0 && onValuesChange && (
+        <TemplateVariablesForm variables={t.variables} values={values ?? {}} onChange={onValuesChange} />
+      )}
+    </div>
+  );
+}
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-white/12 bg-black/30 px-2 py-1 text-xs text-white/85 outline-none focus:border-emerald-400/60";
+
+function TemplateVariablesForm({
+  variables,
+  values,
+  onChange,
+}: {
+  variables: TemplateVariable[];
+  values: TemplateVariableValues;
+  onChange: (values: TemplateVariableValues) => void;
+}) {
+  function setValue(name: string, value: string | number | null) {
+    const next = { ...values };
+    if (value === null) delete next[name];
+    else next[name] = value;
+    onChange(next);
+  }
+
+  return (
+    // Typing in the form must not toggle the card.
+    <div
+      className="mt-3 grid grid-cols-2 gap-2 border-t border-white/10 pt-3"
+      onClick={(event) => event.stopPropagation()}
+      onKeyDown={(event) => event.stopPropagation()}
+    >
+      {variables.map((v) => {
+        const value = values[v.name] ?? v.default;
+        const wide = v.type === "string";
+        return (
+          <label key={v.name} className={wide ? "col-span-2 block" : "block"} title={v.description}>
+            <span className="mb-0.5 block text-[10px] uppercase tracking-wide text-white/45">{v.label}</span>
+            {v.type === "integer" ? (
+              <input
+                type="number"
+                min={v.min}
+                max={v.max}
+                value={value}
+                onChange={(e) => setValue(v.name, e.target.value === "" ? null : Number(e.target.value))}
+                className={FIELD_CLASS}
+              />
+            ) : v.type === "color" ? (
+              <input
+                type="color"
+                value={String(value)}
+                onChange={(e) => setValue(v.name, e.target.value.toUpperCase())}
+                className="h-7 w-full cursor-pointer rounded-lg border border-white/12 bg-black/30"
+              />
+            ) : v.type === "date" ? (
+              <input
+                type="date"
+                value={String(value)}
+                onChange={(e) => setValue(v.name, e.target.value)}
+                className={FIELD_CLASS}
+              />
+            ) : (
+              <input
+                type="text"
+                maxLength={v.maxLength}
+                value={String(value)}
+                onChange={(e) => setValue(v.name, e.target.value)}
+                className={FIELD_CLASS}
+              />
+            )}
+          </label>
+        );
+      })}
+      {Object.keys(values).length > 0 && (
+        <button type="button" onClick={() => onChange({})} className="col-span-2 text-left text-[11px] text-white/45 hover:text-white/70">
+          Reset to template defaults
+        </button>
+      )}
     </div>
   );
 }
@@ -7,7 +7,7 @@ import { useRouter } from "next/navigation";
 import Background from "./components/Background";
 import PdfPreviewModal from "./components/PdfPreviewModal";
 import { supabase } from "@/supabaseClient";
-import { templates } from "@/lib/templates";
+import { useTemplates, type TemplateInfo } from "@/lib/templates";
 import type { User } from "@supabase/supabase-js";
 
 export default function Home() {
@@ -16,7 +16,8 @@ export default function Home() {
   const [user, setUser] = useState<User | null>(null);
   const [menuOpen, setMenuOpen] = useState(false);
   const [mobileNavOpen, setMobileNavOpen] = useState(false);
-  const [previewTemplate, setPreviewTemplate] = useState<typeof templates[number] | null>(null);
+  const templates = useTemplates();
+  const [previewTemplate, setPreviewTemplate] = useState<TemplateInfo | null>(null);
   const menuRef = useRef<HTMLDivElement | null>(null);
 
   useEffect(() => {
@@ -292,7 +293,7 @@ export default function Home() {
       <PdfPreviewModal
         isOpen={previewTemplate !== null}
         onClose={() => setPreviewTemplate(null)}
-        pdfUrl={(previewTemplate as any)?.previewPath ?? previewTemplate?.publicPath ?? ""}
+        pdfUrl={previewTemplate?.previewPath ?? ""}
         title={previewTemplate?.name ?? ""}
         templateId={previewTemplate?.id}
         isPro={previewTemplate?.isPro ?? false}
@@ -313,7 +314,7 @@ function Chip({ children, onClick }: { children: React.ReactNode; onClick: () =>
   );
 }
 
-function TemplateCard({ template, onPreview }: { template: typeof templates[number]; onPreview?: () => void }) {
+function TemplateCard({ template, onPreview }: { template: TemplateInfo; onPreview?: () => void }) {
   function handlePreview(event: React.MouseEvent) {
     event.preventDefault();
     event.stopPropagation();
@@ -30,117 +30,50 @@ export interface UsageStatus {
     resets_at: string;
 }
 
-export interface IncrementResult {
-    new_count: number;
-    remaining: number;
-    limit_reached: boolean;
-    is_paid: boolean;
-}
-
 function toNumber(value: unknown, fallback: number): number {
     const n = typeof value === "number" ? value : Number(value);
     return Number.isFinite(n) ? n : fallback;
 }
 
-function toBoolean(value: unknown): boolean | null {
-    if (typeof value === "boolean") return value;
-    if (value === "true") return true;
-    if (value === "false") return false;
-    return null;
-}
-
-function normalizeUsageStatus(raw: unknown): UsageStatus | null {
-    if (!raw || typeof raw !== "object") return null;
-    const obj = raw as Record<string, unknown>;
-
-    const isPaid = toBoolean(obj.is_paid ?? obj.isPro ?? obj.paid) ?? false;
-    const messageCount = toNumber(obj.message_count ?? obj.current_count ?? obj.count, 0);
-    const freeLimit = toNumber(
-        obj.free_limit ?? obj.limit ?? obj.daily_limit ?? obj.free_messages_limit ?? 50,
-        50
-    );
-    const remaining = toNumber(obj.remaining, Math.max(0, freeLimit - messageCount));
-    const canSend =
-        toBoolean(obj.can_send ?? obj.canSend) ??
-        (toBoolean(obj.limit_reached) !== null ? !Boolean(obj.limit_reached) : (isPaid || remaining > 0));
-
-    return {
-        message_count: messageCount,
-        free_limit: freeLimit,
-        remaining,
-        is_paid: isPaid,
-        can_send: canSend,
-        resets_at: String(obj.resets_at ?? obj.reset_at ?? obj.resetsAt ?? ""),
-    };
-}
-
-function normalizeIncrementResult(raw: unknown): IncrementResult | null {
+/**
+ * UsageStatus from the `quota` object app-api returns from /usage, /generate-latex
+ * and /fix-latex; null when the response had none (metering is off on the server).
+ */
+export function usageStatusFromQuota(raw: unknown, isPaid: boolean): UsageStatus | null {
     if (!raw || typeof raw !== "object") return null;
     const obj = raw as Record<string, unknown>;
-
-    const isPaid = toBoolean(obj.is_paid ?? obj.isPro ?? obj.paid) ?? false;
-    const newCount = toNumber(obj.new_count ?? obj.message_count ?? obj.count, 0);
-    const remaining = toNumber(obj.remaining, 0);
-    const limitReached =
-        toBoolean(obj.limit_reached) ??
-        (toBoolean(obj.can_send) !== null ? !Boolean(obj.can_send) : (!isPaid && remaining <= 0));
-
+    const used = toNumber(obj.used, 0);
+    const limit = toNumber(obj.limit, 0);
+    const remaining = toNumber(obj.remaining, Math.max(0, limit - used));
     return {
-        new_count: newCount,
+        message_count: used,
+        free_limit: limit,
         remaining,
-        limit_reached: limitReached,
         is_paid: isPaid,
+        can_send: remaining > 0,
+        resets_at: String(obj.resetsAt ?? ""),
     };
 }
 
 /**
- * Get the current user's usage status
+ * The caller's message quota as app-api meters it. Works signed out too: anonymous
+ * callers are metered by session cookie and IP.
  */
 export async function getUsageStatus(): Promise<UsageStatus | null> {
     try {
-        const user = await getCurrentUser();
-        if (!user) return null;
-
-        const { data, error } = await supabase
-            .rpc('get_usage_status', { p_user_id: user.id })
-            .single();
-
-        if (error) {
-            console.warn("Failed to get usage status:", error.message);
+        const r = await fetch("/api/usage");
+        const data = await r.json().catch(() => null);
+        if (!r.ok || !data?.ok) {
+            console.warn("Failed to get usage status:", data?.error ?? `HTTP ${r.status}`);
             return null;
         }
-
-        return normalizeUsageStatus(data);
+        return usageStatusFromQuota(data.quota, data.plan === "pro");
     } catch (e) {
         console.warn("getUsageStatus error:", e);
         return null;
     }
 }
 
-/**
- * Increment message count and check if limit reached
- */
-export async function incrementMessageCount(): Promise<IncrementResult | null> {
-    try {
-        const user = await getCurrentUser();
-        if (!user) return null;
-
-        const { data, error } = await supabase
-            .rpc('increment_message_count', { p_user_id: user.id })
-            .single();
-
-        if (error) {
-            console.warn("Failed to increment message count:", error.message);
-            return null;
-        }
-
-        return normalizeIncrementResult(data);
-    } catch (e) {
-        console.warn("incrementMessageCount error:", e);
-        return null;
-    }
-}
-
 /**
  * Save chat to database
  */
@@ -297,6 +230,18 @@ export async function renameChat(chatId: string, newTitle: string): Promise<bool
 // Phase 2 — Project CRUD
 // ═══════════════════════════════════════════════════════════
 
+export type TexEngine = 'pdflatex' | 'xelatex' | 'lualatex';
+
+export const TEX_ENGINES: TexEngine[] = ['pdflatex', 'xelatex', 'lualatex'];
+
+/** Fit-to-pages settings; level/pages/parameters are filled in by the last successful fit. */
+export interface ProjectFitSettings {
+    targetPages: number;
+    level: number | null;
+    pages: number | null;
+    parameters: { fontScale: number; columnSepCm: number; marginMm: number; listSpacingEm: number } | null;
+}
+
 export interface Project {
     id: string;
     user_id: string;
@@ -307,6 +252,8 @@ export interface Project {
     is_starred: boolean;
     is_playground: boolean;
     cover_image_url: string | null;
+    engine?: TexEngine; // missing until add_project_engine.sql is applied
+    fit_settings?: ProjectFitSettings | null; // missing until add_project_fit_settings.sql is applied
     tags: string[];
     created_at: string;
     updated_at: string;
@@ -379,6 +326,8 @@ export async function updateProject(projectId: string, data: {
     visibility?: 'private' | 'public' | 'unlisted';
     is_starred?: boolean;
     cover_image_url?: string;
+    engine?: TexEngine;
+    fit_settings?: ProjectFitSettings | null;
     tags?: string[];
 }): Promise<boolean> {
     try {
@@ -936,7 +885,90 @@ export async function searchDocuments(
 // ═══════════════════════════════════════════════════════════
 
 /**
- * Publish a project as a public document
+ * Render page 1 of a compiled PDF (by the artifact id app-api returns with each
+ * compile) to an image in the thumbnails bucket. Returns its public URL.
+ */
+export async function renderPdfThumbnail(artifactId: string): Promise<string | null> {
+    try {
+        const r = await fetch("/api/latex/thumbnails", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ artifactId, sizes: ["sm", "md"], format: "webp" }),
+        });
+        const data = await r.json().catch(() => null);
+        if (!r.ok || !data?.thumbnailUrl) {
+            console.warn("Failed to render thumbnail:", data?.error ?? r.status);
+            return null;
+        }
+        return String(data.thumbnailUrl);
+    } catch (e) {
+        console.warn("renderPdfThumbnail error:", e);
+        return null;
+    }
+}
+
+/** A field a template can be filled with before generation (declared in its .vars.json). */
+export interface TemplateVariable {
+    name: string;
+    type: "string" | "integer" | "date" | "color";
+    label: string;
+    description?: string;
+    default: string | number;
+    min?: number;
+    max?: number;
+    maxLength?: number;
+}
+
+export type TemplateVariableValues = Record<string, string | number>;
+
+export interface LatexStats {
+    words: { text: number; captions: number; total: number };
+    equations: { display: number; inline: number };
+    sections: { chapter: number; section: number; subsection: number; subsubsection: number };
+    figures: number;
+    tables: number;
+    theorems: Record<string, number>;
+    pages: number | null;
+}
+
+/**
+ * Word, formula and structure counts for a document ({ latex }) or project
+ * ({ files, mainFile }). Pass the compile's artifactId to get the page count too.
+ */
+export async function getLatexStats(
+    source: { latex: string } | { files: { path: string; content: string }[]; mainFile: string },
+    artifactId?: string | null
+): Promise<LatexStats | null> {
+    try {
+        const r = await fetch("/api/latex/stats", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ ...source, artifactId: artifactId || undefined }),
+        });
+        const data = await r.json().catch(() => null);
+        if (!r.ok || !data?.stats) {
+            console.warn("Failed to load document stats:", data?.error ?? r.status);
+            return null;
+        }
+        return data.stats as LatexStats;
+    } catch (e) {
+        console.warn("getLatexStats error:", e);
+        return null;
+    }
+}
+
+/**
+ * Refresh a project's cover image from its latest compile
+ */
+export async function refreshProjectCover(projectId: string, artifactId: string): Promise<boolean> {
+    const url = await renderPdfThumbnail(artifactId);
+    if (!url) return false;
+    return updateProject(projectId, { cover_image_url: url });
+}
+
+/**
+ * Publish a project as a public document. Without a thumbnail_url, one is
+ * rendered from `artifactId` (the compile being published) when given.
  */
 export async function publishDocument(data: {
     project_id: string;
@@ -947,11 +979,16 @@ export async function publishDocument(data: {
     tags?: string[];
     pdf_url?: string;
     thumbnail_url?: string;
-}): Promise<string | null> {
+}, opts?: { artifactId?: string }): Promise<string | null> {
     try {
         const { data: { user } } = await supabase.auth.getUser();
         if (!user) return null;
 
+        if (!data.thumbnail_url && opts?.artifactId) {
+            const thumbnailUrl = await renderPdfThumbnail(opts.artifactId);
+            if (thumbnailUrl) data = { ...data, thumbnail_url: thumbnailUrl };
+        }
+
         const { data: doc, error } = await supabase
             .from('published_documents')
             .insert({
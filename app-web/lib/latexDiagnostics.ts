@@ -0,0 +1,71 @@
+// lib/latexDiagnostics.ts - structured diagnostics (and repair attempts) returned by the compile endpoints
+
+export type LatexDiagnosticSeverity = "error" | "warning" | "badbox";
+
+export interface LatexDiagnostic {
+    file: string | null;
+    line: number | null;
+    severity: LatexDiagnosticSeverity;
+    message: string;
+    context: string;
+}
+
+const SEVERITIES: LatexDiagnosticSeverity[] = ["error", "warning", "badbox"];
+
+/**
+ * Validate the `diagnostics` array from a compile response.
+ * Unknown shapes are dropped rather than trusted.
+ */
+export function normalizeDiagnostics(raw: unknown): LatexDiagnostic[] {
+    if (!Array.isArray(raw)) return [];
+    const out: LatexDiagnostic[] = [];
+    for (const item of raw) {
+        if (!item || typeof item !== "object") continue;
+        const obj = item as Record<string, unknown>;
+        const severity = SEVERITIES.includes(obj.severity as LatexDiagnosticSeverity)
+            ? (obj.severity as LatexDiagnosticSeverity)
+            : "error";
+        const line = typeof obj.line === "number" && Number.isFinite(obj.line) ? obj.line : null;
+        out.push({
+            file: typeof obj.file === "string" ? obj.file : null,
+            line,
+            severity,
+            message: String(obj.message ?? ""),
+            context: String(obj.context ?? ""),
+        });
+    }
+    return out;
+}
+
+/** One round of /latex/compile-with-repair, flattened for display. */
+export interface RepairAttempt {
+    attempt: number;
+    ok: boolean;
+    /** File the AI fix before this attempt edited; null for the original source. */
+    file: string | null;
+    rationale: string | null;
+    added: number;
+    removed: number;
+    diagnostics: LatexDiagnostic[];
+}
+
+/** Validate the `attempts` array from a compile-with-repair response. */
+export function normalizeRepairAttempts(raw: unknown): RepairAttempt[] {
+    if (!Array.isArray(raw)) return [];
+    const out: RepairAttempt[] = [];
+    for (const item of raw) {
+        if (!item || typeof item !== "object") continue;
+        const obj = item as Record<string, unknown>;
+        const diff = (obj.diff && typeof obj.diff === "object" ? obj.diff : {}) as Record<string, unknown>;
+        out.push({
+            attempt: Number(obj.attempt) || 0,
+            ok: obj.ok === true,
+            file: typeof obj.file === "string" ? obj.file : null,
+            rationale: typeof obj.rationale === "string" ? obj.rationale : null,
+            added: Number(diff.added) || 0,
+            removed: Number(diff.removed) || 0,
+            diagnostics: normalizeDiagnostics(obj.diagnostics),
+        });
+    }
+    return out;
+}
@@ -0,0 +1,90 @@
+// lib/latexLint.ts - static findings from /api/latex/lint, refreshed while the user types
+
+import { useEffect, useState } from "react";
+import type { LatexDiagnostic } from "@/lib/latexDiagnostics";
+
+export type LintSeverity = "error" | "warning";
+
+export interface LintFinding {
+    rule: string;
+    severity: LintSeverity;
+    message: string;
+    file: string;
+    /** 1-based */
+    line: number;
+    /** 1-based */
+    column: number;
+}
+
+export type LintSource =
+    | { latex: string }
+    | { files: { path: string; content: string }[]; mainFile: string; assets?: string[] };
+
+const LINT_API_ENDPOINT = "/api/latex/lint";
+const LINT_DEBOUNCE_MS = 600;
+
+/** Validate the `findings` array from a lint response, dropping unknown shapes. */
+export function normalizeLintFindings(raw: unknown): LintFinding[] {
+    if (!Array.isArray(raw)) return [];
+    const out: LintFinding[] = [];
+    for (const item of raw) {
+        if (!item || typeof item !== "object") continue;
+        const obj = item as Record<string, unknown>;
+        if (typeof obj.line !== "number" || typeof obj.column !== "number") continue;
+        out.push({
+            rule: String(obj.rule ?? ""),
+            severity: obj.severity === "warning" ? "warning" : "error",
+            message: String(obj.message ?? ""),
+            file: typeof obj.file === "string" ? obj.file : "main.tex",
+            line: obj.line,
+            column: obj.column,
+        });
+    }
+    return out;
+}
+
+/** Findings in the shape ProblemsList renders. */
+export function lintFindingsToDiagnostics(findings: LintFinding[]): LatexDiagnostic[] {
+    return findings.map((f) => ({
+        file: f.file,
+        line: f.line,
+        severity: f.severity,
+        message: f.message,
+        context: `${f.rule} (line ${f.line}, column ${f.column})`,
+    }));
+}
+
+/**
+ * Lint `source` after the user stops typing for a moment. Returns the latest
+ * findings; a failed request keeps the previous ones rather than clearing them.
+ */
+export function useLatexLint(source: LintSource | null): LintFinding[] {
+    const [findings, setFindings] = useState<LintFinding[]>([]);
+    const hasContent = source !== null && ("latex" in source ? source.latex.trim() !== "" : source.files.some((f) => f.content.trim()));
+    const body = hasContent ? JSON.stringify(source) : null;
+
+    useEffect(() => {
+        if (body === null) return;
+        const controller = new AbortController();
+        const timer = setTimeout(async () => {
+            try {
+                const r = await fetch(LINT_API_ENDPOINT, {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body,
+                    signal: controller.signal,
+                });
+                const data = await r.json().catch(() => null);
+                if (r.ok && data?.ok) setFindings(normalizeLintFindings(data.findings));
+            } catch (e) {
+                if (!controller.signal.aborted) console.warn("LaTeX lint error:", e);
+            }
+        }, LINT_DEBOUNCE_MS);
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [body]);
+
+    return body === null ? [] : findings;
+}
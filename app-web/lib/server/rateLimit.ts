@@ -0,0 +1,31 @@
+// lib/server/rateLimit.ts - turns app-api's rate-limit 429s into something to show the user
+
+/**
+ * When app-api refused `upstream` because the caller's token bucket is empty
+ * (429 RATE_LIMITED), a response with a friendlier message that keeps the code,
+ * `retryAfter` and the Retry-After header. Null for anything else, including
+ * QUOTA_EXCEEDED 429s, which the pages handle on their own.
+ */
+export async function rateLimitedResponse(upstream: Response): Promise<Response | null> {
+  if (upstream.status !== 429) return null;
+
+  const data = await upstream
+    .clone()
+    .json()
+    .catch(() => null);
+  if (data?.code !== "RATE_LIMITED") return null;
+
+  const retryAfter = Math.max(1, Number(upstream.headers.get("retry-after") ?? data.retryAfter) || 1);
+  const wait = retryAfter === 1 ? "a second" : `${retryAfter} seconds`;
+  return new Response(
+    JSON.stringify({
+      error: `You're going a bit fast. Give it ${wait} and try again.`,
+      code: "RATE_LIMITED",
+      retryAfter,
+    }),
+    {
+      status: 429,
+      headers: { "Content-Type": "application/json", "Retry-After": String(retryAfter) },
+    }
+  );
+}
@@ -0,0 +1,93 @@
+// lib/server/upstreamAuth.ts - forwards the caller's Supabase session to app-api
+import crypto from "crypto";
+import { cookies } from "next/headers";
+import { createServerClient } from "@supabase/ssr";
+
+/**
+ * `Authorization` header for an app-api request made on behalf of `req`.
+ * A bearer header sent by the caller wins; otherwise the access token comes
+ * from the Supabase session cookies the browser client keeps. Empty for
+ * signed-out callers, which app-api treats as anonymous.
+ */
+export async function upstreamAuthHeaders(req: Request): Promise<Record<string, string>> {
+  const explicit = req.headers.get("authorization");
+  if (explicit) return { Authorization: explicit };
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!url || !anonKey) return {};
+
+  const cookieStore = await cookies();
+  const supabase = createServerClient(url, anonKey, {
+    cookies: {
+      getAll() {
+        return cookieStore.getAll();
+      },
+      setAll(cookiesToSet) {
+        // A refreshed session is written back so the browser picks it up.
+        cookiesToSet.forEach(({ name, value, options }) => {
+          cookieStore.set(name, value, options);
+        });
+      },
+    },
+  });
+
+  // getSession() trusts the cookie without a network round trip; app-api
+  // verifies the token itself before acting on it.
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  return session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
+
+// Issued by app-api to meter signed-out callers; see app-api/src/lib/quota.ts.
+const ANON_SESSION_COOKIE = "bn_anon";
+
+/**
+ * The browser's address as the platform in front of this app reports it:
+ * X-Real-IP, else the last X-Forwarded-For hop (the one our proxy appended;
+ * anything before it came from the caller).
+ */
+function clientAddress(req: Request): string | null {
+  const realIp = req.headers.get("x-real-ip")?.trim();
+  if (realIp) return realIp;
+  const hops = (req.headers.get("x-forwarded-for") ?? "").split(",").map((h) => h.trim()).filter(Boolean);
+  return hops.length ? hops[hops.length - 1] : null;
+}
+
+/**
+ * The browser's address for app-api's per-client limits, signed with
+ * CLIENT_IP_SECRET (shared with app-api) so callers can't pick their own.
+ * Every rate-limited proxy sends these; without them all anonymous callers
+ * share this server's address.
+ */
+export function upstreamClientHeaders(req: Request): Record<string, string> {
+  const secret = process.env.CLIENT_IP_SECRET;
+  const ip = clientAddress(req);
+  if (!secret || !ip) return {};
+  return {
+    "X-Client-IP": ip,
+    "X-Client-IP-Signature": crypto.createHmac("sha256", secret).update(ip).digest("hex"),
+  };
+}
+
+/**
+ * Headers app-api meters anonymous callers by: its anonymous session cookie
+ * (and no other cookie) and the browser's address.
+ */
+export function upstreamQuotaHeaders(req: Request): Record<string, string> {
+  const headers: Record<string, string> = upstreamClientHeaders(req);
+  const session = (req.headers.get("cookie") ?? "")
+    .split(";")
+    .map((c) => c.trim())
+    .find((c) => c.startsWith(`${ANON_SESSION_COOKIE}=`));
+  if (session) headers.Cookie = session;
+  return headers;
+}
+
+/** Copy a newly issued anonymous session cookie onto the proxied response headers. */
+export function withQuotaCookie(upstream: Response, headers: Record<string, string>): Record<string, string> {
+  const cookie = upstream.headers.get("set-cookie");
+  if (cookie) headers["Set-Cookie"] = cookie;
+  return headers;
+}
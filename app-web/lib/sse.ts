@@ -0,0 +1,50 @@
+// lib/sse.ts - read a Server-Sent Events response from fetch()
+
+export interface ServerSentEvent {
+    event: string;
+    data: unknown;
+}
+
+/**
+ * Parse a text/event-stream body and call `onEvent` for every event as it
+ * arrives. `data` is JSON-decoded when possible. Resolves when the stream ends.
+ */
+export async function readServerSentEvents(
+    response: Response,
+    onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+    if (!response.body) return;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    function dispatch(block: string) {
+        let event = "message";
+        const dataLines: string[] = [];
+        for (const line of block.split("\n")) {
+            if (!line || line.startsWith(":")) continue; // comment / keep-alive
+            const colon = line.indexOf(":");
+            const field = colon === -1 ? line : line.slice(0, colon);
+            const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+            if (field === "event") event = value;
+            else if (field === "data") dataLines.push(value);
+        }
+        if (!dataLines.length) return;
+        const raw = dataLines.join("\n");
+        let data: unknown = raw;
+        try { data = JSON.parse(raw); } catch { /* plain text payload */ }
+        onEvent({ event, data });
+    }
+
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+        let idx;
+        while ((idx = buffer.indexOf("\n\n")) !== -1) {
+            dispatch(buffer.slice(0, idx));
+            buffer = buffer.slice(idx + 2);
+        }
+    }
+    if (buffer.trim()) dispatch(buffer);
+}
@@ -0,0 +1,110 @@
+-- ============================================================
+-- Server-side message quota for generate / fix requests
+-- ============================================================
+-- app-api meters model calls itself instead of trusting the browser. Each
+-- request reserves one unit before calling the model and refunds it if the
+-- request fails. Subjects are "user:<uuid>" for signed-in callers and
+-- "anon:<session id>" / "ip:<address hash>" for anonymous ones; periods are
+-- calendar months (UTC), identified by their first instant.
+-- Only the service role touches this table: RLS is on with no policies.
+-- The limits themselves live in app-api (QUOTA_* settings) and are passed to
+-- reserve_message_quota; the database only counts.
+
+CREATE TABLE IF NOT EXISTS message_quota (
+    subject         text NOT NULL,
+    period_start    timestamptz NOT NULL,
+    used            integer NOT NULL DEFAULT 0 CHECK (used >= 0),
+    updated_at      timestamptz NOT NULL DEFAULT now(),
+    PRIMARY KEY (subject, period_start)
+);
+
+ALTER TABLE message_quota ENABLE ROW LEVEL SECURITY;
+
+
+-- Take one unit if fewer than p_limit are used. The upsert's WHERE makes the
+-- check and the increment a single statement, so concurrent requests can't
+-- both take the last unit.
+CREATE OR REPLACE FUNCTION reserve_message_quota(p_subject text, p_period_start timestamptz, p_limit integer)
+RETURNS TABLE (allowed boolean, used integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF p_limit > 0 THEN
+        INSERT INTO message_quota AS q (subject, period_start, used)
+        VALUES (p_subject, p_period_start, 1)
+        ON CONFLICT (subject, period_start) DO UPDATE
+            SET used = q.used + 1, updated_at = now()
+            WHERE q.used < p_limit
+        RETURNING true, q.used INTO allowed, used;
+        IF FOUND THEN
+            RETURN NEXT;
+            RETURN;
+        END IF;
+    END IF;
+
+    allowed := false;
+    SELECT q.used INTO used FROM message_quota q WHERE q.subject = p_subject AND q.period_start = p_period_start;
+    used := COALESCE(used, 0);
+    RETURN NEXT;
+END;
+$$;
+
+
+-- Give back a unit taken by reserve_message_quota; returns the new count.
+CREATE OR REPLACE FUNCTION refund_message_quota(p_subject text, p_period_start timestamptz)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_used integer;
+BEGIN
+    UPDATE message_quota
+    SET used = GREATEST(used - 1, 0), updated_at = now()
+    WHERE subject = p_subject AND period_start = p_period_start
+    RETURNING message_quota.used INTO v_used;
+    RETURN COALESCE(v_used, 0);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_message_quota(text, timestamptz, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_message_quota(text, timestamptz) FROM PUBLIC, anon, authenticated;
+
+
+-- ------------------------------------------------------------
+-- Carry over the old per-user counter
+-- ------------------------------------------------------------
+-- Before this, the browser metered itself through get_usage_status /
+-- increment_message_count. Copy this month's count from it so switching over
+-- doesn't hand everyone a fresh allowance, then drop both functions so the
+-- limit they had built in stops being a second source of truth. Skipped on
+-- databases that never had them; re-running keeps the higher count.
+DO $$
+BEGIN
+    IF to_regprocedure('get_usage_status(uuid)') IS NULL THEN
+        RETURN;
+    END IF;
+
+    -- Whether it returns a row or a json value, to_jsonb gives an object
+    -- with message_count in it.
+    EXECUTE $backfill$
+        INSERT INTO message_quota AS q (subject, period_start, used)
+        SELECT 'user:' || u.id,
+               date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC',
+               c.used
+        FROM auth.users u
+        CROSS JOIN LATERAL (
+            SELECT (to_jsonb(s) ->> 'message_count')::integer AS used
+            FROM get_usage_status(u.id) s
+            LIMIT 1
+        ) c
+        WHERE c.used > 0
+        ON CONFLICT (subject, period_start) DO UPDATE
+            SET used = GREATEST(q.used, EXCLUDED.used), updated_at = now()
+    $backfill$;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS increment_message_count(uuid);
+DROP FUNCTION IF EXISTS get_usage_status(uuid);
@@ -0,0 +1,12 @@
+-- ============================================================
+-- Add per-project TeX engine
+-- ============================================================
+-- Workspace compiles send projects.engine to the API (pdflatex | xelatex | lualatex).
+-- Existing projects keep compiling with pdflatex.
+
+DO $$ BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='projects' AND column_name='engine') THEN
+        ALTER TABLE projects ADD COLUMN engine text NOT NULL DEFAULT 'pdflatex'
+            CHECK (engine IN ('pdflatex', 'xelatex', 'lualatex'));
+    END IF;
+END $$;
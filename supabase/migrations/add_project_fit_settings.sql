@@ -0,0 +1,12 @@
+-- ============================================================
+-- Add per-project fit-to-pages settings
+-- ============================================================
+-- Workspace compiles send fit_settings.targetPages to the API, which tightens the
+-- document until the PDF fits. The result of the last successful fit is stored next
+-- to it: { targetPages, level, pages, parameters }. NULL means "no page limit".
+
+DO $$ BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='projects' AND column_name='fit_settings') THEN
+        ALTER TABLE projects ADD COLUMN fit_settings jsonb;
+    END IF;
+END $$;
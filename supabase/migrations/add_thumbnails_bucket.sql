@@ -0,0 +1,11 @@
+-- ============================================================
+-- Add public thumbnails bucket for PDF previews
+-- ============================================================
+-- app-api renders compiled PDFs to images and uploads them with the service role
+-- (path convention: <sha256 of the PDF>/p<page>-<size>.<png|webp>).
+-- The URLs end up in projects.cover_image_url and published_documents.thumbnail_url,
+-- so the bucket is public-read; nobody but the service role writes to it.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('thumbnails', 'thumbnails', true, 5242880, ARRAY['image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;